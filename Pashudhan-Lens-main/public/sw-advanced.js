@@ -2,19 +2,18 @@
 // Implements caching strategies for maximum performance
 
 const CACHE_NAME = 'critter-cognito-v1';
-const STATIC_CACHE = 'critter-static-v1';
-const DYNAMIC_CACHE = 'critter-dynamic-v1';
-const IMAGE_CACHE = 'critter-images-v1';
+const STATIC_CACHE = 'critter-static-v2';
+const DYNAMIC_CACHE = 'critter-dynamic-v2';
+const IMAGE_CACHE = 'critter-images-v2';
+
+// App shell served for any route when offline; hashed bundles are added by the page via PRECACHE_URLS
+const APP_SHELL = '/';
 
 // Resources to cache immediately
 const STATIC_ASSETS = [
-  '/',
-  '/manifest.json',
-  '/src/main.tsx',
-  '/src/App.tsx',
-  '/src/index.css',
-  '/src/assets/hero-wildlife.jpg',
-  '/src/assets/3.jpg',
+  APP_SHELL,
+  '/favicon.svg',
+  '/placeholder.svg'
 ];
 
 // Network-first routes (always try network first)
@@ -42,10 +41,7 @@ self.addEventListener('install', (event) => {
   event.waitUntil(
     Promise.all([
       // Cache static assets
-      caches.open(STATIC_CACHE).then((cache) => {
-        console.log('Service Worker: Caching static assets');
-        return cache.addAll(STATIC_ASSETS);
-      }),
+      cacheUrls(STATIC_CACHE, STATIC_ASSETS),
       // Skip waiting to activate immediately
       self.skipWaiting()
     ])
@@ -87,8 +83,15 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // The Cache API only stores GET; identification POSTs to /api/breed go straight to the network
+  if (request.method !== 'GET') {
+    return;
+  }
+
   // Handle different types of requests
-  if (request.destination === 'image') {
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (request.destination === 'image') {
     event.respondWith(handleImageRequest(request));
   } else if (isNetworkFirstRoute(request.url)) {
     event.respondWith(handleNetworkFirst(request));
@@ -99,10 +102,46 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
+// Cache each URL independently so one missing file doesn't fail the whole batch
+async function cacheUrls(cacheName, urls) {
+  const cache = await caches.open(cacheName);
+  await Promise.all(urls.map(async (url) => {
+    try {
+      const response = await fetch(url, { cache: 'no-cache' });
+      if (response.ok) {
+        await cache.put(url, response);
+      }
+    } catch (error) {
+      console.log('Service Worker: Failed to cache', url, error);
+    }
+  }));
+}
+
+// Navigation strategy - client-side routes all share the app shell, so fall back to it offline
+async function handleNavigation(request) {
+  const cache = await caches.open(STATIC_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(APP_SHELL, response.clone());
+    }
+    return response;
+  } catch (error) {
+    console.log('Service Worker: Offline navigation, serving app shell');
+    const cachedShell = await cache.match(APP_SHELL);
+    if (cachedShell) {
+      return cachedShell;
+    }
+    throw error;
+  }
+}
+
 // Image caching strategy
 async function handleImageRequest(request) {
   const cache = await caches.open(IMAGE_CACHE);
-  const cachedResponse = await cache.match(request);
+  // Images warmed via PRECACHE_URLS live in the static cache
+  const cachedResponse = await caches.match(request);
 
   if (cachedResponse) {
     // Return cached image immediately
@@ -193,17 +232,23 @@ function isCacheFirstRoute(url) {
   return CACHE_FIRST_ROUTES.some(route => url.includes(route));
 }
 
-// Background sync for offline functionality
+// Background sync for the offline capture queue; tag must match CAPTURE_QUEUE_SYNC_TAG
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'background-sync') {
+  if (event.tag === 'capture-queue') {
     event.waitUntil(doBackgroundSync());
   }
 });
 
+// Analysis needs the app's pipeline and canvas, so open pages do the work; queued
+// captures stay in IndexedDB until a page is available to process them
 async function doBackgroundSync() {
   console.log('Service Worker: Running background sync');
-  // Implement background sync logic here
-  // For example, sync pending uploads when back online
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (clients.length === 0) {
+    // Rejecting makes the browser retry the sync later, when a page may be open
+    throw new Error('No open page to process the capture queue');
+  }
+  clients.forEach((client) => client.postMessage({ type: 'PROCESS_CAPTURE_QUEUE' }));
 }
 
 // Push notifications (if needed in the future)
@@ -224,10 +269,14 @@ self.addEventListener('push', (event) => {
   );
 });
 
-// Performance monitoring
+// Messages from the page
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'PERFORMANCE_MARK') {
     // Log performance marks for monitoring
     console.log('Service Worker: Performance mark:', event.data);
+  } else if (event.data && event.data.type === 'PRECACHE_URLS') {
+    // Warm the cache with bundles the page has loaded so those routes work offline
+    const urls = (event.data.urls || []).filter((url) => new URL(url, self.location.origin).origin === self.location.origin);
+    event.waitUntil(cacheUrls(STATIC_CACHE, urls));
   }
 });
@@ -0,0 +1,42 @@
+// Resolves the Authorization header to the signed-in user the request is charged to
+import { verifyToken } from '@clerk/backend';
+import { MOCK_SESSION_TOKEN_PREFIX } from '@/lib/roles';
+import { ProxyConfig } from './config';
+
+export class ProxyAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyAuthError';
+  }
+}
+
+const readBearerToken = (authorization: string | undefined): string => {
+  const [scheme, token] = (authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) throw new ProxyAuthError('Sign in to use breed identification');
+  return token;
+};
+
+// Returns the user ID rate limits are keyed on
+export const authenticateRequest = async (
+  authorization: string | undefined,
+  config: Pick<ProxyConfig, 'PROXY_AUTH_MODE' | 'CLERK_SECRET_KEY' | 'CLERK_JWT_KEY' | 'PROXY_ALLOWED_ORIGINS'>
+): Promise<string> => {
+  const token = readBearerToken(authorization);
+
+  if (config.PROXY_AUTH_MODE === 'mock') {
+    if (!token.startsWith(MOCK_SESSION_TOKEN_PREFIX)) throw new ProxyAuthError('Expected a mock session token');
+    return token.slice(MOCK_SESSION_TOKEN_PREFIX.length) || 'mock-user';
+  }
+
+  try {
+    const session = await verifyToken(token, {
+      secretKey: config.CLERK_SECRET_KEY,
+      jwtKey: config.CLERK_JWT_KEY,
+      authorizedParties: config.PROXY_ALLOWED_ORIGINS
+    });
+    return session.sub;
+  } catch (error) {
+    console.warn('Rejected session token:', error instanceof Error ? error.message : error);
+    throw new ProxyAuthError('Your session has expired. Sign in again');
+  }
+};
@@ -0,0 +1,42 @@
+// Proxy settings, read from the process environment or server/.env
+import { existsSync } from 'node:fs';
+import { z } from 'zod';
+
+export const GOOGLE_GENERATIVE_LANGUAGE_URL = 'https://generativelanguage.googleapis.com';
+
+const list = z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean));
+
+export const proxyEnvSchema = z.object({
+  PROXY_PORT: z.coerce.number().int().min(1).max(65535).default(8787),
+  // Never sent to the browser; the proxy adds it to upstream requests as a header
+  GEMINI_API_KEY: z.string().optional(),
+  PROXY_UPSTREAM_URL: z.string().url().default(GOOGLE_GENERATIVE_LANGUAGE_URL),
+  PROXY_ALLOWED_MODELS: list.default('gemini-2.5-flash'),
+  PROXY_ALLOWED_ORIGINS: list.default('http://localhost:8080'),
+  PROXY_RATE_LIMIT: z.coerce.number().int().min(1).default(20),
+  PROXY_RATE_WINDOW_MS: z.coerce.number().int().min(1000).default(60_000),
+  // Below the app's own 60s request timeout, so the user sees the proxy's 504 instead of a dropped connection
+  PROXY_UPSTREAM_TIMEOUT_MS: z.coerce.number().int().min(1000).default(55_000),
+  // "mock" trusts the "mock:<user id>" tokens sent by the app's mock auth mode - development only
+  PROXY_AUTH_MODE: z.enum(['clerk', 'mock']).default('clerk'),
+  CLERK_SECRET_KEY: z.string().optional(),
+  CLERK_JWT_KEY: z.string().optional() // PEM public key; verifies sessions without fetching Clerk's JWKS
+}).superRefine((env, ctx) => {
+  if (env.PROXY_AUTH_MODE === 'clerk' && !env.CLERK_SECRET_KEY && !env.CLERK_JWT_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'CLERK_SECRET_KEY or CLERK_JWT_KEY is required', path: ['CLERK_SECRET_KEY'] });
+  }
+});
+
+export type ProxyConfig = z.infer<typeof proxyEnvSchema>;
+
+// The upstream key is only optional when the proxy runs against the in-process stub
+export const loadProxyConfig = (overrides: Record<string, string> = {}): ProxyConfig => {
+  if (existsSync('server/.env')) process.loadEnvFile('server/.env');
+
+  const parsed = proxyEnvSchema.safeParse({ ...process.env, ...overrides });
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid proxy configuration - ${problems}`);
+  }
+  return parsed.data;
+};
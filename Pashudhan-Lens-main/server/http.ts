@@ -0,0 +1,46 @@
+// Small helpers shared by the proxy and the stub upstream
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Batches of ten compressed images stay well under this
+export const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+export class RequestBodyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+    this.status = status;
+  }
+}
+
+export const readBody = async (request: IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) throw new RequestBodyError('Request body too large', 413);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+export const readJsonBody = async <T>(request: IncomingMessage): Promise<T> => {
+  const text = await readBody(request);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new RequestBodyError('Request body is not valid JSON', 400);
+  }
+};
+
+export const sendJson = (
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
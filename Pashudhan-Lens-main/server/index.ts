@@ -0,0 +1,35 @@
+// Entry point: `npm run proxy`, or `npm run proxy:dev` to answer from the mock fixtures without a Gemini key
+import { AddressInfo } from 'node:net';
+import { loadProxyConfig } from './config';
+import { createProxyServer } from './proxy';
+import { createStubUpstream } from './stubUpstream';
+
+const startStubUpstream = async (): Promise<string> => {
+  const stub = createStubUpstream();
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+};
+
+const main = async () => {
+  const useStub = process.argv.includes('--stub');
+  const overrides = useStub
+    ? { PROXY_UPSTREAM_URL: await startStubUpstream(), GEMINI_API_KEY: 'stub' }
+    : {};
+  const config = loadProxyConfig(overrides);
+
+  if (!config.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is required - set it in server/.env or run with --stub');
+  }
+  if (config.PROXY_AUTH_MODE === 'mock') {
+    console.warn('PROXY_AUTH_MODE=mock accepts unsigned tokens. Do not expose this proxy beyond localhost');
+  }
+
+  createProxyServer(config).listen(config.PROXY_PORT, () => {
+    console.log(`Breed proxy listening on http://localhost:${config.PROXY_PORT}${useStub ? ' (stub upstream)' : ''}`);
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
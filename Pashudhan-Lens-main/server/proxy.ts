@@ -0,0 +1,117 @@
+// Breed identification proxy - holds the Gemini key and forwards signed-in users' generateContent calls
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { authenticateRequest, ProxyAuthError } from './auth';
+import { ProxyConfig } from './config';
+import { readBody, RequestBodyError, sendJson } from './http';
+import { createRateLimiter } from './rateLimiter';
+
+const GENERATE_CONTENT_PATH = /^\/v1beta\/models\/([\w.-]+):generateContent$/;
+
+const sendError = (response: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) =>
+  sendJson(response, status, { error: { code: status, message } }, headers);
+
+const applyCors = (request: IncomingMessage, response: ServerResponse, allowedOrigins: string[]) => {
+  const origin = request.headers.origin;
+  if (!origin || !allowedOrigins.includes(origin)) return;
+
+  response.setHeader('Access-Control-Allow-Origin', origin);
+  response.setHeader('Vary', 'Origin');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+};
+
+export const createProxyServer = (config: ProxyConfig): Server => {
+  const limiter = createRateLimiter({ limit: config.PROXY_RATE_LIMIT, windowMs: config.PROXY_RATE_WINDOW_MS });
+
+  const forward = async (request: IncomingMessage, response: ServerResponse, model: string) => {
+    const userId = await authenticateRequest(request.headers.authorization, config);
+
+    const rateLimit = limiter.check(userId);
+    if (!rateLimit.allowed) {
+      sendError(response, 429, 'Too many identification requests. Try again shortly', {
+        'Retry-After': String(Math.ceil(rateLimit.retryAfterMs / 1000))
+      });
+      return;
+    }
+
+    const body = await readBody(request);
+
+    // Stop the upstream call when it hangs, or when the app has already given up and disconnected
+    const clientGone = new AbortController();
+    response.once('close', () => {
+      if (!response.writableEnded) clientGone.abort();
+    });
+    const signal = AbortSignal.any([clientGone.signal, AbortSignal.timeout(config.PROXY_UPSTREAM_TIMEOUT_MS)]);
+
+    const upstream = await fetch(`${config.PROXY_UPSTREAM_URL}/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.GEMINI_API_KEY
+      },
+      body,
+      signal
+    });
+
+    // A rejected key is the proxy's misconfiguration, not the user's - never report it as their auth failing.
+    // 500 is reserved for this and the app doesn't retry it; a bad key won't fix itself
+    if (upstream.status === 401 || upstream.status === 403) {
+      console.error(`Upstream rejected the API key (${upstream.status})`);
+      sendError(response, 500, 'Breed identification service is misconfigured');
+      return;
+    }
+
+    // Gemini's quota answers carry Retry-After too; the app's backoff depends on it
+    const retryAfter = upstream.headers.get('retry-after');
+    response.writeHead(upstream.status === 500 ? 502 : upstream.status, {
+      'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+      'X-RateLimit-Remaining': String(rateLimit.remaining),
+      ...(retryAfter && { 'Retry-After': retryAfter })
+    });
+    response.end(await upstream.text());
+  };
+
+  return createServer(async (request, response) => {
+    applyCors(request, response, config.PROXY_ALLOWED_ORIGINS);
+    const path = (request.url ?? '').split('?')[0];
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+
+    if (request.method === 'GET' && path === '/health') {
+      sendJson(response, 200, { status: 'ok' });
+      return;
+    }
+
+    const match = GENERATE_CONTENT_PATH.exec(path);
+    if (request.method !== 'POST' || !match) {
+      sendError(response, 404, 'Not found');
+      return;
+    }
+
+    if (!config.PROXY_ALLOWED_MODELS.includes(match[1])) {
+      sendError(response, 404, `Model ${match[1]} is not available through this proxy`);
+      return;
+    }
+
+    try {
+      await forward(request, response, match[1]);
+    } catch (error) {
+      if (response.destroyed) return; // The client disconnected; nobody to answer
+      if (error instanceof ProxyAuthError) {
+        sendError(response, 401, error.message);
+      } else if (error instanceof RequestBodyError) {
+        sendError(response, error.status, error.message);
+      } else if (error instanceof DOMException && error.name === 'TimeoutError') {
+        console.error('Upstream request timed out');
+        sendError(response, 504, 'Breed identification service timed out');
+      } else {
+        console.error('Proxy request failed:', error);
+        sendError(response, 502, 'Breed identification service is unavailable');
+      }
+    }
+  });
+};
@@ -0,0 +1,44 @@
+// Sliding-window request limit per user, kept in memory for a single proxy process
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitResult;
+  size(): number; // Users with requests inside the window
+}
+
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  // Users who stop calling would otherwise keep their key for the life of the process
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    hits.forEach((timestamps, key) => {
+      if (timestamps[timestamps.length - 1] <= now - windowMs) hits.delete(key);
+    });
+  };
+
+  return {
+    check(key, now = Date.now()) {
+      sweep(now);
+      const recent = (hits.get(key) ?? []).filter(timestamp => timestamp > now - windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - now };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+
+    size: () => hits.size
+  };
+};
@@ -0,0 +1,34 @@
+// Gemini-compatible stand-in for local development: answers generateContent with the mock fixtures
+import { createServer, Server } from 'node:http';
+import { createMockProvider } from '@/services/providers/mockProvider';
+import { readJsonBody, sendJson } from './http';
+
+interface GeminiRequestBody {
+  contents?: { parts?: { text?: string; inlineData?: { mimeType: string; data: string } }[] }[];
+}
+
+// Gemini requests carry no file names, so fixtures are picked from a hash of the image data
+export const createStubUpstream = (): Server => {
+  const provider = createMockProvider();
+
+  return createServer(async (request, response) => {
+    if (request.method !== 'POST' || !request.url?.endsWith(':generateContent')) {
+      sendJson(response, 404, { error: { message: 'Not found' } });
+      return;
+    }
+
+    try {
+      const body = await readJsonBody<GeminiRequestBody>(request);
+      const parts = body.contents?.[0]?.parts ?? [];
+      const { text } = await provider.generateContent({
+        prompt: parts.find(part => part.text)?.text ?? '',
+        images: parts
+          .filter(part => part.inlineData)
+          .map(part => ({ base64: part.inlineData.data, mimeType: part.inlineData.mimeType }))
+      });
+      sendJson(response, 200, { candidates: [{ content: { parts: [{ text }] } }] });
+    } catch (error) {
+      sendJson(response, 400, { error: { message: error instanceof Error ? error.message : 'Invalid request' } });
+    }
+  });
+};
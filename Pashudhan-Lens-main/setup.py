@@ -56,11 +56,16 @@ def setup_environment():
     
     gemini_key = input("\nEnter Google Gemini API Key: ").strip()
     clerk_key = input("Enter Clerk Publishable Key: ").strip()
+    clerk_secret_key = input("Enter Clerk Secret Key: ").strip()
     
-    content = f"VITE_GEMINI_API_KEY={gemini_key}\nVITE_CLERK_PUBLISHABLE_KEY={clerk_key}"
+    content = f"VITE_CLERK_PUBLISHABLE_KEY={clerk_key}"
     
     with open(env_file, "w") as f:
         f.write(content)
+
+    # The Gemini key stays with the breed proxy and is never bundled into the app
+    with open(os.path.join("server", ".env"), "w") as f:
+        f.write(f"GEMINI_API_KEY={gemini_key}\nCLERK_SECRET_KEY={clerk_secret_key}")
     
     # Also create .env.vercel
     with open(".env.vercel", "w") as f:
@@ -72,12 +77,17 @@ def start_app():
     print("\n\033[92m🚀 Starting Pashudhan Lens...\033[0m")
     print("The application will open in your default browser.")
     
+    # The breed proxy holds the Gemini key; the dev server forwards /api/breed to it
+    proxy = subprocess.Popen(["npm", "run", "proxy"], shell=True)
+
     # Use npm run dev -- --open to let Vite handle opening the browser on the correct port
     try:
         # Windows requires shell=True for npm
         subprocess.check_call(["npm", "run", "dev", "--", "--open"], shell=True)
     except KeyboardInterrupt:
         print("\nStopped.")
+    finally:
+        proxy.terminate()
 
 def ask_cleanup():
     print("\n\033[93m🧹 Cleanup Option\033[0m")
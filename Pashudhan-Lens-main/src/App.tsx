@@ -10,19 +10,14 @@ import { AppProvider } from "@/contexts/AppContext";
 import { PerformanceProvider } from "@/contexts/PerformanceContext";
 import { SimpleLoadingOverlay } from "@/components/ui/simple-loading";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { 
-  SignedIn, 
-  SignedOut, 
-  SignInButton, 
-  SignUpButton, 
-  UserButton 
-} from "@clerk/clerk-react";
+import uploadBg from "@/assets/upload_bg.png";
+import libraryBg from "@/assets/library_bg.jpeg";
 
 // Preload critical background images
 const preloadBackgroundImages = () => {
   const imageUrls = [
-    '/src/assets/upload_bg.png', 
-    '/src/assets/library_bg.jpeg'
+    uploadBg,
+    libraryBg
   ];
   
   imageUrls.forEach(url => {
@@ -39,6 +34,13 @@ const AboutWrapper = lazy(() => import("./components/RouterWrappers").then(modul
 const UploadWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.UploadWrapper })));
 const ResultsWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.ResultsWrapper })));
 const LibraryWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.LibraryWrapper })));
+const BreedDetailWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.BreedDetailWrapper })));
+const HistoryWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.HistoryWrapper })));
+const ReviewWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.ReviewWrapper })));
+const DashboardWrapper = lazy(() => import("./components/RouterWrappers").then(module => ({ default: module.DashboardWrapper })));
+// Pulls in the analysis pipeline, so it stays out of the initial bundle
+const CaptureQueueSync = lazy(() => import("./components/CaptureQueueSync").then(module => ({ default: module.CaptureQueueSync })));
+const BatchJobPanel = lazy(() => import("./components/BatchJobPanel").then(module => ({ default: module.BatchJobPanel })));
 
 // Optimized Query Client configuration for better performance
 const queryClient = new QueryClient({
@@ -79,9 +81,9 @@ const BackgroundSelector = memo(() => {
   
   // Determine which background to show based on route
   const getBackgroundVariant = () => {
-    if (currentPath === '/upload') return 'upload';
+    if (['/upload', '/history', '/review', '/dashboard'].includes(currentPath)) return 'upload';
     if (currentPath === '/results') return 'results';
-    if (currentPath === '/library') return 'library';
+    if (currentPath.startsWith('/library')) return 'library';
     return 'default';
   };
   
@@ -116,6 +118,9 @@ const App = memo(() => {
               expand={false}
               visibleToasts={3}
             />
+            <Suspense fallback={null}>
+              <CaptureQueueSync />
+            </Suspense>
             <BrowserRouter>
               <AppProvider>
                 {/* Background is always shown immediately - prevents flicker */}
@@ -128,11 +133,20 @@ const App = memo(() => {
                     <Route path="/about" element={<AboutWrapper />} />
                     <Route path="/upload" element={<UploadWrapper />} />
                     <Route path="/library" element={<LibraryWrapper />} />
+                    <Route path="/library/:breedId" element={<BreedDetailWrapper />} />
                     <Route path="/results" element={<ResultsWrapper />} />
+                    <Route path="/history" element={<HistoryWrapper />} />
+                    <Route path="/review" element={<ReviewWrapper />} />
+                    <Route path="/dashboard" element={<DashboardWrapper />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
                   </Routes>
                 </Suspense>
+
+                {/* Outside the routes so a running batch job stays visible while navigating */}
+                <Suspense fallback={null}>
+                  <BatchJobPanel />
+                </Suspense>
               </AppProvider>
             </BrowserRouter>
           </TooltipProvider>
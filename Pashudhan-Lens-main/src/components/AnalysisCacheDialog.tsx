@@ -0,0 +1,105 @@
+import React, { useCallback, useState } from 'react';
+import { Database } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { getAnalysisCacheHitRate, getAnalysisCacheTtlMs } from '@/lib/analysisCache';
+import { clearAnalysisCache, getAnalysisCacheStats } from '@/services/analysisCache';
+import { AnalysisCacheStats } from '@/types/analysisCache';
+
+interface AnalysisCacheDialogProps {
+  triggerClassName?: string;
+}
+
+const formatTtl = (ttlMs: number): string => {
+  const hours = ttlMs / (60 * 60 * 1000);
+  if (hours === 0) return 'Off';
+  return hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hours`;
+};
+
+// Debug panel for the result cache: hit/miss counts, stored entries and a reset
+export const AnalysisCacheDialog: React.FC<AnalysisCacheDialogProps> = ({ triggerClassName }) => {
+  const [stats, setStats] = useState<(AnalysisCacheStats & { entries: number }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await getAnalysisCacheStats());
+      setError(null);
+    } catch (loadError) {
+      console.warn('Could not read analysis cache stats:', loadError);
+      setError('Cached results are not available in this browser.');
+    }
+  }, []);
+
+  const handleClear = useCallback(async () => {
+    setIsClearing(true);
+    try {
+      await clearAnalysisCache();
+      await loadStats();
+    } finally {
+      setIsClearing(false);
+    }
+  }, [loadStats]);
+
+  const hitRate = stats ? getAnalysisCacheHitRate(stats) : undefined;
+
+  return (
+    <Dialog onOpenChange={open => open && loadStats()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={triggerClassName}>
+          <Database className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+          Cache
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cached results</DialogTitle>
+          <DialogDescription>
+            Photos analyzed before with the same model and prompt reuse their stored result instead of a new model call.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-700">{error}</p>
+        ) : stats && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <div className="rounded-md bg-gray-50 p-2">
+                <dt className="text-xs text-gray-500">Hits</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.hits}</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-2">
+                <dt className="text-xs text-gray-500">Misses</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.misses}</dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-2">
+                <dt className="text-xs text-gray-500">Hit rate</dt>
+                <dd className="text-lg font-semibold text-gray-900">
+                  {hitRate === undefined ? '-' : `${Math.round(hitRate * 100)}%`}
+                </dd>
+              </div>
+              <div className="rounded-md bg-gray-50 p-2">
+                <dt className="text-xs text-gray-500">Stored results</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.entries}</dd>
+              </div>
+            </dl>
+            <p className="text-xs text-gray-500">
+              Kept for {formatTtl(getAnalysisCacheTtlMs())} · counted since {new Date(stats.since).toLocaleString()}
+            </p>
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={isClearing}>
+              Clear cache
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
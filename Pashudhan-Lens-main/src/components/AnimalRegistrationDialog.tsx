@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { UseFormReturn, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ClipboardCheck, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ANIMAL_AGE_CLASS_LABELS,
+  ANIMAL_SEX_LABELS,
+  ANIMAL_SIZE_CLASS_LABELS,
+  AnimalRecordFormInput,
+  AnimalRecordFormValues,
+  SuggestedField,
+  createAnimalRecordFormDefaults,
+  createAnimalRecordFormSchema,
+  suggestAnimalFields
+} from '@/lib/animalRecordSchema';
+import { BREED_REGISTRY } from '@/lib/breedRegistry';
+import { BREED_CATEGORY_NAMES } from '@/lib/breedComposition';
+import { createAnimalPhoto, saveAnimalRecord } from '@/services/animalRecords';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
+
+interface AnimalRegistrationDialogProps {
+  breed: StandardizedBreedIdentification;
+  photo: { source: File | string; fileName: string };
+  triggerClassName?: string;
+}
+
+// Shown under each AI-filled field until the user confirms it or picks a different value
+const SuggestionConfirm: React.FC<{
+  form: UseFormReturn<AnimalRecordFormInput>;
+  field: SuggestedField;
+  label?: string;
+}> = ({ form, field, label }) => {
+  if (!label) return null;
+
+  const isOverridden = form.watch(field) !== form.formState.defaultValues?.[field];
+
+  return (
+    <FormField
+      control={form.control}
+      name={`confirmed.${field}`}
+      render={({ field: confirmField }) => (
+        <FormItem className="flex items-center gap-2 space-y-0 rounded-md bg-amber-50 px-3 py-2">
+          <FormControl>
+            <Checkbox checked={confirmField.value} onCheckedChange={value => confirmField.onChange(value === true)} />
+          </FormControl>
+          <FormLabel className="flex items-center gap-1 text-xs font-normal text-amber-900">
+            <Sparkles className="w-3 h-3" />
+            {isOverridden ? `Changed from AI suggestion "${label}"` : `Confirm AI suggestion "${label}"`}
+          </FormLabel>
+          <FormMessage className="text-xs" />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export const AnimalRegistrationDialog: React.FC<AnimalRegistrationDialogProps> = ({ breed, photo, triggerClassName }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const suggestions = useMemo(() => suggestAnimalFields(breed), [breed]);
+  const schema = useMemo(() => createAnimalRecordFormSchema(suggestions), [suggestions]);
+
+  const form = useForm<AnimalRecordFormInput>({
+    resolver: zodResolver(schema),
+    defaultValues: createAnimalRecordFormDefaults(suggestions)
+  });
+
+  // Changing a suggested value is an explicit override, which counts as confirming it
+  const overrideSuggestion = (field: SuggestedField, onChange: (value: string) => void) => (value: string) => {
+    onChange(value);
+    if (suggestions[field]) {
+      form.setValue(`confirmed.${field}`, true, { shouldValidate: form.formState.isSubmitted });
+    }
+  };
+
+  const handleSubmit = async (input: AnimalRecordFormInput) => {
+    // The resolver hands back parsed output (normalized ear tag, '' selects dropped)
+    const values = input as unknown as AnimalRecordFormValues;
+    try {
+      const photos = [await createAnimalPhoto(photo.source, photo.fileName)];
+      const record = await saveAnimalRecord(values, { suggestions, photos });
+      toast({ title: 'Animal registered', description: `Ear tag ${record.earTagId} saved for ${record.ownerName}, ${record.village}.` });
+      form.reset(createAnimalRecordFormDefaults(suggestions));
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to save animal record:', error);
+      toast({
+        title: 'Could not save animal',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={triggerClassName}>
+          <ClipboardCheck className="w-4 h-4 mr-2" />
+          Register animal
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Register animal for BPA</DialogTitle>
+          <DialogDescription>
+            Breed, age and size are pre-filled from the analysis. Confirm or correct each one before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="earTagId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ear tag ID (INAPH/UID)</FormLabel>
+                  <FormControl>
+                    <Input {...field} inputMode="numeric" placeholder="12-digit tag number" autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ownerName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owner name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="village"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Village</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="sex"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sex</FormLabel>
+                    <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select sex" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ANIMAL_SEX_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dateOfBirth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date of birth</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty if unknown and use the age estimate.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="breedName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Breed</FormLabel>
+                  <FormControl>
+                    <Input {...field} list="animal-breed-options" onChange={event => overrideSuggestion('breedName', field.onChange)(event.target.value)} />
+                  </FormControl>
+                  <datalist id="animal-breed-options">
+                    {BREED_REGISTRY.map(record => <option key={record.id} value={record.name} />)}
+                    {Object.values(BREED_CATEGORY_NAMES).map(name => <option key={name} value={name} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <SuggestionConfirm form={form} field="breedName" label={suggestions.breedName} />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <FormField
+                  control={form.control}
+                  name="ageClass"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Age estimate</FormLabel>
+                      <Select value={field.value} onValueChange={overrideSuggestion('ageClass', field.onChange)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select age class" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(ANIMAL_AGE_CLASS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <SuggestionConfirm
+                  form={form}
+                  field="ageClass"
+                  label={suggestions.ageClass && ANIMAL_AGE_CLASS_LABELS[suggestions.ageClass]}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <FormField
+                  control={form.control}
+                  name="sizeClass"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Body size</FormLabel>
+                      <Select value={field.value} onValueChange={overrideSuggestion('sizeClass', field.onChange)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select size" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(ANIMAL_SIZE_CLASS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <SuggestionConfirm
+                  form={form}
+                  field="sizeClass"
+                  label={suggestions.sizeClass && ANIMAL_SIZE_CLASS_LABELS[suggestions.sizeClass]}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Save animal'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
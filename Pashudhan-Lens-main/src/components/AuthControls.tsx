@@ -0,0 +1,79 @@
+import React, { ReactElement, ReactNode } from 'react';
+import {
+  SignInButton as ClerkSignInButton,
+  SignUpButton as ClerkSignUpButton,
+  UserButton as ClerkUserButton
+} from '@clerk/clerk-react';
+import { LogOut } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { USER_ROLE_LABELS } from '@/lib/roles';
+import { UserRole } from '@/types/auth';
+
+// Drop-in replacements for Clerk's auth components that also work in mock auth mode
+
+export const SignedIn: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isLoaded, isSignedIn } = useAuthContext();
+  return isLoaded && isSignedIn ? <>{children}</> : null;
+};
+
+export const SignedOut: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isLoaded, isSignedIn } = useAuthContext();
+  return isLoaded && !isSignedIn ? <>{children}</> : null;
+};
+
+interface AuthButtonProps {
+  mode?: 'modal' | 'redirect';
+  children: ReactElement<{ onClick?: React.MouseEventHandler }>;
+}
+
+// In mock mode there is nothing to sign up for, so both buttons just sign in
+const MockSignInTrigger: React.FC<Pick<AuthButtonProps, 'children'>> = ({ children }) => {
+  const { signIn } = useAuthContext();
+  return React.cloneElement(children, { onClick: () => signIn() });
+};
+
+export const SignInButton: React.FC<AuthButtonProps> = ({ mode, children }) => {
+  const { mode: authMode } = useAuthContext();
+  return authMode === 'mock'
+    ? <MockSignInTrigger>{children}</MockSignInTrigger>
+    : <ClerkSignInButton mode={mode}>{children}</ClerkSignInButton>;
+};
+
+export const SignUpButton: React.FC<AuthButtonProps> = ({ mode, children }) => {
+  const { mode: authMode } = useAuthContext();
+  return authMode === 'mock'
+    ? <MockSignInTrigger>{children}</MockSignInTrigger>
+    : <ClerkSignUpButton mode={mode}>{children}</ClerkSignUpButton>;
+};
+
+// Mock mode swaps Clerk's account menu for a role switcher
+export const UserButton: React.FC<React.ComponentProps<typeof ClerkUserButton>> = props => {
+  const { mode, user, setMockRole, signOut } = useAuthContext();
+
+  if (mode !== 'mock') return <ClerkUserButton {...props} />;
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-2 bg-black/40 backdrop-blur-xl rounded-full border border-white/20 pl-3 pr-1 py-1">
+      <span className="text-xs text-white/70">Mock</span>
+      <Select value={user.role} onValueChange={value => setMockRole(value as UserRole)}>
+        <SelectTrigger className="h-7 w-36 bg-transparent border-white/20 text-white text-xs" aria-label="Mock role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(USER_ROLE_LABELS).map(([role, label]) => (
+            <SelectItem key={role} value={role}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <button
+        onClick={() => signOut()}
+        className="p-1.5 rounded-full text-white/70 hover:text-white hover:bg-white/10"
+        aria-label="Sign out"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { FolderOpen, Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useBatchJob } from '@/hooks/use-batch-job';
+import { getBatchJobPercent } from '@/lib/batchJob';
+
+const STATUS_LABELS = {
+  running: 'Analyzing',
+  paused: 'Paused',
+  completed: 'Completed'
+} as const;
+
+// Overall progress for the current batch job; mounted app-wide so it stays visible on every page
+export const BatchJobPanel: React.FC = () => {
+  const { snapshot, pause, resume, discard } = useBatchJob();
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!snapshot) return null;
+
+  const { job, progress } = snapshot;
+  const percent = getBatchJobPercent(progress);
+
+  const runAction = async (action: () => Promise<void> | void) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] max-w-sm rounded-xl border border-gray-200 bg-white/95 p-4 shadow-xl backdrop-blur">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+            <FolderOpen className="h-4 w-4 shrink-0 text-emerald-600" />
+            <span className="truncate">{job.name}</span>
+          </p>
+          <p className="text-xs text-gray-500">
+            {STATUS_LABELS[job.status]} · {progress.total - progress.pending} of {progress.total} images
+          </p>
+        </div>
+        <span className="text-sm font-semibold text-gray-900">{percent}%</span>
+      </div>
+
+      <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-gray-100">
+        <motion.div
+          className="h-full rounded-full bg-gradient-to-r from-emerald-400 to-emerald-500"
+          initial={false}
+          animate={{ width: `${percent}%` }}
+          transition={{ duration: 0.5, ease: 'easeOut' }}
+        />
+      </div>
+
+      <dl className="mt-3 grid grid-cols-4 gap-1 text-center text-xs">
+        <div>
+          <dt className="text-gray-500">Identified</dt>
+          <dd className="font-semibold text-emerald-700">{progress.complete}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Unclear</dt>
+          <dd className="font-semibold text-amber-700">{progress.unidentified}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Failed</dt>
+          <dd className="font-semibold text-red-700">{progress.error}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Remaining</dt>
+          <dd className="font-semibold text-gray-900">{progress.pending}</dd>
+        </div>
+      </dl>
+
+      {job.waitingUntil && job.status === 'running' && (
+        <p className="mt-2 text-xs text-amber-700">
+          Waiting for the request limit - continues at {new Date(job.waitingUntil).toLocaleTimeString()}
+        </p>
+      )}
+      {job.lastError && job.status === 'paused' && (
+        <p className="mt-2 text-xs text-red-700">{job.lastError}</p>
+      )}
+
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <Link to="/history" className="text-xs font-medium text-emerald-700 hover:underline">
+          View in History
+        </Link>
+        <div className="flex gap-2">
+          {job.status === 'running' && (
+            <Button variant="outline" size="sm" onClick={() => runAction(pause)} disabled={isBusy}>
+              <Pause className="mr-1 h-3 w-3" />
+              Pause
+            </Button>
+          )}
+          {job.status === 'paused' && (
+            <Button size="sm" onClick={() => runAction(resume)} disabled={isBusy}>
+              <Play className="mr-1 h-3 w-3" />
+              Resume
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => runAction(discard)} disabled={isBusy}>
+            <X className="mr-1 h-3 w-3" />
+            {job.status === 'completed' ? 'Dismiss' : 'Discard'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
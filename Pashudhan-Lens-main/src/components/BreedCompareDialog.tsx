@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { Columns3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { BreedLibraryLink } from '@/components/BreedLibraryLink';
+import { BREED_ORIGIN_LABELS, BREED_SPECIES_LABELS, findBreed, getBreedById } from '@/lib/breedRegistry';
+import { getBreedProfile } from '@/lib/breedProfiles';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { BreedRecord } from '@/types/breedRegistry';
+
+const MAX_CANDIDATES = 3;
+
+interface CompareCandidate {
+  breed: BreedRecord;
+  confidence?: number; // Only set for breeds the model identified, not for alternatives
+}
+
+// Identified breeds by confidence first, then the top pick's alternatives, deduplicated by registry ID
+const getCompareCandidates = (results: StandardizedBreedIdentification[]): CompareCandidate[] => {
+  const ranked = [...results].sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
+  const candidates: CompareCandidate[] = [];
+  const seen = new Set<string>();
+
+  const add = (breed: BreedRecord | undefined, confidence?: number) => {
+    if (!breed || seen.has(breed.id) || candidates.length >= MAX_CANDIDATES) return;
+    seen.add(breed.id);
+    candidates.push({ breed, confidence });
+  };
+
+  ranked.forEach(result => add((result.breedId && getBreedById(result.breedId)) || findBreed(result.species), result.confidence));
+  ranked.forEach(result => result.metadata?.alternativePossibleBreeds?.forEach(name => add(findBreed(name))));
+
+  return candidates;
+};
+
+const TRAIT_ROWS = [
+  { key: 'body', label: 'Body' },
+  { key: 'color', label: 'Color' },
+  { key: 'horns', label: 'Horns' },
+  { key: 'hump', label: 'Hump' },
+  { key: 'ears', label: 'Ears' }
+] as const;
+
+interface BreedCompareDialogProps {
+  imageUrl: string;
+  results: StandardizedBreedIdentification[];
+  triggerClassName?: string;
+}
+
+export const BreedCompareDialog: React.FC<BreedCompareDialogProps> = ({ imageUrl, results, triggerClassName }) => {
+  const candidates = useMemo(() => getCompareCandidates(results), [results]);
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={triggerClassName}>
+          <Columns3 className="w-4 h-4 mr-2" />
+          Compare candidates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare against breed standards</DialogTitle>
+          <DialogDescription>
+            Check the animal in your photo against the reference traits of the top candidates before registering.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-6">
+          <div className="md:sticky md:top-0 self-start">
+            <img src={imageUrl} alt="Uploaded animal" className="w-full rounded-xl object-cover border border-black/5" />
+          </div>
+
+          <div className={`grid grid-cols-1 gap-4 ${candidates.length > 1 ? 'sm:grid-cols-2' : ''} ${candidates.length > 2 ? 'lg:grid-cols-3' : ''}`}>
+            {candidates.map(({ breed, confidence }) => {
+              const profile = getBreedProfile(breed.id);
+              return (
+                <div key={breed.id} className="rounded-xl border border-black/10 p-4">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <BreedLibraryLink
+                      name={breed.name}
+                      breedId={breed.id}
+                      showIcon
+                      className="text-lg font-semibold text-black"
+                    />
+                    <Badge variant={confidence ? 'default' : 'secondary'} className="shrink-0">
+                      {confidence ? `${confidence}%` : 'Alternative'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-3">
+                    {BREED_SPECIES_LABELS[breed.species]} · {BREED_ORIGIN_LABELS[breed.origin]} · {breed.nativeStates.join(', ')}
+                  </p>
+                  {profile ? (
+                    <dl className="space-y-2">
+                      {TRAIT_ROWS.map(({ key, label }) => (
+                        <div key={key}>
+                          <dt className="text-xs uppercase tracking-wide text-gray-500">{label}</dt>
+                          <dd className="text-sm text-gray-800">{profile.traits[key]}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  ) : (
+                    <p className="text-sm text-gray-500">No reference traits recorded for this breed.</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
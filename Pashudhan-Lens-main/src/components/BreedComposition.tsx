@@ -0,0 +1,48 @@
+import React from 'react';
+import { GitMerge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { BREED_TYPE_LABELS, getBreedType } from '@/lib/breedComposition';
+import { BreedLibraryLink } from '@/components/BreedLibraryLink';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
+
+interface BreedCompositionProps {
+  breed: StandardizedBreedIdentification;
+  className?: string;
+}
+
+// Estimated ancestry for crossbred animals and a plain note for non-descript ones; purebreds render nothing
+export const BreedComposition: React.FC<BreedCompositionProps> = ({ breed, className }) => {
+  const breedType = getBreedType(breed);
+  if (breedType === 'purebred') return null;
+
+  return (
+    <div className={cn('rounded-xl bg-amber-50/80 p-4', className)}>
+      <div className="mb-2 flex items-center gap-2">
+        <GitMerge className="h-4 w-4 shrink-0 text-amber-700" />
+        <h4 className="text-sm font-semibold text-amber-900">
+          {breedType === 'crossbred' ? 'Estimated breed composition' : BREED_TYPE_LABELS.nondescript}
+        </h4>
+      </div>
+
+      {breedType === 'nondescript' ? (
+        <p className="text-sm text-amber-900">No recognizable breed ancestry. Register the animal as non-descript.</p>
+      ) : breed.composition?.length ? (
+        <ul className="space-y-2">
+          {breed.composition.map(share => (
+            <li key={share.breedName} className="text-sm text-amber-900">
+              <div className="mb-1 flex justify-between gap-4">
+                <BreedLibraryLink name={share.breedName} breedId={share.breedId} className="font-medium" />
+                <span>~{share.percentage}%</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-amber-100">
+                <div className="h-1.5 rounded-full bg-amber-500" style={{ width: `${share.percentage}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-amber-900">The contributing breeds could not be estimated from this image.</p>
+      )}
+    </div>
+  );
+};
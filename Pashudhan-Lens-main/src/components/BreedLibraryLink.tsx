@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { findBreed, getBreedById } from '@/lib/breedRegistry';
+
+interface BreedLibraryLinkProps {
+  name: string;
+  breedId?: string; // Registry ID when already resolved, e.g. from a validated result
+  className?: string;
+  showIcon?: boolean;
+  children?: React.ReactNode;
+}
+
+// Links a breed name to its Library entry; names outside the registry render as plain text
+export const BreedLibraryLink: React.FC<BreedLibraryLinkProps> = ({
+  name,
+  breedId,
+  className,
+  showIcon = false,
+  children
+}) => {
+  const breed = (breedId && getBreedById(breedId)) || findBreed(name);
+
+  if (!breed) {
+    return <span className={className}>{children ?? name}</span>;
+  }
+
+  return (
+    <Link
+      to={`/library/${breed.id}`}
+      title={`Open ${breed.name} in the breed library`}
+      className={cn('inline-flex items-center gap-1 hover:underline underline-offset-2', className)}
+    >
+      {children ?? name}
+      {showIcon && <BookOpen className="w-3.5 h-3.5 shrink-0 opacity-70" />}
+    </Link>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Bar, BarChart, Cell, LabelList, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { TriangleAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatProbability } from '@/lib/breedRanking';
+import { BreedRanking } from '@/types/breedIdentification';
+
+interface BreedRankingChartProps {
+  ranking: BreedRanking;
+  className?: string;
+}
+
+const ROW_HEIGHT = 36;
+
+// Horizontal bars for the ranked candidates; the share left for unlisted breeds is drawn in grey
+export const BreedRankingChart: React.FC<BreedRankingChartProps> = ({ ranking, className }) => {
+  if (ranking.candidates.length === 0) return null;
+
+  const data = [
+    ...ranking.candidates.map((candidate, index) => ({
+      name: candidate.species,
+      probability: candidate.probability,
+      fill: index === 0 ? '#059669' : '#6ee7b7'
+    })),
+    ...(ranking.otherProbability >= 0.01
+      ? [{ name: 'Other breeds', probability: ranking.otherProbability, fill: '#d1d5db' }]
+      : [])
+  ];
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {ranking.uncertain && (
+        <div className="flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-900">
+          <TriangleAlert className="h-4 w-4 shrink-0" />
+          <span>
+            Uncertain: {ranking.candidates[0].species} and {ranking.candidates[1].species} are{' '}
+            {formatProbability(ranking.margin)} apart
+          </span>
+        </div>
+      )}
+      <ResponsiveContainer width="100%" height={data.length * ROW_HEIGHT}>
+        <BarChart data={data} layout="vertical" margin={{ top: 0, right: 40, bottom: 0, left: 0 }}>
+          <XAxis type="number" domain={[0, 1]} hide />
+          <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} tick={{ fontSize: 12, fill: '#374151' }} />
+          <Bar dataKey="probability" radius={[0, 6, 6, 0]} barSize={18} isAnimationActive={false}>
+            {data.map(entry => <Cell key={entry.name} fill={entry.fill} />)}
+            <LabelList
+              dataKey="probability"
+              position="right"
+              formatter={(value: number) => formatProbability(value)}
+              style={{ fontSize: 12, fill: '#111827' }}
+            />
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
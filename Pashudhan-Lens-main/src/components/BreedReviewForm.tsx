@@ -0,0 +1,140 @@
+import React, { useId } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSubmitBreedReview } from '@/hooks/use-breed-review';
+import { useToast } from '@/hooks/use-toast';
+import { BREED_REGISTRY } from '@/lib/breedRegistry';
+import {
+  BREED_REVIEW_DECISION_LABELS,
+  BreedReviewFormValues,
+  breedReviewFormSchema,
+  createBreedReview,
+  getAlternativeBreeds
+} from '@/lib/breedReview';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BreedReviewer } from '@/types/breedReview';
+
+interface BreedReviewFormProps {
+  record: AnalysisHistoryRecord;
+  reviewer: BreedReviewer;
+}
+
+export const BreedReviewForm: React.FC<BreedReviewFormProps> = ({ record, reviewer }) => {
+  const { toast } = useToast();
+  const submitReview = useSubmitBreedReview();
+  const breedOptionsId = useId();
+  const alternatives = getAlternativeBreeds(record.result);
+
+  const form = useForm<BreedReviewFormValues>({
+    resolver: zodResolver(breedReviewFormSchema),
+    defaultValues: { decision: undefined, breedName: alternatives[0] ?? '', comment: '' }
+  });
+  const decision = form.watch('decision');
+
+  const handleSubmit = async (values: BreedReviewFormValues) => {
+    try {
+      const review = createBreedReview(values, record.result, reviewer);
+      await submitReview({ recordId: record.id, review });
+      toast({
+        title: 'Review saved',
+        description: `${record.fileName}: ${BREED_REVIEW_DECISION_LABELS[review.decision]}${review.breedName ? ` - ${review.breedName}` : ''}.`
+      });
+    } catch (error) {
+      console.error('Failed to save review:', error);
+      toast({
+        title: 'Could not save review',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3">
+        <FormField
+          control={form.control}
+          name="decision"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white">Decision</FormLabel>
+              <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="bg-black/20 border-white/20 text-white">
+                    <SelectValue placeholder="Choose a decision" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(BREED_REVIEW_DECISION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {decision === 'alternative' && (
+          <FormField
+            control={form.control}
+            name="breedName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-white">Correct breed</FormLabel>
+                <FormControl>
+                  <Input {...field} list={breedOptionsId} className="bg-black/20 border-white/20 text-white" />
+                </FormControl>
+                {/* The model's own alternatives come first, then the rest of the registry */}
+                <datalist id={breedOptionsId}>
+                  {alternatives.map(name => <option key={`alt-${name}`} value={name} />)}
+                  {BREED_REGISTRY
+                    .filter(breed => !alternatives.includes(breed.name))
+                    .map(breed => <option key={breed.id} value={breed.name} />)}
+                </datalist>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="comment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white">Comment</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  rows={2}
+                  placeholder={decision === 'accepted' ? 'Optional' : 'What did you see that the AI missed?'}
+                  className="bg-black/20 border-white/20 text-white placeholder:text-white/50"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={form.formState.isSubmitting} className="w-full">
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          {form.formState.isSubmitting ? 'Saving...' : 'Save review'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
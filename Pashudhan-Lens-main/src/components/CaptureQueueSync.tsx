@@ -0,0 +1,74 @@
+import { useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { CAPTURE_QUEUE_QUERY_KEY } from '@/hooks/use-capture-queue';
+import { ANALYSIS_HISTORY_QUERY_KEY } from '@/hooks/use-analysis-history';
+import { listQueuedCaptures, processCaptureQueue } from '@/services/captureQueue';
+
+// Analyzes queued offline captures when the service worker's background sync fires,
+// or on reconnect in browsers without Background Sync. Renders nothing.
+export const CaptureQueueSync = () => {
+  const isOnline = useOnlineStatus();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isLoaded, isSignedIn, can } = useAuthContext();
+
+  // Before Clerk restores the session every request would fail with 401 and use up an attempt
+  const canProcess = isLoaded && isSignedIn && can('capture');
+
+  const processQueue = useCallback(async () => {
+    if (!navigator.onLine || !canProcess) return;
+
+    try {
+      const pending = await listQueuedCaptures();
+      if (pending.length === 0) return;
+
+      const result = await processCaptureQueue();
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: CAPTURE_QUEUE_QUERY_KEY }),
+        queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY })
+      ]);
+
+      const processed = result.analyzed + result.unidentified;
+      if (processed > 0) {
+        toast({
+          title: 'Offline captures analyzed',
+          description: `${result.analyzed} of ${processed} queued image${processed === 1 ? '' : 's'} identified and saved to History.` +
+            (result.remaining > 0 ? ` ${result.remaining} still waiting.` : '')
+        });
+      } else if (result.error) {
+        toast({
+          title: 'Queued captures not analyzed yet',
+          description: `${result.error}. We'll try again when the connection is back.`,
+          variant: 'destructive'
+        });
+      }
+    } catch (error) {
+      console.error('Capture queue processing failed:', error);
+    }
+  }, [canProcess, queryClient, toast]);
+
+  // Runs on mount, every reconnect and once the user is signed in; covers browsers without Background Sync
+  useEffect(() => {
+    if (isOnline) {
+      processQueue();
+    }
+  }, [isOnline, processQueue]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'PROCESS_CAPTURE_QUEUE') {
+        processQueue();
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [processQueue]);
+
+  return null;
+};
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, Check, ImagePlus, RotateCcw, SkipForward, TriangleAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { CAPTURE_VIEWS, getMissingRequiredViews, sortCapturedViews } from '@/lib/captureViews';
+import { describeImageQualityIssues } from '@/lib/imageQuality';
+import { assessImageFileQuality } from '@/services/breedAnalysis';
+import { CaptureViewId, CapturedView } from '@/types/guidedCapture';
+import { ImageQualityReport } from '@/types/imageQuality';
+
+interface GuidedCaptureProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete: (views: CapturedView[]) => void;
+}
+
+interface CaptureSlot {
+  file: File;
+  url: string;
+  quality?: ImageQualityReport;
+}
+
+// Outlines drawn over the camera preview, in a 160x100 box, so every view is framed the same way
+const SILHOUETTES: Record<CaptureViewId, string> = {
+  side: 'M28 40 Q30 28 44 27 L56 24 Q62 20 68 26 L118 27 Q132 28 134 40 L136 58 Q138 62 140 74 L136 74 L132 60 L128 88 L122 88 L121 64 L76 64 L72 88 L66 88 L64 62 Q56 60 50 52 L40 48 Q34 50 26 48 Q20 44 22 38 Z',
+  front: 'M56 18 L68 26 Q80 20 92 26 L104 18 L100 32 Q96 44 92 50 L104 56 Q112 62 112 80 L106 92 L98 92 L96 76 L64 76 L62 92 L54 92 L48 80 Q48 62 56 56 L68 50 Q64 44 60 32 Z',
+  rear: 'M52 22 Q80 12 108 22 Q114 40 110 58 L106 92 L96 92 L92 64 Q80 70 68 64 L64 92 L54 92 L50 58 Q46 40 52 22 Z M80 22 L80 70',
+  head: 'M44 20 L60 30 Q80 22 100 30 L116 20 L110 38 Q104 44 100 46 L96 72 Q92 88 80 90 Q68 88 64 72 L60 46 Q56 44 50 38 Z'
+};
+
+// Guided capture needs a video stream; without one it falls back to the device's photo picker
+export const GuidedCapture: React.FC<GuidedCaptureProps> = ({ open, onOpenChange, onComplete }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [captures, setCaptures] = useState<Partial<Record<CaptureViewId, CaptureSlot>>>({});
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const step = CAPTURE_VIEWS[stepIndex];
+  const currentCapture = captures[step.id];
+  const missingRequired = getMissingRequiredViews(Object.keys(captures) as CaptureViewId[]);
+  const hasBlockedView = Object.values(captures).some(slot => slot.quality?.blocked);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // The camera only runs while the dialog is open and the current view still needs a photo
+  useEffect(() => {
+    if (!open || currentCapture) {
+      stopCamera();
+      return;
+    }
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError('This browser cannot open the camera. Choose a photo for each view instead.');
+      return;
+    }
+
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        setCameraError(null);
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(error => {
+        console.warn('Camera unavailable:', error);
+        setCameraError('Camera access was blocked or no camera was found. Choose a photo for each view instead.');
+      });
+
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [open, currentCapture, stopCamera]);
+
+  // Start over each time the dialog opens; photos from a previous animal must not leak in
+  useEffect(() => {
+    if (open) return;
+    setCaptures(prev => {
+      Object.values(prev).forEach(slot => URL.revokeObjectURL(slot.url));
+      return {};
+    });
+    setStepIndex(0);
+  }, [open]);
+
+  const storeCapture = useCallback(async (view: CaptureViewId, file: File) => {
+    const url = URL.createObjectURL(file);
+    setCaptures(prev => ({ ...prev, [view]: { file, url } }));
+
+    try {
+      const quality = await assessImageFileQuality(file);
+      setCaptures(prev => (prev[view]?.file === file ? { ...prev, [view]: { file, url, quality } } : prev));
+      if (!quality.blocked) {
+        const nextEmpty = CAPTURE_VIEWS.findIndex(({ id }) => id !== view && !captures[id]);
+        if (nextEmpty !== -1) setStepIndex(nextEmpty);
+      }
+    } catch (qualityError) {
+      console.warn('Image quality check failed:', qualityError);
+    }
+  }, [captures]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) storeCapture(step.id, new File([blob], `${step.id}-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) storeCapture(step.id, file);
+  };
+
+  const handleRetake = () => {
+    setCaptures(prev => {
+      const { [step.id]: removed, ...rest } = prev;
+      if (removed) URL.revokeObjectURL(removed.url);
+      return rest;
+    });
+  };
+
+  const handleAnalyze = () => {
+    const views = sortCapturedViews(
+      (Object.entries(captures) as [CaptureViewId, CaptureSlot][]).map(([view, slot]) => ({ view, file: slot.file }))
+    );
+    onComplete(views);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Guided capture: {step.label}</DialogTitle>
+          <DialogDescription>{step.instructions}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-[16/10] w-full overflow-hidden rounded-xl bg-black">
+          {currentCapture ? (
+            <img src={currentCapture.url} alt={step.label} className="h-full w-full object-cover" />
+          ) : cameraError ? (
+            <div className="flex h-full flex-col items-center justify-center gap-3 p-6 text-center text-white/80">
+              <Camera className="h-10 w-10 opacity-70" />
+              <p className="text-sm">{cameraError}</p>
+            </div>
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted className="h-full w-full object-cover" />
+          )}
+
+          {!currentCapture && (
+            <svg viewBox="0 0 160 100" className="pointer-events-none absolute inset-0 h-full w-full" aria-hidden="true">
+              <path
+                d={SILHOUETTES[step.id]}
+                fill="none"
+                stroke="white"
+                strokeOpacity={0.8}
+                strokeWidth={0.8}
+                strokeDasharray="3 2"
+              />
+            </svg>
+          )}
+        </div>
+
+        {currentCapture?.quality && currentCapture.quality.issues.length > 0 && (
+          <div
+            className={cn(
+              'flex gap-2 rounded-md px-3 py-2 text-sm',
+              currentCapture.quality.blocked ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-900'
+            )}
+          >
+            <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+            <p>
+              {currentCapture.quality.blocked
+                ? describeImageQualityIssues(currentCapture.quality, 'blocking')
+                : describeImageQualityIssues(currentCapture.quality, 'warning')}
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-4 gap-2">
+          {CAPTURE_VIEWS.map((view, index) => {
+            const slot = captures[view.id];
+            return (
+              <button
+                key={view.id}
+                type="button"
+                onClick={() => setStepIndex(index)}
+                className={cn(
+                  'relative overflow-hidden rounded-lg border-2 text-left text-xs',
+                  index === stepIndex ? 'border-blue-600' : 'border-transparent'
+                )}
+              >
+                <div className="aspect-square bg-gray-100">
+                  {slot && <img src={slot.url} alt={view.label} className="h-full w-full object-cover" />}
+                </div>
+                <div className="flex items-center gap-1 px-1 py-1">
+                  {slot && !slot.quality?.blocked && <Check className="h-3 w-3 text-emerald-600" />}
+                  {slot?.quality?.blocked && <TriangleAlert className="h-3 w-3 text-red-600" />}
+                  <span className="truncate">{view.label}</span>
+                  {view.required && <span className="text-red-600">*</span>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={handleFileChosen}
+        />
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row sm:justify-between">
+          <div className="flex gap-2">
+            {currentCapture ? (
+              <Button variant="outline" onClick={handleRetake}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retake
+              </Button>
+            ) : cameraError ? (
+              <Button onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="mr-2 h-4 w-4" />
+                Choose photo
+              </Button>
+            ) : (
+              <Button onClick={handleCapture}>
+                <Camera className="mr-2 h-4 w-4" />
+                Capture
+              </Button>
+            )}
+            {!step.required && !currentCapture && stepIndex < CAPTURE_VIEWS.length - 1 && (
+              <Button variant="ghost" onClick={() => setStepIndex(stepIndex + 1)}>
+                <SkipForward className="mr-2 h-4 w-4" />
+                Skip
+              </Button>
+            )}
+          </div>
+          <Button onClick={handleAnalyze} disabled={missingRequired.length > 0 || hasBlockedView}>
+            {missingRequired.length > 0
+              ? `Still needed: ${missingRequired.map(view => view.label).join(', ')}`
+              : 'Analyze animal'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
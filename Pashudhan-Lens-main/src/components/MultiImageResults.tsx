@@ -18,63 +18,35 @@ import {
   ChevronLeft,
   ChevronRight,
   Images,
-  BarChart3
+  BarChart3,
+  Camera
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuthContext } from '@/hooks/use-auth-context';
 import { cn } from '@/lib/utils';
-import { extractBreedCharacteristicsFromDescription } from '@/utils/breedCharacteristicsExtractor';
+import { resolveBreedCharacteristics } from '@/utils/breedCharacteristicsExtractor';
+import { BreedLibraryLink } from '@/components/BreedLibraryLink';
+import { BreedComposition } from '@/components/BreedComposition';
+import { BreedRankingChart } from '@/components/BreedRankingChart';
+import { BreedCompareDialog } from '@/components/BreedCompareDialog';
+import { AnimalRegistrationDialog } from '@/components/AnimalRegistrationDialog';
+import { PdfReportButton } from '@/components/PdfReportButton';
+import { SameAnimalDialog } from '@/components/SameAnimalDialog';
+import { getReviewConfidenceThreshold } from '@/lib/breedReview';
+import { BREED_TYPE_LABELS, getBreedType } from '@/lib/breedComposition';
+import { formatProbability, getBreedRanking } from '@/lib/breedRanking';
+import { getCaptureView } from '@/lib/captureViews';
+import { createBatchExportSources, downloadBpaExport } from '@/services/bpaExport';
+import { downloadAnimalReport, downloadBatchReport } from '@/services/pdfReport';
+import { BpaExportFileType } from '@/types/bpaExport';
+import { BatchBreedAnalysisResult, StandardizedBreedIdentification, UploadedImage } from '@/types/breedIdentification';
 import uploadBg from '@/assets/upload_bg.png';
 
-interface UploadedImage {
-  id: string;
-  file: File;
-  url: string;
-  status: 'pending' | 'uploading' | 'analyzing' | 'complete' | 'error';
-  progress?: number;
-  results?: any;
-  error?: string;
-}
-
-interface SpeciesIdentification {
-  species: string;
-  commonName?: string;
-  confidence?: number;
-  description?: string;
-  habitat?: string;
-  conservation?: string;
-  isIndianBreed?: boolean;
-  error?: string;
-  message?: string;
-  bpaRegistrationNotes?: string;
-  breedCharacteristics?: {
-    bodyStructure?: string;
-    colorPattern?: string;
-    hornCharacteristics?: string;
-    earShape?: string;
-    facialFeatures?: string;
-    humpPresence?: string;
-    overallConformation?: string;
-  };
-  metadata?: {
-    estimatedAge?: string;
-    estimatedSize?: string;
-    imageQualityNotes?: string;
-    environmentalContext?: string;
-  };
-}
-
 interface MultiImageResultsUnifiedProps {
   images: UploadedImage[];
   onNewUpload: () => void;
-  summary?: {
-    totalImages: number;
-    successfulAnalyses: number;
-    failedAnalyses: number;
-    totalBreedsIdentified: number;
-    processingTime: number;
-    averageConfidence?: number;
-    mostCommonBreeds?: string[];
-  };
+  summary?: BatchBreedAnalysisResult['summary'];
+  analysisMetadata?: BatchBreedAnalysisResult['analysisMetadata'];
   showEnhancedView?: boolean;
 }
 
@@ -82,20 +54,23 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
   images, 
   onNewUpload, 
   summary,
+  analysisMetadata,
   showEnhancedView = false
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [viewMode, setViewMode] = useState<'standard' | 'enhanced'>('standard');
   const { toast } = useToast();
+  const { can } = useAuthContext();
 
   // Get current image and its results
   const currentImage = images[currentImageIndex];
   const hasResults = currentImage?.results && Array.isArray(currentImage.results.breeds) && currentImage.results.breeds.length > 0;
-  const validResults = hasResults ? currentImage.results.breeds.filter((result: SpeciesIdentification) => 
+  const validResults = hasResults ? currentImage.results.breeds.filter((result: StandardizedBreedIdentification) => 
     result.species && 
     !result.error && 
     result.species.trim() !== ''
   ) : [];
+  const ranking = hasResults ? getBreedRanking(currentImage.results) : null;
 
   // Calculate statistics for header
   const stats = useMemo(() => {
@@ -104,31 +79,26 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
       img.results && 
       img.results.breeds && 
       img.results.breeds.length > 0 &&
-      img.results.breeds.some((breed: SpeciesIdentification) => 
+      img.results.breeds.some((breed: StandardizedBreedIdentification) => 
         breed.species && !breed.error && breed.species.trim() !== '')
     ).length;
     
     return { total: images.length, successful };
   }, [images]);
 
-  // Download current image results
-  const downloadResults = () => {
-    if (!hasResults) return;
-    
-    const data = {
-      timestamp: new Date().toISOString(),
-      imageIndex: currentImageIndex + 1,
-      results: validResults
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cattle-buffalo-breed-identification-image-${currentImageIndex + 1}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // Export every analyzed image in the batch as a BPA registration payload
+  const exportBatch = async (fileType: BpaExportFileType) => {
+    try {
+      const sources = await createBatchExportSources(images, analysisMetadata);
+      const rowCount = downloadBpaExport(sources, fileType);
+      toast({
+        title: 'BPA export ready',
+        description: `${rowCount} ${rowCount === 1 ? 'animal' : 'animals'} exported as ${fileType.toUpperCase()}.`
+      });
+    } catch (error) {
+      console.error('BPA export failed:', error);
+      toast({ title: 'Export failed', description: 'Could not prepare the export file.', variant: 'destructive' });
+    }
   };
 
   // Handle validation - show error state if no results
@@ -157,6 +127,15 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
             <p className="text-white/80 mb-6 sm:mb-8 text-base sm:text-lg">
               {currentImage?.error || 'Unable to identify any valid Indian cattle or buffalo breeds in this image.'}
             </p>
+            {currentImage?.results?.validation?.issues.length > 0 && (
+              <ul className="text-left text-white/70 text-xs sm:text-sm bg-black/30 rounded-xl p-4 mb-6 sm:mb-8 space-y-1">
+                {currentImage.results.validation.issues.slice(0, 5).map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-white/90">{issue.path}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
             <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center">
               <Button 
                 onClick={onNewUpload}
@@ -325,24 +304,82 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                       </div>
                       <div className="flex items-center gap-2 sm:gap-3 text-gray-900 font-semibold">
                         <Binoculars className="w-3 h-3 sm:w-4 sm:h-4 text-emerald-700 flex-shrink-0" />
-                        <span className="text-xs sm:text-sm">Breed Confidence: High</span>
+                        <span className="text-xs sm:text-sm">
+                          {ranking?.candidates.length
+                            ? `Top match: ${formatProbability(ranking.candidates[0].probability)}${ranking.uncertain ? ' (uncertain)' : ''}`
+                            : 'No breed identified'}
+                        </span>
                       </div>
                       <div className="flex items-center gap-2 sm:gap-3 text-gray-900 font-semibold">
                         <Shield className="w-3 h-3 sm:w-4 sm:h-4 text-emerald-700 flex-shrink-0" />
                         <span className="text-xs sm:text-sm">BPA Integration Ready</span>
                       </div>
+                      {currentImage.results?.views && (
+                        <div className="flex items-center gap-2 sm:gap-3 text-gray-900 font-semibold">
+                          <Camera className="w-3 h-3 sm:w-4 sm:h-4 text-emerald-700 flex-shrink-0" />
+                          <span className="text-xs sm:text-sm">
+                            One animal from {currentImage.results.views.map(view => getCaptureView(view).label.toLowerCase()).join(', ')}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    {ranking && <BreedRankingChart ranking={ranking} className="mt-4" />}
+
+                    <BreedCompareDialog
+                      imageUrl={currentImage.url}
+                      results={validResults}
+                      triggerClassName="w-full mt-6 rounded-xl"
+                    />
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+                      <PdfReportButton
+                        label="Animal report"
+                        onGenerate={options => downloadAnimalReport({
+                          image: currentImage.file,
+                          fileName: currentImage.file.name,
+                          breeds: currentImage.results.breeds,
+                          analyzedAt: analysisMetadata?.timestamp,
+                          model: analysisMetadata?.model,
+                          promptVersion: analysisMetadata?.promptVersion
+                        }, options)}
+                      />
+                      {images.length > 1 && (
+                        <PdfReportButton
+                          label="Batch report"
+                          onGenerate={options => downloadBatchReport(images, summary, analysisMetadata, options)}
+                        />
+                      )}
                     </div>
 
+                    <SameAnimalDialog
+                      images={images}
+                      analysisMetadata={analysisMetadata}
+                      triggerClassName="w-full mt-3 rounded-xl"
+                    />
+
                     {/* Action buttons */}
-                    <div className="flex flex-col sm:flex-row gap-3 mt-6">
-                      <Button 
-                        onClick={downloadResults}
-                        variant="default"
-                        className="flex-1 shadow-lg"
-                      >
-                        <Download className="w-4 h-4 mr-2" />
-                        Export Results
-                      </Button>
+                    <div className="flex flex-col sm:flex-row gap-3 mt-3">
+                      {can('export') && (
+                        <>
+                          <Button 
+                            onClick={() => exportBatch('csv')}
+                            variant="default"
+                            className="flex-1 shadow-lg"
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Export CSV
+                          </Button>
+                          <Button 
+                            onClick={() => exportBatch('json')}
+                            variant="outline"
+                            className="flex-1"
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Export JSON
+                          </Button>
+                        </>
+                      )}
                       {images.length === 1 && (
                         <Button 
                           onClick={onNewUpload}
@@ -418,7 +455,7 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                 )}
 
                 <div className="space-y-4 sm:space-y-6">
-                  {validResults.map((breed: SpeciesIdentification, index: number) => (
+                  {validResults.map((breed: StandardizedBreedIdentification, index: number) => (
                     <motion.div
                       key={index}
                       initial={{ opacity: 0, x: 30 }}
@@ -431,7 +468,9 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                         <div className="flex flex-col sm:flex-row items-start justify-between gap-4 mb-4">
                           <div className="flex-1 min-w-0">
                             <h2 className="text-xl sm:text-2xl font-bold text-gray-800 mb-2 break-words">
-                              {breed.commonName || breed.species}
+                              <BreedLibraryLink name={breed.species} breedId={breed.breedId} showIcon>
+                                {breed.commonName || breed.species}
+                              </BreedLibraryLink>
                             </h2>
                             <p className="text-base sm:text-lg text-gray-600 italic font-medium break-words">
                               {breed.species}
@@ -452,7 +491,11 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                         {/* BPA Registration Status */}
                         <div className="flex items-center gap-2 text-sm text-emerald-700 bg-emerald-50/80 rounded-lg px-3 py-2">
                           <Shield className="w-4 h-4" />
-                          <span className="font-medium">BPA Registration Ready - Indian Breed Verified</span>
+                          <span className="font-medium">
+                            BPA Registration Ready - {getBreedType(breed) !== 'purebred'
+                              ? BREED_TYPE_LABELS[getBreedType(breed)]
+                              : breed.isIndianBreed ? 'Indian Breed Verified' : 'Exotic Breed'}
+                          </span>
                         </div>
                       </div>
 
@@ -466,6 +509,8 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                           </p>
                         </div>
 
+                        <BreedComposition breed={breed} />
+
                         {/* Habitat & Conservation in Grid */}
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
                           {/* Habitat */}
@@ -492,105 +537,117 @@ const MultiImageResultsUnified = memo<MultiImageResultsUnifiedProps>(({
                         </div>
 
                         {/* Enhanced Metadata Section - Using extracted characteristics from API response */}
-                        {showEnhancedView && (
-                          <div className="border-t border-gray-200/60 pt-6">
-                            <h3 className="text-lg font-bold text-gray-800 mb-4">Detailed Analysis</h3>
-                            
-                            {(() => {
-                              // Check if breed has standardized characteristics (new API format)
-                              const hasStandardizedFormat = breed.breedCharacteristics && 
-                                typeof breed.breedCharacteristics === 'object';
+                        {showEnhancedView && (() => {
+                          // Structured fields come straight from the model; regex extraction only covers legacy records
+                          const characteristics = resolveBreedCharacteristics(breed);
+                          const alternatives = breed.metadata?.alternativePossibleBreeds || [];
+
+                          return (
+                            <div className="border-t border-gray-200/60 pt-6">
+                              <h3 className="text-lg font-bold text-gray-800 mb-4">Detailed Analysis</h3>
                               
-                              const extractedChars = hasStandardizedFormat 
-                                ? breed.breedCharacteristics
-                                : extractBreedCharacteristicsFromDescription(breed);
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="bg-blue-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-blue-800 mb-2">Body Structure</h4>
+                                  <p className="text-sm text-blue-700">{characteristics.bodyStructure}</p>
+                                </div>
+                                
+                                <div className="bg-green-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-green-800 mb-2">Color Pattern</h4>
+                                  <p className="text-sm text-green-700">{characteristics.colorPattern}</p>
+                                </div>
+                                
+                                <div className="bg-purple-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-purple-800 mb-2">Horn Characteristics</h4>
+                                  <p className="text-sm text-purple-700">{characteristics.hornCharacteristics}</p>
+                                </div>
+                                
+                                <div className="bg-sky-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-sky-800 mb-2">Ear Shape</h4>
+                                  <p className="text-sm text-sky-700">{characteristics.earShape}</p>
+                                </div>
+                                
+                                <div className="bg-rose-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-rose-800 mb-2">Facial Features</h4>
+                                  <p className="text-sm text-rose-700">{characteristics.facialFeatures}</p>
+                                </div>
+                                
+                                <div className="bg-indigo-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-indigo-800 mb-2">Hump Presence</h4>
+                                  <p className="text-sm text-indigo-700">{characteristics.humpPresence}</p>
+                                </div>
+                                
+                                <div className="bg-orange-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-orange-800 mb-2">Overall Conformation</h4>
+                                  <p className="text-sm text-orange-700">{characteristics.overallConformation}</p>
+                                </div>
+                                
+                                <div className="bg-emerald-50/80 rounded-lg p-4">
+                                  <h4 className="font-semibold text-sm text-emerald-800 mb-2">BPA Registration Notes</h4>
+                                  <p className="text-sm text-emerald-700">{characteristics.bpaRegistrationNotes}</p>
+                                </div>
+                              </div>
                               
-                              return (
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                  <div className="bg-blue-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-blue-800 mb-2">Body Structure</h4>
-                                    <p className="text-sm text-blue-700">{extractedChars.bodyStructure}</p>
-                                  </div>
-                                  
-                                  <div className="bg-green-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-green-800 mb-2">Color Pattern</h4>
-                                    <p className="text-sm text-green-700">{extractedChars.colorPattern}</p>
+                              {/* Additional Analysis Insights */}
+                              <div className="mt-6 pt-6 border-t border-gray-200/60">
+                                <h4 className="text-base font-bold text-gray-800 mb-3">Analysis Insights</h4>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                  <div className="bg-blue-50/80 rounded-lg p-3 text-center">
+                                    <Calendar className="w-4 h-4 text-blue-600 mx-auto mb-1" />
+                                    <p className="text-xs font-semibold text-blue-800">Age Est.</p>
+                                    <p className="text-xs text-blue-600">{characteristics.estimatedAge}</p>
                                   </div>
                                   
-                                  <div className="bg-purple-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-purple-800 mb-2">Horn Characteristics</h4>
-                                    <p className="text-sm text-purple-700">{extractedChars.hornCharacteristics}</p>
+                                  <div className="bg-green-50/80 rounded-lg p-3 text-center">
+                                    <Eye className="w-4 h-4 text-green-600 mx-auto mb-1" />
+                                    <p className="text-xs font-semibold text-green-800">Size</p>
+                                    <p className="text-xs text-green-600">{characteristics.estimatedSize}</p>
                                   </div>
                                   
-                                  <div className="bg-orange-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-orange-800 mb-2">Overall Conformation</h4>
-                                    <p className="text-sm text-orange-700">{extractedChars.overallConformation}</p>
+                                  <div className="bg-purple-50/80 rounded-lg p-3 text-center">
+                                    <Eye className="w-4 h-4 text-purple-600 mx-auto mb-1" />
+                                    <p className="text-xs font-semibold text-purple-800">Image Quality</p>
+                                    <p className="text-xs text-purple-600">{characteristics.imageQualityNotes}</p>
                                   </div>
                                   
-                                  <div className="bg-indigo-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-indigo-800 mb-2">Hump Presence</h4>
-                                    <p className="text-sm text-indigo-700">{extractedChars.humpPresence}</p>
-                                  </div>
-                                  
-                                  <div className="bg-emerald-50/80 rounded-lg p-4">
-                                    <h4 className="font-semibold text-sm text-emerald-800 mb-2">BPA Registration Notes</h4>
-                                    <p className="text-sm text-emerald-700">
-                                      {breed.bpaRegistrationNotes || 'High-confidence identification recommended for BPA registration'}
+                                  <div className="bg-orange-50/80 rounded-lg p-3 text-center">
+                                    <Shield className="w-4 h-4 text-orange-600 mx-auto mb-1" />
+                                    <p className="text-xs font-semibold text-orange-800">BPA Status</p>
+                                    <p className="text-xs text-orange-600">
+                                      {breed.confidence >= getReviewConfidenceThreshold() ? 'Ready' : 'Needs review'}
                                     </p>
                                   </div>
                                 </div>
-                              );
-                            })()}
-                            
-                            {/* Additional Analysis Insights */}
-                            <div className="mt-6 pt-6 border-t border-gray-200/60">
-                              <h4 className="text-base font-bold text-gray-800 mb-3">Analysis Insights</h4>
-                              {(() => {
-                                // Check if breed has standardized characteristics (new API format)
-                                const hasStandardizedFormat = breed.breedCharacteristics && 
-                                  typeof breed.breedCharacteristics === 'object';
-                                
-                                const extractedChars = hasStandardizedFormat 
-                                  ? breed.breedCharacteristics
-                                  : extractBreedCharacteristicsFromDescription(breed);
-                                
-                                const metadata = hasStandardizedFormat 
-                                  ? breed.metadata || {}
-                                  : extractBreedCharacteristicsFromDescription(breed);
-                                
-                                return (
-                                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                                    <div className="bg-blue-50/80 rounded-lg p-3 text-center">
-                                      <Calendar className="w-4 h-4 text-blue-600 mx-auto mb-1" />
-                                      <p className="text-xs font-semibold text-blue-800">Age Est.</p>
-                                      <p className="text-xs text-blue-600">{metadata.estimatedAge || 'Not determined'}</p>
-                                    </div>
-                                    
-                                    <div className="bg-green-50/80 rounded-lg p-3 text-center">
-                                      <Eye className="w-4 h-4 text-green-600 mx-auto mb-1" />
-                                      <p className="text-xs font-semibold text-green-800">Size</p>
-                                      <p className="text-xs text-green-600">{metadata.estimatedSize || 'Not determined'}</p>
-                                    </div>
-                                    
-                                    <div className="bg-purple-50/80 rounded-lg p-3 text-center">
-                                      <Eye className="w-4 h-4 text-purple-600 mx-auto mb-1" />
-                                      <p className="text-xs font-semibold text-purple-800">Quality</p>
-                                      <p className="text-xs text-purple-600">High</p>
-                                    </div>
-                                    
-                                    <div className="bg-orange-50/80 rounded-lg p-3 text-center">
-                                      <Shield className="w-4 h-4 text-orange-600 mx-auto mb-1" />
-                                      <p className="text-xs font-semibold text-orange-800">BPA Status</p>
-                                      <p className="text-xs text-orange-600">
-                                        {breed.confidence && breed.confidence >= 85 ? 'Ready' : 'Review'}
-                                      </p>
-                                    </div>
+
+                                {characteristics.environmentalContext && (
+                                  <p className="mt-3 text-sm text-gray-600">
+                                    <span className="font-semibold text-gray-800">Environment: </span>
+                                    {characteristics.environmentalContext}
+                                  </p>
+                                )}
+
+                                {alternatives.length > 0 && (
+                                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                                    <span className="text-sm font-semibold text-gray-800">Also possible:</span>
+                                    {alternatives.map((alternative) => (
+                                      <BreedLibraryLink
+                                        key={alternative}
+                                        name={alternative}
+                                        className="bg-gray-100 text-gray-700 px-2 py-1 rounded-md text-xs font-medium"
+                                      />
+                                    ))}
                                   </div>
-                                );
-                              })()}
+                                )}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          );
+                        })()}
+
+                        <AnimalRegistrationDialog
+                          breed={breed}
+                          photo={{ source: currentImage.file, fileName: currentImage.file.name }}
+                          triggerClassName="w-full rounded-xl"
+                        />
                       </div>
                     </motion.div>
                   ))}
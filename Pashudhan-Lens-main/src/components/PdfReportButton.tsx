@@ -0,0 +1,52 @@
+import React, { useId, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { PdfReportOptions } from '@/services/pdfReport';
+
+interface PdfReportButtonProps {
+  label?: string;
+  onGenerate: (options: PdfReportOptions) => Promise<void>;
+  className?: string;
+}
+
+export const PdfReportButton: React.FC<PdfReportButtonProps> = ({ label = 'PDF report', onGenerate, className }) => {
+  const { toast } = useToast();
+  const qrCheckboxId = useId();
+  const [includeQrCode, setIncludeQrCode] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate({ includeQrCode });
+    } catch (error) {
+      console.error('PDF report failed:', error);
+      toast({ title: 'Report failed', description: 'Could not generate the PDF report.', variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <Button variant="outline" onClick={handleGenerate} disabled={isGenerating} className="w-full">
+        {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+        {isGenerating ? 'Generating...' : label}
+      </Button>
+      <div className="flex items-center justify-center gap-2">
+        <Checkbox
+          id={qrCheckboxId}
+          checked={includeQrCode}
+          onCheckedChange={value => setIncludeQrCode(value === true)}
+        />
+        <Label htmlFor={qrCheckboxId} className="text-xs font-normal text-gray-600">
+          Include QR code of the record
+        </Label>
+      </div>
+    </div>
+  );
+};
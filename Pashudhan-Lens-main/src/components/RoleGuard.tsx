@@ -0,0 +1,64 @@
+import React, { ReactNode, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { LogIn, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SignInButton } from '@/components/AuthControls';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { USER_ROLE_LABELS } from '@/lib/roles';
+import { Permission } from '@/types/auth';
+
+interface RoleGuardProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+const GuardNotice: React.FC<{ icon: ReactNode; title: string; message: string; children: ReactNode }> = ({ icon, title, message, children }) => (
+  <div className="min-h-screen flex items-center justify-center px-4">
+    <div className="max-w-md text-center p-8 bg-black/40 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl">
+      {icon}
+      <h1 className="text-2xl font-bold text-white mb-2">{title}</h1>
+      <p className="text-white/80 mb-6">{message}</p>
+      {children}
+    </div>
+  </div>
+);
+
+// Signed-out visitors are sent to sign-in and return here afterwards. Mock auth has no sign-in page, so they get a prompt instead
+export const RoleGuard: React.FC<RoleGuardProps> = ({ permission, children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isLoaded, isSignedIn, user, can, redirectToSignIn } = useAuthContext();
+
+  const mustSignIn = isLoaded && !isSignedIn;
+  useEffect(() => {
+    if (mustSignIn) redirectToSignIn(window.location.origin + location.pathname + location.search);
+  }, [mustSignIn, redirectToSignIn, location.pathname, location.search]);
+
+  if (!isLoaded) return null;
+
+  if (!isSignedIn) {
+    return (
+      <GuardNotice
+        icon={<LogIn className="w-12 h-12 text-emerald-300 mx-auto mb-4" />}
+        title="Sign in required"
+        message="Sign in to see analyses and animal records."
+      >
+        <SignInButton mode="modal">
+          <Button>Sign in</Button>
+        </SignInButton>
+      </GuardNotice>
+    );
+  }
+
+  if (can(permission)) return <>{children}</>;
+
+  return (
+    <GuardNotice
+      icon={<ShieldAlert className="w-12 h-12 text-amber-300 mx-auto mb-4" />}
+      title="Access restricted"
+      message={`Your role (${USER_ROLE_LABELS[user.role]}) can't open this page. Ask your district admin if you need access.`}
+    >
+      <Button onClick={() => navigate('/')}>Return to Home</Button>
+    </GuardNotice>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ChevronRight, Home, Upload, Search, Plus } from 'lucide-react';
-import { UserButton, SignedIn } from '@clerk/clerk-react';
+import { ChevronRight, Home, Upload, Search, Plus, BookOpen, History, ClipboardCheck, LayoutDashboard } from 'lucide-react';
+import { UserButton, SignedIn } from '@/components/AuthControls';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { getBreedById } from '@/lib/breedRegistry';
 
 interface BreadcrumbProps {
   onNewUpload?: () => void;
@@ -13,7 +14,20 @@ const pageInfo = {
   '/home': { label: 'Home', icon: Home, color: 'text-emerald-400' },
   '/about': { label: 'About', icon: Home, color: 'text-indigo-400' },
   '/upload': { label: 'Upload', icon: Upload, color: 'text-blue-400' },
-  '/results': { label: 'Breed Results', icon: Search, color: 'text-purple-400' }
+  '/results': { label: 'Breed Results', icon: Search, color: 'text-purple-400' },
+  '/library': { label: 'Library', icon: BookOpen, color: 'text-amber-400' },
+  '/history': { label: 'History', icon: History, color: 'text-sky-400' },
+  '/review': { label: 'Review Queue', icon: ClipboardCheck, color: 'text-orange-400' },
+  '/dashboard': { label: 'Dashboard', icon: LayoutDashboard, color: 'text-rose-400' }
+};
+
+// Library entries are dynamic, so their crumb is labelled with the breed name
+const getPageInfo = (page: string) => {
+  if (page.startsWith('/library/')) {
+    const breed = getBreedById(page.slice('/library/'.length));
+    return { label: breed?.name ?? 'Breed', icon: BookOpen, color: 'text-amber-400' };
+  }
+  return pageInfo[page as keyof typeof pageInfo] ?? pageInfo['/'];
 };
 
 export const RouterNavigationBreadcrumb: React.FC<BreadcrumbProps> = ({ 
@@ -78,8 +92,12 @@ export const RouterNavigationBreadcrumb: React.FC<BreadcrumbProps> = ({
         return ['/', '/upload'];
       case '/results':
         return ['/', '/upload', '/results'];
+      case '/library':
+        return ['/', '/library'];
+      case '/history':
+        return ['/', '/history'];
       default:
-        return ['/'];
+        return currentPath.startsWith('/library/') ? ['/', '/library', currentPath] : ['/'];
     }
   };
 
@@ -112,9 +130,10 @@ export const RouterNavigationBreadcrumb: React.FC<BreadcrumbProps> = ({
       <div className="bg-gradient-to-r from-black/80 via-black/70 to-black/80 backdrop-blur-xl rounded-full px-4 py-2 border border-white/20 shadow-2xl">
         <div className="flex items-center gap-2">
           {pages.map((page, index) => {
-            const PageIcon = pageInfo[page as keyof typeof pageInfo].icon;
+            const info = getPageInfo(page);
+            const PageIcon = info.icon;
             const isLast = index === pages.length - 1;
-            const isClickable = page !== currentPath && (page === '/' || page === '/upload');
+            const isClickable = page !== currentPath && (page === '/' || page === '/upload' || page === '/library');
             
             return (
               <React.Fragment key={page}>
@@ -133,7 +152,7 @@ export const RouterNavigationBreadcrumb: React.FC<BreadcrumbProps> = ({
                 >
                   <PageIcon className="w-4 h-4" />
                   <span className="text-sm font-medium">
-                    {pageInfo[page as keyof typeof pageInfo].label}
+                    {info.label}
                   </span>
                 </motion.button>
                 
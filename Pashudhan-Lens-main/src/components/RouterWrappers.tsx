@@ -1,12 +1,13 @@
 import React, { memo, useCallback, Suspense, useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { AppProvider, useAppContext } from '@/contexts/AppContext';
-import { SpeciesIdentification } from '@/services/geminiApi';
 import { RouterNavigationBreadcrumb } from './RouterNavigationBreadcrumb';
 import { StablePageWrapper } from '@/components/ui/simple-loading';
 import { useContentLoading, LoadingPhase } from '@/hooks/use-content-loading';
-import { SignedIn, SignedOut, SignInButton, SignUpButton } from '@clerk/clerk-react';
+import { SignedIn, SignedOut, SignInButton, SignUpButton } from '@/components/AuthControls';
 import { EnhancedSkeleton, ContentWithSkeleton } from '@/components/EnhancedSkeleton';
+import { RoleGuard } from '@/components/RoleGuard';
+import { ROUTE_PERMISSIONS } from '@/lib/roles';
 
 // Prefetch components on mount to optimize subsequent navigation
 const prefetchComponent = (importFn: () => Promise<any>) => {
@@ -35,6 +36,10 @@ const Upload = React.lazy(() =>
 );
 const Results = React.lazy(() => import('../pages/Results'));
 const Library = React.lazy(() => import('../pages/Library'));
+const BreedDetail = React.lazy(() => import('../pages/BreedDetail'));
+const History = React.lazy(() => import('../pages/History'));
+const Review = React.lazy(() => import('../pages/Review'));
+const Dashboard = React.lazy(() => import('../pages/Dashboard'));
 
 // Helper to generate skeleton placeholder based on route
 const getRouteSkeleton = (route: string) => {
@@ -153,6 +158,10 @@ export const HomeWrapper = memo(() => {
     navigate('/library');
   }, [navigate]);
 
+  const handleNavigateHistory = useCallback(() => {
+    navigate('/history');
+  }, [navigate]);
+
   // Show appropriate background based on loading phase
   return (
     <StablePageWrapper 
@@ -180,6 +189,7 @@ export const HomeWrapper = memo(() => {
             onGetStarted={handleGetStarted} 
             onNavigateAbout={handleNavigateAbout}
             onNavigateLibrary={handleNavigateLibrary}
+            onNavigateHistory={handleNavigateHistory}
           />
         </Suspense>
       </ContentWithSkeleton>
@@ -216,6 +226,10 @@ export const AboutWrapper = memo(() => {
     navigate('/library');
   }, [navigate]);
 
+  const handleNavigateHistory = useCallback(() => {
+    navigate('/history');
+  }, [navigate]);
+
   return (
     <StablePageWrapper 
       isLoading={!isContentReady} 
@@ -243,6 +257,7 @@ export const AboutWrapper = memo(() => {
               onGetStarted={handleGetStarted} 
               onNavigateHome={handleNavigateHome}
               onNavigateLibrary={handleNavigateLibrary}
+              onNavigateHistory={handleNavigateHistory}
             />
           </SignedIn>
           <SignedOut>
@@ -250,6 +265,7 @@ export const AboutWrapper = memo(() => {
               onGetStarted={handleGetStarted} 
               onNavigateHome={handleNavigateHome}
               onNavigateLibrary={handleNavigateLibrary}
+              onNavigateHistory={handleNavigateHistory}
             />
           </SignedOut>
         </Suspense>
@@ -285,7 +301,9 @@ const UploadWrapperContent = memo(() => {
 UploadWrapperContent.displayName = 'UploadWrapperContent';
 
 export const UploadWrapper = memo(() => (
-  <UploadWrapperContent />
+  <RoleGuard permission={ROUTE_PERMISSIONS.upload}>
+    <UploadWrapperContent />
+  </RoleGuard>
 ));
 
 UploadWrapper.displayName = 'UploadWrapper';
@@ -356,7 +374,9 @@ const ResultsWrapperContent = memo(() => {
 ResultsWrapperContent.displayName = 'ResultsWrapperContent';
 
 export const ResultsWrapper = memo(() => (
-  <ResultsWrapperContent />
+  <RoleGuard permission={ROUTE_PERMISSIONS.results}>
+    <ResultsWrapperContent />
+  </RoleGuard>
 ));
 
 ResultsWrapper.displayName = 'ResultsWrapper';
@@ -383,3 +403,89 @@ export const LibraryWrapper = memo(() => {
 });
 
 LibraryWrapper.displayName = 'LibraryWrapper';
+
+// Wrapper for a single breed's library entry
+export const BreedDetailWrapper = memo(() => {
+  const { isLoading } = useContentLoading(300);
+
+  return (
+    <StablePageWrapper 
+      isLoading={isLoading} 
+      loadingMessage="Loading Breed..."
+      glassVariant="light"
+    >
+      <RouterNavigationBreadcrumb />
+      <Suspense fallback={<div />}>
+        <BreedDetail />
+      </Suspense>
+    </StablePageWrapper>
+  );
+});
+
+BreedDetailWrapper.displayName = 'BreedDetailWrapper';
+
+// Wrapper for the locally stored analysis history
+export const HistoryWrapper = memo(() => {
+  const { isLoading } = useContentLoading(300);
+
+  return (
+    <RoleGuard permission={ROUTE_PERMISSIONS.history}>
+      <StablePageWrapper 
+        isLoading={isLoading} 
+        loadingMessage="Loading History..."
+        glassVariant="light"
+      >
+        <RouterNavigationBreadcrumb />
+        <Suspense fallback={<div />}>
+          <History />
+        </Suspense>
+      </StablePageWrapper>
+    </RoleGuard>
+  );
+});
+
+HistoryWrapper.displayName = 'HistoryWrapper';
+
+// Wrapper for the low-confidence review queue
+export const ReviewWrapper = memo(() => {
+  const { isLoading } = useContentLoading(300);
+
+  return (
+    <RoleGuard permission={ROUTE_PERMISSIONS.review}>
+      <StablePageWrapper 
+        isLoading={isLoading} 
+        loadingMessage="Loading Review Queue..."
+        glassVariant="light"
+      >
+        <RouterNavigationBreadcrumb />
+        <Suspense fallback={<div />}>
+          <Review />
+        </Suspense>
+      </StablePageWrapper>
+    </RoleGuard>
+  );
+});
+
+ReviewWrapper.displayName = 'ReviewWrapper';
+
+// Wrapper for the district admin dashboard
+export const DashboardWrapper = memo(() => {
+  const { isLoading } = useContentLoading(300);
+
+  return (
+    <RoleGuard permission={ROUTE_PERMISSIONS.dashboard}>
+      <StablePageWrapper 
+        isLoading={isLoading} 
+        loadingMessage="Loading Dashboard..."
+        glassVariant="light"
+      >
+        <RouterNavigationBreadcrumb />
+        <Suspense fallback={<div />}>
+          <Dashboard />
+        </Suspense>
+      </StablePageWrapper>
+    </RoleGuard>
+  );
+});
+
+DashboardWrapper.displayName = 'DashboardWrapper';
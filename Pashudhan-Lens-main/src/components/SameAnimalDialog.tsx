@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Download, History, Layers } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { AnimalRegistrationDialog } from '@/components/AnimalRegistrationDialog';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { useSaveFusedToHistory } from '@/hooks/use-analysis-history';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { FUSION_TRAIT_LABELS, fuseBreedResults } from '@/lib/breedFusion';
+import { createHistoryExportSources, downloadBpaExport } from '@/services/bpaExport';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BpaExportFileType } from '@/types/bpaExport';
+import { BatchBreedAnalysisResult, FusedBreedAnalysisResult, UploadedImage } from '@/types/breedIdentification';
+
+interface SameAnimalDialogProps {
+  images: UploadedImage[];
+  analysisMetadata?: BatchBreedAnalysisResult['analysisMetadata'];
+  triggerClassName?: string;
+}
+
+const AGREEMENT_LABELS: Record<FusedBreedAnalysisResult['agreement'], string> = {
+  unanimous: 'All views agree',
+  majority: 'Most views agree',
+  split: 'Views disagree - consider a vet review'
+};
+
+// Lets the user mark batch images as one animal and see the merged verdict; no new model call
+export const SameAnimalDialog: React.FC<SameAnimalDialogProps> = ({ images, analysisMetadata, triggerClassName }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [savedRecord, setSavedRecord] = useState<AnalysisHistoryRecord | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const saveFusedToHistory = useSaveFusedToHistory();
+  const { toast } = useToast();
+  const { can } = useAuthContext();
+
+  const analyzedImages = useMemo(
+    () => images.filter(image => image.status === 'complete' && image.results),
+    [images]
+  );
+
+  const selectedImages = useMemo(
+    () => analyzedImages.filter(image => selectedIds.includes(image.id)),
+    [analyzedImages, selectedIds]
+  );
+
+  // Images may come from separate analysis runs, so views are numbered by their place on screen
+  const fused = useMemo(() => {
+    const views = selectedImages.map(image => ({ ...image.results, imageIndex: images.indexOf(image) }));
+    return views.length >= 2 ? fuseBreedResults(views, analysisMetadata) : null;
+  }, [images, selectedImages, analysisMetadata]);
+
+  // A saved record belongs to one selection; changing it means a different merge
+  const toggle = (id: string) => {
+    setSavedRecord(null);
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const saveFused = async (): Promise<AnalysisHistoryRecord | null> => {
+    if (savedRecord) return savedRecord;
+    setIsSaving(true);
+    try {
+      const record = await saveFusedToHistory(fused, selectedImages.map(image => image.file));
+      setSavedRecord(record);
+      toast({
+        title: 'Saved to history',
+        description: record.needsReview ? 'The combined result was sent for vet review.' : `${record.fileName} was added to history.`
+      });
+      return record;
+    } catch (error) {
+      console.error('Failed to save combined result:', error);
+      toast({ title: 'Save failed', description: 'The combined result could not be saved. Please try again.', variant: 'destructive' });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Exports come from the saved record, so the BPA file carries its review state and source hashes
+  const exportFused = async (fileType: BpaExportFileType) => {
+    const record = await saveFused();
+    if (!record) return;
+    try {
+      downloadBpaExport(createHistoryExportSources([record]), fileType);
+      toast({ title: 'BPA export ready', description: `1 animal exported as ${fileType.toUpperCase()}.` });
+    } catch (error) {
+      console.error('BPA export failed:', error);
+      toast({ title: 'Export failed', description: 'Could not prepare the export file.', variant: 'destructive' });
+    }
+  };
+
+  if (analyzedImages.length < 2) return null;
+
+  return (
+    <Dialog
+      onOpenChange={open => {
+        if (open) return;
+        setSelectedIds([]);
+        setSavedRecord(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className={triggerClassName}>
+          <Layers className="w-4 h-4 mr-2" />
+          Same animal
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Combine views of one animal</DialogTitle>
+          <DialogDescription>
+            Select two or more photos of the same animal to merge their results into one identification.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+          {analyzedImages.map(image => {
+            const selected = selectedIds.includes(image.id);
+            return (
+              <label
+                key={image.id}
+                className={cn(
+                  'relative cursor-pointer overflow-hidden rounded-lg border-2',
+                  selected ? 'border-blue-600' : 'border-transparent'
+                )}
+              >
+                <img src={image.url} alt={image.file.name} className="aspect-square w-full object-cover" />
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={() => toggle(image.id)}
+                  className="absolute top-1 left-1 bg-white"
+                  aria-label={`Select ${image.file.name}`}
+                />
+                <span className="absolute bottom-1 right-1 rounded bg-black/60 px-1 text-xs text-white">
+                  {images.indexOf(image) + 1}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        {fused && (fused.success ? (
+          <div className="space-y-4">
+            <div className="rounded-xl bg-gray-50 p-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="text-xl font-bold text-gray-900">{fused.breed.species}</h3>
+                <Badge variant="secondary">{fused.breed.confidence}% combined</Badge>
+                <Badge
+                  className={cn(
+                    fused.agreement === 'unanimous' && 'bg-emerald-600 hover:bg-emerald-600',
+                    fused.agreement === 'majority' && 'bg-blue-600 hover:bg-blue-600',
+                    fused.agreement === 'split' && 'bg-orange-500 hover:bg-orange-500'
+                  )}
+                >
+                  {AGREEMENT_LABELS[fused.agreement]}
+                </Badge>
+              </div>
+              <p className="mt-1 text-sm text-gray-600">
+                From {fused.analysisMetadata.usableViewCount} of {fused.analysisMetadata.viewCount} selected photos
+              </p>
+            </div>
+
+            <div>
+              <h4 className="mb-2 text-sm font-semibold text-gray-900">Breed calls per photo</h4>
+              <ul className="space-y-1 text-sm text-gray-700">
+                {fused.candidates.map(candidate => (
+                  <li key={candidate.species} className="flex justify-between gap-4">
+                    <span className="font-medium">{candidate.species}</span>
+                    <span className="text-right text-gray-600">
+                      {candidate.confidence}% ·{' '}
+                      {candidate.viewConfidences
+                        .map(entry => `photo ${entry.imageIndex + 1}: ${entry.confidence}%`)
+                        .join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {fused.traitSources.length > 0 && (
+              <div>
+                <h4 className="mb-2 text-sm font-semibold text-gray-900">Traits and where they were seen</h4>
+                <dl className="grid grid-cols-1 gap-2 text-sm sm:grid-cols-2">
+                  {fused.traitSources.map(source => (
+                    <div key={source.trait} className="rounded-md bg-gray-50 p-2">
+                      <dt className="text-xs text-gray-500">
+                        {FUSION_TRAIT_LABELS[source.trait]} · photo {source.imageIndex + 1}
+                      </dt>
+                      <dd className="text-gray-900">{source.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button onClick={saveFused} disabled={isSaving || !!savedRecord} className="flex-1">
+                {savedRecord ? <Check className="w-4 h-4 mr-2" /> : <History className="w-4 h-4 mr-2" />}
+                {savedRecord ? 'Saved to History' : 'Save to History'}
+              </Button>
+              {can('export') && (
+                <>
+                  <Button onClick={() => exportFused('csv')} disabled={isSaving} variant="outline" className="flex-1">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button onClick={() => exportFused('json')} disabled={isSaving} variant="outline" className="flex-1">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export JSON
+                  </Button>
+                </>
+              )}
+            </div>
+            <AnimalRegistrationDialog
+              breed={fused.breed}
+              photo={{ source: selectedImages[0].file, fileName: selectedImages[0].file.name }}
+              triggerClassName="w-full"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-red-700">{fused.error}</p>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,11 +4,16 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { RotateCcw, Download } from 'lucide-react';
 import { materialShadows, materialTransitions, materialCards, materialButtons } from '@/lib/material';
-import { SpeciesIdentification } from '@/services/geminiApi';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { BreedComposition } from '@/components/BreedComposition';
+import { createImageExportSource, downloadBpaExport } from '@/services/bpaExport';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { BpaExportFileType } from '@/types/bpaExport';
 
 interface SpeciesResultsProps {
   imageUrl: string;
-  results: SpeciesIdentification[];
+  results: StandardizedBreedIdentification[];
   onReset: () => void;
 }
 
@@ -17,20 +22,16 @@ export const SpeciesResults: React.FC<SpeciesResultsProps> = ({
   results, 
   onReset 
 }) => {
-  const downloadResults = () => {
-    const data = {
-      timestamp: new Date().toISOString(),
-      results
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'cattle-buffalo-breed-identification-results.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const { toast } = useToast();
+  const { can } = useAuthContext();
+
+  const exportResults = async (fileType: BpaExportFileType) => {
+    try {
+      downloadBpaExport([await createImageExportSource(imageUrl, results, 'analysis.jpg')], fileType);
+    } catch (error) {
+      console.error('BPA export failed:', error);
+      toast({ title: 'Export failed', description: 'Could not prepare the export file.', variant: 'destructive' });
+    }
   };
 
   return (
@@ -52,14 +53,26 @@ export const SpeciesResults: React.FC<SpeciesResultsProps> = ({
               <RotateCcw className="w-4 h-4 mr-2" />
               New Image
             </Button>
-            <Button 
-              onClick={downloadResults}
-              variant="default"
-              className="rounded-xl px-4 py-2 font-medium shadow-md hover:shadow-lg transition-all duration-300"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            {can('export') && (
+              <>
+                <Button 
+                  onClick={() => exportResults('csv')}
+                  variant="default"
+                  className="rounded-xl px-4 py-2 font-medium shadow-md hover:shadow-lg transition-all duration-300"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </Button>
+                <Button 
+                  onClick={() => exportResults('json')}
+                  variant="outline"
+                  className="rounded-xl px-4 py-2 font-medium bg-white/90 hover:bg-white transition-all duration-300"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  JSON
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -110,6 +123,8 @@ export const SpeciesResults: React.FC<SpeciesResultsProps> = ({
                     <p className="text-sm text-gray-900 leading-relaxed font-medium">{species.description}</p>
                   </div>
                 )}
+
+                <BreedComposition breed={species} />
                 
                 {species.habitat && (
                   <div className="bg-emerald-50/80 backdrop-blur-sm rounded-xl p-4 border border-emerald-100/50">
@@ -1,11 +1,11 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { SpeciesIdentification } from '@/services/geminiApi';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
 
 interface AppState {
   currentPage: 'home' | 'upload' | 'results' | 'about';
   resultsData: {
     imageUrl: string;
-    results: SpeciesIdentification[];
+    results: StandardizedBreedIdentification[];
   } | null;
   navigationHistory: string[];
   isLoading: boolean;
@@ -14,7 +14,7 @@ interface AppState {
 interface AppContextType {
   state: AppState;
   navigateTo: (page: 'home' | 'upload' | 'results' | 'about', direction?: 'forward' | 'backward') => void;
-  setResults: (imageUrl: string, results: SpeciesIdentification[]) => void;
+  setResults: (imageUrl: string, results: StandardizedBreedIdentification[]) => void;
   setLoading: (loading: boolean) => void;
   clearResults: () => void;
   getDirection: () => 'forward' | 'backward';
@@ -46,7 +46,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
-  const setResults = (imageUrl: string, results: SpeciesIdentification[]) => {
+  const setResults = (imageUrl: string, results: StandardizedBreedIdentification[]) => {
     setState(prev => ({
       ...prev,
       resultsData: { imageUrl, results },
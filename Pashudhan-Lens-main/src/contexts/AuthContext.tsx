@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useClerk, useUser } from '@clerk/clerk-react';
+import { AuthContextType, AuthMode, AuthUser, UserRole } from '@/types/auth';
+import { AuthContext } from '@/hooks/use-auth-context';
+import { getMockAuthRole, hasPermission, MOCK_SESSION_TOKEN_PREFIX, parseUserRole } from '@/lib/roles';
+import { setProviderAuthTokenGetter } from '@/services/providers';
+
+const MOCK_ROLE_STORAGE_KEY = 'pashudhan-lens:mock-role';
+
+// Must be rendered inside ClerkProvider
+const ClerkAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isLoaded, isSignedIn, user: clerkUser } = useUser();
+  const clerk = useClerk();
+
+  const user = useMemo<AuthUser | null>(() => clerkUser ? {
+    id: clerkUser.id,
+    name: clerkUser.fullName || clerkUser.primaryEmailAddress?.emailAddress || clerkUser.id,
+    email: clerkUser.primaryEmailAddress?.emailAddress,
+    role: parseUserRole(clerkUser.publicMetadata)
+  } : null, [clerkUser]);
+
+  // Clerk refreshes short-lived session tokens itself; ask for one per request
+  useEffect(() => {
+    setProviderAuthTokenGetter(async () => (await clerk.session?.getToken()) ?? null);
+  }, [clerk]);
+
+  const value = useMemo<AuthContextType>(() => ({
+    mode: 'clerk',
+    isLoaded,
+    isSignedIn: !!isSignedIn,
+    user,
+    can: permission => hasPermission(user?.role, permission),
+    signIn: () => clerk.openSignIn(),
+    redirectToSignIn: returnTo => {
+      clerk.redirectToSignIn({ signInForceRedirectUrl: returnTo });
+    },
+    signOut: () => clerk.signOut(),
+    setMockRole: () => undefined
+  }), [isLoaded, isSignedIn, user, clerk]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+// Local stand-in for development and tests; the chosen role survives reloads
+const MockAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [isSignedIn, setIsSignedIn] = useState(true);
+  const [role, setRole] = useState<UserRole>(() => {
+    const stored = localStorage.getItem(MOCK_ROLE_STORAGE_KEY);
+    return stored ? parseUserRole({ role: stored }) : getMockAuthRole();
+  });
+
+  const setMockRole = useCallback((nextRole: UserRole) => {
+    localStorage.setItem(MOCK_ROLE_STORAGE_KEY, nextRole);
+    setRole(nextRole);
+  }, []);
+
+  const value = useMemo<AuthContextType>(() => {
+    const user: AuthUser | null = isSignedIn
+      ? { id: `mock-${role}`, name: 'Mock user', email: 'mock@pashudhan.local', role }
+      : null;
+
+    return {
+      mode: 'mock',
+      isLoaded: true,
+      isSignedIn,
+      user,
+      can: permission => hasPermission(user?.role, permission),
+      signIn: () => setIsSignedIn(true),
+      redirectToSignIn: () => undefined,
+      signOut: async () => setIsSignedIn(false),
+      setMockRole
+    };
+  }, [isSignedIn, role, setMockRole]);
+
+  const userId = value.user?.id;
+  useEffect(() => {
+    setProviderAuthTokenGetter(async () => userId ? `${MOCK_SESSION_TOKEN_PREFIX}${userId}` : null);
+  }, [userId]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const AuthProvider: React.FC<{ mode: AuthMode; children: ReactNode }> = ({ mode, children }) =>
+  mode === 'mock'
+    ? <MockAuthProvider>{children}</MockAuthProvider>
+    : <ClerkAuthProvider>{children}</ClerkAuthProvider>;
@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteAnalysisHistoryRecord,
+  listAnalysisHistory,
+  saveBatchToHistory,
+  saveFusedResultToHistory
+} from '@/services/analysisHistory';
+import { BatchBreedAnalysisResult, FusedBreedAnalysisResult } from '@/types/breedIdentification';
+
+export const ANALYSIS_HISTORY_QUERY_KEY = ['analysis-history'] as const;
+
+export const useAnalysisHistory = () => {
+  const queryClient = useQueryClient();
+
+  const historyQuery = useQuery({
+    queryKey: ANALYSIS_HISTORY_QUERY_KEY,
+    queryFn: listAnalysisHistory
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAnalysisHistoryRecord,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY })
+  });
+
+  return {
+    records: historyQuery.data ?? [],
+    isLoading: historyQuery.isLoading,
+    error: historyQuery.error,
+    deleteRecord: deleteMutation.mutateAsync
+  };
+};
+
+// Persist a finished batch and refresh any mounted history list
+export const useSaveToHistory = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (files: File[], batch: BatchBreedAnalysisResult) => {
+    const saved = await saveBatchToHistory(files, batch);
+    if (saved.length > 0) {
+      await queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY });
+    }
+    return saved;
+  }, [queryClient]);
+};
+
+export const useSaveFusedToHistory = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (fused: FusedBreedAnalysisResult, files: File[]) => {
+    const record = await saveFusedResultToHistory(fused, files);
+    await queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY });
+    return record;
+  }, [queryClient]);
+};
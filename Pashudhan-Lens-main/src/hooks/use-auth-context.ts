@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { AuthContextType } from '@/types/auth';
+
+// Provided by AuthProvider in contexts/AuthContext.tsx
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuthContext = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+};
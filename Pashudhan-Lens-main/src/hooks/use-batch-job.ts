@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ANALYSIS_HISTORY_QUERY_KEY } from '@/hooks/use-analysis-history';
+import {
+  createBatchJob,
+  discardBatchJob,
+  getBatchJobSnapshot,
+  pauseBatchJob,
+  startBatchJob,
+  subscribeToBatchJob
+} from '@/services/batchJobs';
+import { BatchJobSource } from '@/types/batchJob';
+
+export const BATCH_JOB_QUERY_KEY = ['batch-job'] as const;
+
+export const useBatchJob = () => {
+  const queryClient = useQueryClient();
+  const completedRef = useRef<number | null>(null);
+
+  const jobQuery = useQuery({
+    queryKey: BATCH_JOB_QUERY_KEY,
+    queryFn: getBatchJobSnapshot
+  });
+
+  // The runner pushes a snapshot after every item, so the query never needs refetching
+  useEffect(() => subscribeToBatchJob(snapshot => {
+    queryClient.setQueryData(BATCH_JOB_QUERY_KEY, snapshot);
+
+    const completed = snapshot?.progress.complete ?? 0;
+    if (completedRef.current !== null && completed > completedRef.current) {
+      queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY });
+    }
+    completedRef.current = completed;
+  }), [queryClient]);
+
+  // Starting doesn't wait for the run; progress arrives through the subscription
+  const start = useCallback(async (files: File[], name: string, source: BatchJobSource) => {
+    const job = await createBatchJob(files, name, source);
+    startBatchJob();
+    return job;
+  }, []);
+
+  const resume = useCallback(() => {
+    startBatchJob();
+  }, []);
+
+  return {
+    snapshot: jobQuery.data ?? null,
+    start,
+    pause: pauseBatchJob,
+    resume,
+    discard: discardBatchJob
+  };
+};
@@ -0,0 +1,17 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ANALYSIS_HISTORY_QUERY_KEY } from '@/hooks/use-analysis-history';
+import { submitBreedReview } from '@/services/breedReview';
+import { BreedReview } from '@/types/breedReview';
+
+// Reviews live on history records, so a decision refreshes the history query
+export const useSubmitBreedReview = () => {
+  const queryClient = useQueryClient();
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ recordId, review }: { recordId: string; review: BreedReview }) =>
+      submitBreedReview(recordId, review),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_QUERY_KEY })
+  });
+
+  return reviewMutation.mutateAsync;
+};
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { enqueueCaptures, listQueuedCaptures } from '@/services/captureQueue';
+import { CAPTURE_QUEUE_SYNC_TAG, serviceWorkerManager } from '@/lib/serviceWorker';
+
+export const CAPTURE_QUEUE_QUERY_KEY = ['capture-queue'] as const;
+
+export const useCaptureQueue = () => {
+  const queryClient = useQueryClient();
+
+  const queueQuery = useQuery({
+    queryKey: CAPTURE_QUEUE_QUERY_KEY,
+    queryFn: listQueuedCaptures
+  });
+
+  // Queue files for later analysis and ask the service worker to sync when connectivity returns
+  const enqueue = useCallback(async (files: File[]) => {
+    const captures = await enqueueCaptures(files);
+    await queryClient.invalidateQueries({ queryKey: CAPTURE_QUEUE_QUERY_KEY });
+    await serviceWorkerManager.requestBackgroundSync(CAPTURE_QUEUE_SYNC_TAG);
+    return captures;
+  }, [queryClient]);
+
+  return {
+    queuedCaptures: queueQuery.data ?? [],
+    enqueue
+  };
+};
@@ -0,0 +1,50 @@
+// Keys, lifetime and stats for the analysis result cache
+import { envSchema } from '@/lib/validation';
+import { AnalysisCacheEntry, AnalysisCacheStats, CachedImageResult } from '@/types/analysisCache';
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+
+export const DEFAULT_ANALYSIS_CACHE_TTL_HOURS = 168; // One week
+
+// Read on its own so a missing key elsewhere in the env can't disable the cache; 0 turns it off
+export const getAnalysisCacheTtlMs = (): number => {
+  const parsed = envSchema.innerType().shape.VITE_ANALYSIS_CACHE_TTL_HOURS
+    .safeParse(import.meta.env.VITE_ANALYSIS_CACHE_TTL_HOURS);
+  const hours = parsed.success && parsed.data !== undefined ? parsed.data : DEFAULT_ANALYSIS_CACHE_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+};
+
+// A new model or prompt version never reuses results produced by the old one
+export const getAnalysisCacheKey = (contentHash: string, model: string, promptVersion: string): string =>
+  `${contentHash}:${model}:${promptVersion}`;
+
+export const isAnalysisCacheEntryFresh = (entry: AnalysisCacheEntry, now: number = Date.now()): boolean =>
+  entry.expiresAt > now;
+
+// Only identified breeds are worth reusing; failures may have been transient or fixed by a retry
+export const isCacheableResult = (result: MultiImageBreedResult): boolean =>
+  !result.error && result.breeds.length > 0;
+
+export const toCachedImageResult = ({ imageIndex, fileName, cached, ...result }: MultiImageBreedResult): CachedImageResult =>
+  result;
+
+export const createAnalysisCacheEntry = (
+  contentHash: string,
+  model: string,
+  promptVersion: string,
+  result: MultiImageBreedResult,
+  ttlMs: number,
+  now: number = Date.now()
+): AnalysisCacheEntry => ({
+  key: getAnalysisCacheKey(contentHash, model, promptVersion),
+  contentHash,
+  model,
+  promptVersion,
+  result: toCachedImageResult(result),
+  createdAt: new Date(now).toISOString(),
+  expiresAt: now + ttlMs
+});
+
+export const getAnalysisCacheHitRate = (stats: Pick<AnalysisCacheStats, 'hits' | 'misses'>): number | undefined => {
+  const lookups = stats.hits + stats.misses;
+  return lookups === 0 ? undefined : stats.hits / lookups;
+};
@@ -0,0 +1,123 @@
+// Registration form validation and AI pre-fill for animal records
+import { z } from 'zod';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { AnimalAgeClass, AnimalAiSuggestions, AnimalSex, AnimalSizeClass } from '@/types/animalRecord';
+import { normalizeBreedName } from '@/lib/breedRegistry';
+
+export const ANIMAL_SEX_LABELS = { female: 'Female', male: 'Male' } as const;
+
+export const ANIMAL_AGE_CLASS_LABELS: Record<AnimalAgeClass, string> = {
+  calf: 'Calf',
+  young: 'Young (heifer / bullock)',
+  adult: 'Adult'
+};
+
+export const ANIMAL_SIZE_CLASS_LABELS: Record<AnimalSizeClass, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large'
+};
+
+// INAPH ear tags are 12 digits; field staff often type them with spaces or dashes
+export const normalizeEarTag = (value: string): string => value.replace(/[\s-]/g, '');
+
+export const SUGGESTED_FIELDS = ['breedName', 'ageClass', 'sizeClass'] as const;
+export type SuggestedField = typeof SUGGESTED_FIELDS[number];
+
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const baseFormSchema = z.object({
+  earTagId: z.preprocess(
+    value => (typeof value === 'string' ? normalizeEarTag(value) : value),
+    z.string().regex(/^\d{12}$/, 'Ear tag ID must be exactly 12 digits')
+  ),
+  ownerName: z.string().trim().min(1, 'Owner name is required'),
+  village: z.string().trim().min(1, 'Village is required'),
+  sex: z.enum(['female', 'male'], { required_error: "Select the animal's sex" }),
+  dateOfBirth: z.preprocess(
+    emptyToUndefined,
+    z.string()
+      .refine(value => !Number.isNaN(Date.parse(value)), 'Enter a valid date')
+      .refine(value => Date.parse(value) <= Date.now(), 'Date of birth cannot be in the future')
+      .optional()
+  ),
+  ageClass: z.preprocess(emptyToUndefined, z.enum(['calf', 'young', 'adult']).optional()),
+  breedName: z.string().trim().min(1, 'Breed is required'),
+  sizeClass: z.preprocess(emptyToUndefined, z.enum(['small', 'medium', 'large']).optional()),
+  confirmed: z.object({
+    breedName: z.boolean(),
+    ageClass: z.boolean(),
+    sizeClass: z.boolean()
+  })
+});
+
+// Every field the AI filled in must be explicitly confirmed (or changed) before the record can be saved
+export const createAnimalRecordFormSchema = (suggestions: AnimalAiSuggestions) =>
+  baseFormSchema.superRefine((values, ctx) => {
+    if (!values.dateOfBirth && !values.ageClass) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['ageClass'],
+        message: 'Enter a date of birth or an age estimate'
+      });
+    }
+
+    SUGGESTED_FIELDS.forEach(field => {
+      if (suggestions[field] && !values.confirmed[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['confirmed', field],
+          message: 'Confirm the suggested value or change it'
+        });
+      }
+    });
+  });
+
+// Raw form state; selects use '' for "nothing chosen" because Radix can't hold undefined
+export interface AnimalRecordFormInput {
+  earTagId: string;
+  ownerName: string;
+  village: string;
+  sex?: AnimalSex;
+  dateOfBirth: string;
+  ageClass: AnimalAgeClass | '';
+  breedName: string;
+  sizeClass: AnimalSizeClass | '';
+  confirmed: Record<SuggestedField, boolean>;
+}
+
+export type AnimalRecordFormValues = z.output<typeof baseFormSchema>;
+
+const AGE_CLASS_PATTERNS: [AnimalAgeClass, RegExp][] = [
+  ['calf', /\b(calf|calves)\b/i],
+  ['young', /\b(young|heifer|juvenile|yearling|bullock)\b/i],
+  ['adult', /\b(adult|mature)\b/i]
+];
+
+const SIZE_CLASS_PATTERNS: [AnimalSizeClass, RegExp][] = [
+  ['large', /\b(large|big)\b/i],
+  ['medium', /\bmedium\b/i],
+  ['small', /\b(small|compact)\b/i]
+];
+
+const matchClass = <T extends string>(text: string | undefined, patterns: [T, RegExp][]): T | undefined =>
+  text ? patterns.find(([, pattern]) => pattern.test(text))?.[0] : undefined;
+
+// Map the model's free-text estimates onto the form's fixed classes; unclear text yields no suggestion
+export const suggestAnimalFields = (breed: StandardizedBreedIdentification): AnimalAiSuggestions => ({
+  breedName: breed.species ? normalizeBreedName(breed.species) : undefined,
+  ageClass: matchClass(breed.metadata?.estimatedAge, AGE_CLASS_PATTERNS),
+  sizeClass: matchClass(breed.metadata?.estimatedSize, SIZE_CLASS_PATTERNS)
+});
+
+export const createAnimalRecordFormDefaults = (suggestions: AnimalAiSuggestions): AnimalRecordFormInput => ({
+  earTagId: '',
+  ownerName: '',
+  village: '',
+  sex: undefined,
+  dateOfBirth: '',
+  ageClass: suggestions.ageClass ?? '',
+  breedName: suggestions.breedName ?? '',
+  sizeClass: suggestions.sizeClass ?? '',
+  confirmed: { breedName: false, ageClass: false, sizeClass: false }
+});
@@ -0,0 +1,95 @@
+// Batch job bookkeeping: which files can be imported, item outcomes and overall progress
+import { BatchJobItem, BatchJobItemStatus, BatchJobProgress, BatchJobRateLimit } from '@/types/batchJob';
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+import { envSchema } from '@/lib/validation';
+
+// Images per chunk handed to the analysis pipeline; it keeps a few requests in flight within each chunk
+export const BATCH_JOB_CHUNK_SIZE = 10;
+
+// Request failures before an item is given up on
+export const BATCH_JOB_MAX_ATTEMPTS = 3;
+
+// Pause after a chunk with a failed request when the service didn't say how long to wait
+export const BATCH_JOB_FAILURE_BACKOFF_MS = 30_000;
+
+// The proxy's defaults
+export const DEFAULT_BATCH_JOB_RATE_LIMIT: BatchJobRateLimit = { limit: 20, windowMs: 60_000 };
+
+export const getBatchJobRateLimit = (): BatchJobRateLimit => {
+  const shape = envSchema.innerType().shape;
+  const limit = shape.VITE_BREED_RATE_LIMIT.safeParse(import.meta.env.VITE_BREED_RATE_LIMIT);
+  const windowMs = shape.VITE_BREED_RATE_WINDOW_MS.safeParse(import.meta.env.VITE_BREED_RATE_WINDOW_MS);
+  return {
+    limit: limit.success && limit.data !== undefined ? limit.data : DEFAULT_BATCH_JOB_RATE_LIMIT.limit,
+    windowMs: windowMs.success && windowMs.data !== undefined ? windowMs.data : DEFAULT_BATCH_JOB_RATE_LIMIT.windowMs
+  };
+};
+
+// A chunk never asks for more requests than one window allows
+export const getBatchJobChunkSize = (rateLimit: BatchJobRateLimit): number =>
+  Math.min(BATCH_JOB_CHUNK_SIZE, rateLimit.limit);
+
+// How long to wait before sending count more requests, given when earlier ones were sent
+export const getBatchJobPacingDelay = (
+  requestTimes: number[],
+  count: number,
+  rateLimit: BatchJobRateLimit,
+  now: number = Date.now()
+): number => {
+  const recent = requestTimes.filter(time => time > now - rateLimit.windowMs).sort((a, b) => a - b);
+  const excess = Math.min(recent.length, recent.length + count - rateLimit.limit);
+  return excess > 0 ? recent[excess - 1] + rateLimit.windowMs - now : 0;
+};
+
+// Any failed request pauses the whole job; the longest Retry-After wins over the fixed backoff
+export const getBatchJobBackoff = (results: MultiImageBreedResult[]): number => {
+  const failed = results.filter(result => result.requestFailed);
+  if (failed.length === 0) return 0;
+
+  const retryAfter = failed.map(result => result.retryAfterMs).filter((ms): ms is number => ms !== undefined);
+  return retryAfter.length > 0 ? Math.max(...retryAfter) : BATCH_JOB_FAILURE_BACKOFF_MS;
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif'
+};
+
+// Archives and folders carry system files (__MACOSX/, .DS_Store, thumbnails) that must not be analyzed
+export const getImageMimeType = (path: string): string | undefined => {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  if (!name || name.startsWith('.') || segments.some(segment => segment === '__MACOSX')) return undefined;
+
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_MIME_TYPES[extension];
+};
+
+export const summarizeBatchJobItems = (items: Pick<BatchJobItem, 'status'>[]): BatchJobProgress => {
+  const progress: BatchJobProgress = { total: items.length, pending: 0, complete: 0, unidentified: 0, error: 0 };
+  items.forEach(item => {
+    progress[item.status]++;
+  });
+  return progress;
+};
+
+export const getBatchJobPercent = (progress: BatchJobProgress): number =>
+  progress.total === 0 ? 100 : Math.round(((progress.total - progress.pending) / progress.total) * 100);
+
+// Request failures are retried on a later chunk until BATCH_JOB_MAX_ATTEMPTS; anything else is final.
+// Being rate limited doesn't use up an attempt - the job waits and the image goes again
+export const getBatchJobItemOutcome = (
+  item: Pick<BatchJobItem, 'attempts'>,
+  result: MultiImageBreedResult
+): { status: BatchJobItemStatus; attempts: number } => {
+  if (result.rateLimited) return { status: 'pending', attempts: item.attempts };
+  if (result.requestFailed) {
+    const attempts = item.attempts + 1;
+    return { status: attempts >= BATCH_JOB_MAX_ATTEMPTS ? 'error' : 'pending', attempts };
+  }
+  return { status: !result.error && result.breeds.length > 0 ? 'complete' : 'unidentified', attempts: item.attempts };
+};
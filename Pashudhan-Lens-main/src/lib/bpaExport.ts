@@ -0,0 +1,155 @@
+// Builds the versioned BPA registration payload and serializes it to CSV or JSON
+import { BreedType, MultiImageBreedResult, StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { BpaExportPayload, BpaExportRow, BpaVerificationStatus } from '@/types/bpaExport';
+import { BreedReview } from '@/types/breedReview';
+import { findBreed, getBreedById } from '@/lib/breedRegistry';
+import { BREED_CATEGORY_NAMES, formatBreedCompositionShare, getBreedType } from '@/lib/breedComposition';
+import { getAlternativeBreeds, getReviewConfidenceThreshold, getTopBreed } from '@/lib/breedReview';
+
+export const BPA_EXPORT_FORMAT = 'pashudhan-lens/bpa-registration';
+// v2 added the review columns and the reviewer statuses; v3 added breed type and composition
+export const BPA_EXPORT_VERSION = 3;
+
+export const BPA_VERIFICATION_STATUS_LABELS: Record<BpaVerificationStatus, string> = {
+  'auto-verified': 'Auto-verified',
+  'needs-review': 'Needs review',
+  'reviewer-verified': 'Reviewer verified',
+  crossbred: 'Crossbred',
+  nondescript: 'Non-descript',
+  unidentified: 'Unidentified'
+};
+
+// Breed names written for reviewer decisions that have no registry breed
+const REVIEW_BREED_NAMES: Partial<Record<BpaVerificationStatus, string>> = BREED_CATEGORY_NAMES;
+
+// Column order and headers for the CSV file; JSON uses the row keys directly
+export const BPA_CSV_COLUMNS: { key: keyof BpaExportRow; header: string }[] = [
+  { key: 'recordNumber', header: 'record_number' },
+  { key: 'imageFileName', header: 'image_file_name' },
+  { key: 'imageSha256', header: 'image_sha256' },
+  { key: 'species', header: 'species' },
+  { key: 'breedId', header: 'breed_id' },
+  { key: 'breedName', header: 'breed_name' },
+  { key: 'breedType', header: 'breed_type' },
+  { key: 'breedComposition', header: 'breed_composition' },
+  { key: 'confidence', header: 'confidence' },
+  { key: 'verificationStatus', header: 'verification_status' },
+  { key: 'alternativeBreeds', header: 'alternative_breeds' },
+  { key: 'analyzedAt', header: 'analyzed_at' },
+  { key: 'model', header: 'model' },
+  { key: 'promptVersion', header: 'prompt_version' },
+  { key: 'reviewDecision', header: 'review_decision' },
+  { key: 'reviewerName', header: 'reviewer_name' },
+  { key: 'reviewComment', header: 'review_comment' },
+  { key: 'reviewedAt', header: 'reviewed_at' }
+];
+
+// Everything the exporter needs to know about one analyzed image
+export interface BpaExportSource {
+  result: MultiImageBreedResult;
+  fileName: string;
+  imageSha256?: string;
+  analyzedAt: string;
+  model?: string;
+  promptVersion?: string;
+  review?: BreedReview;
+}
+
+// A reviewer's decision always wins over the confidence threshold
+export const getBpaVerificationStatus = (
+  breed: StandardizedBreedIdentification | undefined,
+  review?: BreedReview,
+  threshold: number = getReviewConfidenceThreshold()
+): BpaVerificationStatus => {
+  if (review) {
+    return review.decision === 'crossbred' || review.decision === 'nondescript' ? review.decision : 'reviewer-verified';
+  }
+  if (!breed) return 'unidentified';
+  return breed.confidence >= threshold ? 'auto-verified' : 'needs-review';
+};
+
+// Reviewers who name a breed make the animal purebred; accepting the AI keeps the AI's type
+const getExportBreedType = (breed: StandardizedBreedIdentification | undefined, review?: BreedReview): BreedType | '' => {
+  if (review && review.decision !== 'accepted') {
+    return review.decision === 'alternative' ? 'purebred' : review.decision;
+  }
+  return breed ? getBreedType(breed) : '';
+};
+
+export const createBpaExportRow = (source: BpaExportSource, recordNumber: number): BpaExportRow => {
+  const { review } = source;
+  const breed = getTopBreed(source.result);
+  const aiRecord = breed && ((breed.breedId && getBreedById(breed.breedId)) || findBreed(breed.species));
+  const verificationStatus = getBpaVerificationStatus(breed, review);
+  const breedType = getExportBreedType(breed, review);
+  // A crossbred's species comes from its largest contributing breed
+  const speciesRecord = aiRecord || (breed?.composition?.length ? findBreed(breed.composition[0].breedName) : undefined);
+
+  // Reviewed rows carry the reviewer's breed; species falls back to the AI's when the reviewer names none
+  const registryRecord = review ? (review.breedName ? findBreed(review.breedName) : undefined) : aiRecord;
+  const breedName = review
+    ? review.breedName ?? REVIEW_BREED_NAMES[verificationStatus] ?? ''
+    : aiRecord?.name ?? breed?.species ?? '';
+
+  return {
+    recordNumber,
+    imageFileName: source.fileName,
+    imageSha256: source.imageSha256 ?? '',
+    species: registryRecord?.species ?? speciesRecord?.species ?? '',
+    breedId: registryRecord?.id ?? '',
+    breedName,
+    breedType,
+    // A reviewer can call a cross the AI missed, but only the AI estimates the shares
+    breedComposition: breedType === 'crossbred' && breed?.breedType === 'crossbred' ? breed.composition ?? [] : [],
+    confidence: breed?.confidence ?? 0,
+    verificationStatus,
+    alternativeBreeds: getAlternativeBreeds(source.result),
+    analyzedAt: source.analyzedAt,
+    model: source.model ?? 'unknown',
+    promptVersion: source.promptVersion ?? '',
+    reviewDecision: review?.decision ?? '',
+    reviewerName: review?.reviewer.name ?? '',
+    reviewComment: review?.comment ?? '',
+    reviewedAt: review?.reviewedAt ?? ''
+  };
+};
+
+export const createBpaExportPayload = (
+  sources: BpaExportSource[],
+  generatedAt: Date = new Date()
+): BpaExportPayload => {
+  const rows = sources.map((source, index) => createBpaExportRow(source, index + 1));
+  return {
+    format: BPA_EXPORT_FORMAT,
+    version: BPA_EXPORT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    rowCount: rows.length,
+    rows
+  };
+};
+
+// RFC 4180 quoting: wrap fields containing separators, quotes or line breaks
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheets run text starting with these as a formula; a leading quote keeps user-typed names and comments as text
+const neutralizeCsvFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const formatCsvValue = (value: BpaExportRow[keyof BpaExportRow]): string => {
+  if (typeof value === 'number') return String(value);
+  return escapeCsvField(neutralizeCsvFormula(Array.isArray(value)
+    ? value.map(item => (typeof item === 'string' ? item : formatBreedCompositionShare(item))).join('; ')
+    : String(value)));
+};
+
+// The version travels in its own column so a bare CSV file still identifies its layout
+export const toBpaCsv = (payload: BpaExportPayload): string => {
+  const header = ['format_version', ...BPA_CSV_COLUMNS.map(column => column.header)].join(',');
+  const lines = payload.rows.map(row =>
+    [String(payload.version), ...BPA_CSV_COLUMNS.map(column => formatCsvValue(row[column.key]))].join(',')
+  );
+  return [header, ...lines].join('\r\n') + '\r\n';
+};
+
+export const toBpaJson = (payload: BpaExportPayload): string => JSON.stringify(payload, null, 2);
@@ -0,0 +1,71 @@
+// Crossbred and non-descript animals: category names, breed type and estimated breed composition
+import { BreedCompositionShare, BreedType, StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { findBreed, toBreedKey } from '@/lib/breedRegistry';
+
+export const BREED_TYPE_LABELS: Record<BreedType, string> = {
+  purebred: 'Purebred',
+  crossbred: 'Crossbred',
+  nondescript: 'Non-descript'
+};
+
+// Names written in place of a breed for animals that don't have one
+export const BREED_CATEGORY_NAMES: Record<Exclude<BreedType, 'purebred'>, string> = {
+  crossbred: 'Crossbred',
+  nondescript: 'Non-descript'
+};
+
+// Spellings models and field staff use for the two categories, as registry keys
+const CATEGORY_KEYS: Record<string, Exclude<BreedType, 'purebred'>> = {
+  crossbred: 'crossbred',
+  crossbreed: 'crossbred',
+  cross: 'crossbred',
+  mixed: 'crossbred',
+  mixedbreed: 'crossbred',
+  nondescript: 'nondescript',
+  nd: 'nondescript',
+  desi: 'nondescript',
+  grade: 'nondescript',
+  local: 'nondescript'
+};
+
+// "Non descript cattle", "ND" and "Desi cow" all name the non-descript category
+export const getBreedCategory = (name: string): Exclude<BreedType, 'purebred'> | undefined =>
+  name ? CATEGORY_KEYS[toBreedKey(name.replace(/\b(cattle|cows?|buffalo(es)?|breed|animal)\b/gi, ''))] : undefined;
+
+// Results saved before crossbred support carry no breed type
+export const getBreedType = (breed: Pick<StandardizedBreedIdentification, 'breedType' | 'species'>): BreedType =>
+  breed.breedType ?? getBreedCategory(breed.species) ?? 'purebred';
+
+// Merges repeated breeds, drops empty shares and rescales so the shares sum to exactly 100
+export const normalizeBreedComposition = (shares: BreedCompositionShare[]): BreedCompositionShare[] => {
+  const merged = new Map<string, BreedCompositionShare>();
+  shares.forEach(share => {
+    const record = findBreed(share.breedName);
+    const breedName = record?.name ?? share.breedName.trim();
+    const existing = merged.get(breedName);
+    merged.set(breedName, {
+      breedName,
+      breedId: record?.id,
+      percentage: (existing?.percentage ?? 0) + Math.max(0, share.percentage)
+    });
+  });
+
+  const kept = Array.from(merged.values()).filter(share => share.breedName && share.percentage > 0);
+  const total = kept.reduce((sum, share) => sum + share.percentage, 0);
+  if (total === 0) return [];
+
+  const scaled = kept
+    .map(share => ({ ...share, percentage: Math.round((share.percentage / total) * 100) }))
+    .sort((a, b) => b.percentage - a.percentage);
+
+  // Rounding can leave the total at 99 or 101; the largest share absorbs the difference
+  scaled[0].percentage += 100 - scaled.reduce((sum, share) => sum + share.percentage, 0);
+  return scaled.filter(share => share.percentage > 0);
+};
+
+export const formatBreedCompositionShare = (share: BreedCompositionShare): string =>
+  `${share.breedName} ${share.percentage}%`;
+
+// "Holstein Friesian 75% x Gir 25%"
+export const formatBreedComposition = (composition: BreedCompositionShare[] = []): string =>
+  composition.map(formatBreedCompositionShare).join(' x ');
@@ -0,0 +1,167 @@
+// Merge separately analyzed images of one animal into a single identification
+import {
+  BatchBreedAnalysisResult,
+  FusedBreedAnalysisResult,
+  FusedBreedCandidate,
+  FusedTraitSource,
+  MultiImageBreedResult,
+  StandardizedBreedIdentification
+} from '@/types/breedIdentification';
+import { findBreed, normalizeBreedName } from '@/lib/breedRegistry';
+import { getTopBreed, requiresReview } from '@/lib/breedReview';
+
+export const FUSION_TRAIT_LABELS: Record<FusedTraitSource['trait'], string> = {
+  bodyStructure: 'Body structure',
+  colorPattern: 'Colour pattern',
+  hornCharacteristics: 'Horns',
+  earShape: 'Ears',
+  facialFeatures: 'Face',
+  humpPresence: 'Hump',
+  overallConformation: 'Conformation'
+};
+
+const TRAITS = Object.keys(FUSION_TRAIT_LABELS) as FusedTraitSource['trait'][];
+
+// The model fills traits it couldn't see with "Not clearly visible"; those never win over a real observation
+const isObservedTrait = (value: string | undefined): value is string =>
+  !!value && !/not (clearly )?visible|unknown|n\/a/i.test(value);
+
+const usableBreeds = (view: MultiImageBreedResult): StandardizedBreedIdentification[] =>
+  view.error ? [] : view.breeds.filter(breed => breed.species && !breed.error);
+
+// Views that don't report a breed count as 0, so one confident outlier can't outvote the rest
+const rankCandidates = (views: MultiImageBreedResult[]): FusedBreedCandidate[] => {
+  const candidates = new Map<string, FusedBreedCandidate>();
+
+  views.forEach(view => {
+    usableBreeds(view).forEach(breed => {
+      const species = normalizeBreedName(breed.species);
+      const candidate = candidates.get(species) ?? { species, breedId: findBreed(species)?.id, confidence: 0, viewConfidences: [] };
+      const existing = candidate.viewConfidences.find(entry => entry.imageIndex === view.imageIndex);
+
+      // A view listing the same breed twice keeps its higher confidence
+      if (existing) {
+        existing.confidence = Math.max(existing.confidence, breed.confidence);
+      } else {
+        candidate.viewConfidences.push({ imageIndex: view.imageIndex, confidence: breed.confidence });
+      }
+      candidates.set(species, candidate);
+    });
+  });
+
+  return Array.from(candidates.values())
+    .map(candidate => ({
+      ...candidate,
+      confidence: Math.round(candidate.viewConfidences.reduce((total, entry) => total + entry.confidence, 0) / views.length)
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.viewConfidences.length - a.viewConfidences.length);
+};
+
+const getAgreement = (views: MultiImageBreedResult[], winner: string): FusedBreedAnalysisResult['agreement'] => {
+  const agreeing = views.filter(view => {
+    const top = getTopBreed(view);
+    return top && normalizeBreedName(top.species) === winner;
+  }).length;
+
+  if (agreeing === views.length) return 'unanimous';
+  return agreeing > views.length / 2 ? 'majority' : 'split';
+};
+
+// Traits describe the animal, not the breed call, so every view can contribute. Views that back
+// the winner are preferred, then the more confident view
+const pickTraits = (
+  views: MultiImageBreedResult[],
+  winner: string
+): { characteristics: StandardizedBreedIdentification['breedCharacteristics']; sources: FusedTraitSource[] } => {
+  const observations = views
+    .map(view => {
+      const breed = usableBreeds(view).find(candidate => normalizeBreedName(candidate.species) === winner) ?? getTopBreed(view);
+      return { view, breed, backsWinner: normalizeBreedName(breed.species) === winner };
+    })
+    .sort((a, b) => Number(b.backsWinner) - Number(a.backsWinner) || b.breed.confidence - a.breed.confidence);
+
+  const characteristics = { ...observations[0].breed.breedCharacteristics };
+  const sources: FusedTraitSource[] = [];
+
+  TRAITS.forEach(trait => {
+    const source = observations.find(({ breed }) => isObservedTrait(breed.breedCharacteristics[trait]));
+    if (!source) return;
+
+    characteristics[trait] = source.breed.breedCharacteristics[trait];
+    sources.push({ trait, value: characteristics[trait], imageIndex: source.view.imageIndex, fileName: source.view.fileName });
+  });
+
+  return { characteristics, sources };
+};
+
+export const fuseBreedResults = (
+  views: MultiImageBreedResult[],
+  metadata?: Pick<BatchBreedAnalysisResult['analysisMetadata'], 'model' | 'promptVersion'>,
+  fusedAt: Date = new Date()
+): FusedBreedAnalysisResult => {
+  const usableViews = views.filter(view => usableBreeds(view).length > 0);
+  const analysisMetadata: FusedBreedAnalysisResult['analysisMetadata'] = {
+    timestamp: fusedAt.toISOString(),
+    analysisType: "multi-view-fusion",
+    viewCount: views.length,
+    usableViewCount: usableViews.length,
+    model: metadata?.model,
+    promptVersion: metadata?.promptVersion
+  };
+
+  if (usableViews.length === 0) {
+    return {
+      success: false,
+      candidates: [],
+      agreement: 'split',
+      traitSources: [],
+      views,
+      analysisMetadata,
+      error: 'None of the selected images produced a breed identification.'
+    };
+  }
+
+  const candidates = rankCandidates(usableViews);
+  const [winner, ...others] = candidates;
+  const { characteristics, sources } = pickTraits(usableViews, winner.species);
+
+  // The strongest single-view call for the winner supplies the descriptive text
+  const bestView = usableViews
+    .flatMap(view => usableBreeds(view).filter(breed => normalizeBreedName(breed.species) === winner.species))
+    .sort((a, b) => b.confidence - a.confidence)[0];
+
+  const alternatives = Array.from(new Set([
+    ...others.map(candidate => candidate.species),
+    ...usableViews.flatMap(view => usableBreeds(view).flatMap(breed => breed.metadata?.alternativePossibleBreeds ?? []))
+      .map(normalizeBreedName)
+  ])).filter(name => name !== winner.species);
+
+  return {
+    success: true,
+    breed: {
+      ...bestView,
+      species: winner.species,
+      breedId: winner.breedId,
+      confidence: winner.confidence,
+      breedCharacteristics: characteristics,
+      metadata: { ...bestView.metadata, alternativePossibleBreeds: alternatives }
+    },
+    candidates,
+    agreement: getAgreement(usableViews, winner.species),
+    traitSources: sources,
+    views,
+    analysisMetadata
+  };
+};
+
+// The merged verdict as an ordinary one-breed result, so history, review and export handle it like any image
+export const toFusedImageResult = (fused: FusedBreedAnalysisResult, fileName: string): MultiImageBreedResult => ({
+  imageIndex: 0,
+  fileName,
+  breeds: fused.breed ? [fused.breed] : [],
+  error: fused.error
+});
+
+// Views that disagree need a vet's look even when the combined confidence clears the threshold
+export const fusedResultRequiresReview = (fused: FusedBreedAnalysisResult): boolean =>
+  fused.agreement === 'split' || requiresReview(toFusedImageResult(fused, ''));
@@ -0,0 +1,435 @@
+import { BreedProfile } from '@/types/breedRegistry';
+
+// Reference profiles for the breed library, keyed by breed registry ID.
+// Yields are typical per-lactation ranges from organized herds; field figures vary widely.
+
+const BREED_PROFILES: BreedProfile[] = [
+  // Indigenous cattle
+  {
+    breedId: 'gir',
+    summary: 'One of the best-known Indian dairy breeds, native to the Gir forests of Saurashtra and widely exported to Brazil.',
+    traits: { body: 'Medium to large, deep-bodied frame', color: 'Red to speckled red and white, occasionally near-black', horns: 'Curled back and around from a prominent forehead, often described as half-moon', hump: 'Well developed', ears: 'Long, pendulous and folded like a leaf with a notch at the tip' },
+    production: { milkYield: '1,600–2,100 kg', milkFat: '4.5–4.7%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'sahiwal',
+    summary: 'Heat-tolerant, tick-resistant dairy breed regarded as the highest-yielding zebu breed on the subcontinent.',
+    traits: { body: 'Heavy, symmetrical body with loose skin', color: 'Reddish dun to pale red, sometimes with white patches', horns: 'Short and stumpy', hump: 'Massive in bulls, moderate in cows', ears: 'Medium, drooping' },
+    production: { milkYield: '2,000–2,700 kg', milkFat: '4.5–4.9%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'red-sindhi',
+    summary: 'Compact dairy breed from Sindh, maintained in India mainly in organized herds and used widely in crossbreeding.',
+    traits: { body: 'Compact, rounded body', color: 'Deep dark red, shading darker on the face and extremities in bulls', horns: 'Thick at the base, curving outward and up', hump: 'Well developed', ears: 'Medium, slightly drooping' },
+    production: { milkYield: '1,100–2,600 kg', milkFat: '4.5–5%' },
+    conservationStatus: 'vulnerable',
+    conservationNotes: 'Few purebred herds remain in India.'
+  },
+  {
+    breedId: 'tharparkar',
+    summary: 'Hardy dual-purpose breed of the Thar desert that does well on sparse grazing and in drought.',
+    traits: { body: 'Medium, strong frame', color: 'White to light grey, darker grey on the forequarters in bulls', horns: 'Medium, curving up and outward', hump: 'Moderate', ears: 'Medium, slightly drooping' },
+    production: { milkYield: '1,700–2,500 kg', milkFat: '4.5–5%', draught: 'Bullocks used for ploughing and carting' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'kankrej',
+    summary: 'Large, powerful dual-purpose breed from the Rann of Kutch region, known for its gait and draught power.',
+    traits: { body: 'Large, heavy frame with a broad chest', color: 'Silver grey to iron grey, darker on the forequarters', horns: 'Large, lyre-shaped and covered with skin well up the horn', hump: 'Well developed', ears: 'Large, pendulous and open' },
+    production: { milkYield: '1,300–1,800 kg', milkFat: '4.8%', draught: 'Among the best draught breeds; fast, powerful walkers' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'ongole',
+    summary: 'Massive breed from coastal Andhra Pradesh, prized for draught and exported worldwide as the foundation of the Brahman.',
+    traits: { body: 'Very large, muscular body with long legs', color: 'Glossy white; bulls have dark grey head, neck and hump', horns: 'Short and stumpy', hump: 'Large, erect', ears: 'Moderately long, slightly drooping' },
+    production: { milkYield: '800–1,000 kg', milkFat: '5%', draught: 'Heavy draught; used for ploughing and carting' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'krishna-valley',
+    summary: 'Large draught breed developed along the Krishna river basin for heavy black-soil cultivation.',
+    traits: { body: 'Massive, deep body with short legs', color: 'Grey-white; bulls darker on the forequarters', horns: 'Small, curved outward and up', hump: 'Moderate', ears: 'Small, pointed' },
+    production: { milkYield: '900 kg', draught: 'Heavy ploughing in black cotton soil' },
+    conservationStatus: 'endangered',
+    conservationNotes: 'Population has declined sharply with mechanization.'
+  },
+  {
+    breedId: 'hariana',
+    summary: 'Dual-purpose breed of the Haryana plains, with cows that milk well and bullocks used for road and field work.',
+    traits: { body: 'Medium to large, compact body', color: 'White to light grey', horns: 'Short and stumpy', hump: 'Medium in cows, large in bulls', ears: 'Small, slightly drooping' },
+    production: { milkYield: '1,000–1,400 kg', milkFat: '4.4%', draught: 'Good road and field draught' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'amritmahal',
+    summary: 'Mysore draught breed developed for military transport, known for endurance and speed.',
+    traits: { body: 'Compact, muscular body with a narrow face', color: 'Grey, ranging from white to near black', horns: 'Long, upswept and pointed, emerging close together', hump: 'Well developed', ears: 'Small, horizontal' },
+    production: { draught: 'Fast, enduring draught and transport animal' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'hallikar',
+    summary: 'Mysore-type draught breed from southern Karnataka and ancestor of several southern breeds.',
+    traits: { body: 'Medium, compact and muscular', color: 'Grey to dark grey with darker shading on the forequarters', horns: 'Long, backward-curving and pointed', hump: 'Moderate', ears: 'Small, tapering' },
+    production: { draught: 'Strong, fast draught animal' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'kangayam',
+    summary: 'Strong draught breed from the Kongu region of Tamil Nadu, adapted to hot, dry grazing land.',
+    traits: { body: 'Medium, compact with strong legs', color: 'Grey to white; bulls darker on head, hump and hindquarters; calves are born red', horns: 'Strong, curving outward and back', hump: 'Well developed in bulls', ears: 'Small, erect' },
+    production: { milkYield: '540–1,000 kg', draught: 'Ploughing and carting' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'pulikulam',
+    summary: 'Small, active breed from southern Tamil Nadu, reared in migratory herds and used in Jallikattu.',
+    traits: { body: 'Small, compact and agile', color: 'Grey to dark grey; bulls almost black', horns: 'Medium, curving outward and back', hump: 'Well developed in bulls', ears: 'Small' },
+    production: { draught: 'Light draught and penning for manure' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'vechur',
+    summary: 'One of the smallest cattle breeds in the world, native to Kerala, valued for low-input milk production.',
+    traits: { body: 'Very small, under about 90 cm at the withers', color: 'Light red, black or fawn', horns: 'Small, thin and curving forward', hump: 'Small', ears: 'Small' },
+    production: { milkYield: '400–600 kg', milkFat: '4.7–5%' },
+    conservationStatus: 'critical',
+    conservationNotes: 'Revived through a conservation programme after near extinction.'
+  },
+  {
+    breedId: 'punganur',
+    summary: 'Dwarf breed from Chittoor district of Andhra Pradesh, known for rich milk from a very small animal.',
+    traits: { body: 'Dwarf, about 70–90 cm at the withers', color: 'White to grey, sometimes light brown or black patches', horns: 'Short, crescent-shaped and curving back', hump: 'Small', ears: 'Small' },
+    production: { milkYield: '500–550 kg', milkFat: 'Up to 8%' },
+    conservationStatus: 'critical'
+  },
+  {
+    breedId: 'kasargod',
+    summary: 'Dwarf cattle of northern Kerala kept on small holdings for milk, manure and light work.',
+    traits: { body: 'Dwarf, compact', color: 'Predominantly black, also brown or red', horns: 'Small, curving outward', hump: 'Small', ears: 'Small, horizontal' },
+    production: { milkYield: '400–600 kg' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'bargur',
+    summary: 'Fiery, fast draught breed from the Bargur hills of Erode district, suited to hilly terrain.',
+    traits: { body: 'Medium, compact and agile', color: 'Red and white patches, occasionally plain red or white', horns: 'Light brown, curving backward and outward', hump: 'Moderate', ears: 'Small, pointed' },
+    production: { draught: 'Trotting and hill-terrain draught' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'malnad-gidda',
+    summary: 'Small hill cattle of the Western Ghats in Karnataka that forage in forest and need little feed.',
+    traits: { body: 'Small, short-legged', color: 'Black, brown or red, often solid', horns: 'Small, thin and pointed', hump: 'Small', ears: 'Small' },
+    production: { milkYield: '200–300 kg' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'bachaur',
+    summary: 'Draught breed of north Bihar, similar to Hariana, used for ploughing and carting.',
+    traits: { body: 'Compact, medium-sized with a deep chest', color: 'Grey to grey-white', horns: 'Stumpy, curving outward', hump: 'Medium', ears: 'Medium, pendulous' },
+    production: { milkYield: '350–550 kg', draught: 'Sturdy, tireless draught animal' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'gangatiri',
+    summary: 'Dual-purpose breed of the Ganga plains in eastern Uttar Pradesh and Bihar.',
+    traits: { body: 'Medium, compact', color: 'White to grey', horns: 'Short to medium, curving outward and up', hump: 'Medium', ears: 'Medium, drooping' },
+    production: { milkYield: '900–1,200 kg', milkFat: '4.9%', draught: 'Bullocks used for field work' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'siri',
+    summary: 'Hill cattle of Sikkim and the Darjeeling hills, adapted to cold mountain conditions.',
+    traits: { body: 'Heavy, compact with a thick coat', color: 'Black and white or red and white', horns: 'Medium, curving outward and forward', hump: 'Well developed', ears: 'Medium' },
+    production: { draught: 'Ploughing on hill terraces' },
+    conservationStatus: 'endangered'
+  },
+  {
+    breedId: 'kherigarh',
+    summary: 'Active light draught breed from Lakhimpur Kheri in Uttar Pradesh.',
+    traits: { body: 'Light, active frame', color: 'White to grey', horns: 'Upstanding, thin and curving outward', hump: 'Small', ears: 'Small' },
+    production: { milkYield: '300–500 kg', draught: 'Quick light draught' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'mewati',
+    summary: 'Sturdy draught breed of the Mewat region shared by Rajasthan, Haryana and Uttar Pradesh.',
+    traits: { body: 'Medium, sturdy with a long face', color: 'White with darker head, neck and quarters', horns: 'Medium, pointing outward and backward', hump: 'Moderate', ears: 'Slightly drooping' },
+    production: { milkYield: '700–900 kg', draught: 'Heavy ploughing and carting' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'nimari',
+    summary: 'Draught breed of the Narmada valley in Madhya Pradesh with Gir and Khillar ancestry.',
+    traits: { body: 'Medium, active and fiery', color: 'Red with large white patches', horns: 'Curving up and back from a prominent forehead', hump: 'Moderate', ears: 'Broad, slightly drooping' },
+    production: { milkYield: '600–800 kg', draught: 'Active field draught' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'dangi',
+    summary: 'Heavy-rainfall hill breed of the Western Ghats with oily skin that sheds water.',
+    traits: { body: 'Medium, strong and short-legged', color: 'White with black or red spots', horns: 'Short, thick at the base', hump: 'Moderate', ears: 'Small' },
+    production: { milkYield: '430–550 kg', draught: 'Paddy field work in heavy rain' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'deoni',
+    summary: 'Dual-purpose breed of the Marathwada region with Gir ancestry.',
+    traits: { body: 'Medium to large, well-muscled', color: 'Spotted black and white, or white with black shading', horns: 'Emerging from the sides of the poll, curving outward and back', hump: 'Well developed in bulls', ears: 'Long, drooping' },
+    production: { milkYield: '870–1,230 kg', milkFat: '4.3%', draught: 'Bullocks used for heavy work' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'khillar',
+    summary: 'Mysore-type draught breed of southern Maharashtra known for speed and stamina.',
+    traits: { body: 'Compact, tight-skinned and cylindrical', color: 'Greyish white; some strains grey or tapkir', horns: 'Long, pointed, curving backward then upward', hump: 'Moderate', ears: 'Small, pointed' },
+    production: { draught: 'Fast draught and carting' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'gaolao',
+    summary: 'Light draught and milch breed of the Wardha region, often confused with Hariana-type cattle.',
+    traits: { body: 'Medium, light and long-legged', color: 'White to light grey', horns: 'Short, stumpy', hump: 'Moderate', ears: 'Medium' },
+    production: { milkYield: '470–725 kg', draught: 'Quick, light draught' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'lakhimi',
+    summary: 'Small native cattle of Assam kept for milk, draught and manure.',
+    traits: { body: 'Small, compact', color: 'Red, brown or black', horns: 'Small', hump: 'Small', ears: 'Small, horizontal' },
+    production: { milkYield: 'About 500 kg', draught: 'Light field work' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'bhagnari',
+    summary: 'Large draught breed from the Kachhi plains of Balochistan, found in small numbers in northwestern India.',
+    traits: { body: 'Large, powerful', color: 'White to grey, darker on the neck and quarters', horns: 'Short, stumpy', hump: 'Medium', ears: 'Small' },
+    production: { draught: 'Heavy draught' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'rathi',
+    summary: 'Dairy breed of the arid Bikaner region of Rajasthan that performs well under desert conditions.',
+    traits: { body: 'Medium, symmetrical', color: 'Brown with white patches; sometimes black or red with white', horns: 'Short to medium, curving outward and up', hump: 'Moderate', ears: 'Medium, drooping' },
+    production: { milkYield: '1,060–2,800 kg', milkFat: '4.5%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'nagori',
+    summary: 'Fast-trotting draught breed from the Nagaur district of Rajasthan.',
+    traits: { body: 'Long, light and active', color: 'White to light grey', horns: 'Medium, curving outward', hump: 'Medium', ears: 'Medium, drooping' },
+    production: { milkYield: '600–900 kg', draught: 'Fast road draught' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'alambadi',
+    summary: 'Hill draught breed from Dharmapuri and the Kaveri basin of Tamil Nadu.',
+    traits: { body: 'Medium, strong', color: 'Dark grey to black, sometimes with white patches', horns: 'Long, curving backward and up', hump: 'Medium', ears: 'Small' },
+    production: { draught: 'Hill draught' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'umblachery',
+    summary: 'Draught breed of the Cauvery delta suited to marshy paddy fields.',
+    traits: { body: 'Medium, short and stocky', color: 'Grey with white markings on face, legs and tail; calves born red', horns: 'Small, often dehorned by owners', hump: 'Moderate', ears: 'Short' },
+    production: { milkYield: '400–500 kg', draught: 'Work in waterlogged paddy fields' },
+    conservationStatus: 'vulnerable'
+  },
+
+  // Exotic dairy cattle
+  {
+    breedId: 'holstein-friesian',
+    summary: 'The world\'s highest-yielding dairy breed, used in India mainly for crossbreeding with indigenous cattle.',
+    traits: { body: 'Large, angular dairy frame with a large udder', color: 'Black and white, occasionally red and white, in sharp patches', horns: 'Short, curving forward; often dehorned', hump: 'Absent', ears: 'Medium, horizontal' },
+    production: { milkYield: '5,000–7,000 kg in India', milkFat: '3.5%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'jersey',
+    summary: 'Small dairy breed from the Channel Islands with high-fat milk, widely used in Indian crossbreeding.',
+    traits: { body: 'Small, fine-boned with a dished face', color: 'Fawn to dark brown, often with a lighter muzzle ring', horns: 'Small, curving forward; often dehorned', hump: 'Absent', ears: 'Medium, horizontal' },
+    production: { milkYield: '3,000–4,500 kg in India', milkFat: '5%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'brown-swiss',
+    summary: 'Large Alpine dairy breed used in the Karan Swiss crossbred programme.',
+    traits: { body: 'Large, sturdy with strong legs', color: 'Solid grey-brown with a creamy muzzle ring', horns: 'Medium, curving forward; often dehorned', hump: 'Absent', ears: 'Large, fluffy' },
+    production: { milkYield: '4,000–6,000 kg', milkFat: '4%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'ayrshire',
+    summary: 'Hardy Scottish dairy breed, found in India mainly in crossbred herds.',
+    traits: { body: 'Medium, well-balanced dairy frame', color: 'Red-brown and white patches', horns: 'Long, lyre-shaped; often dehorned', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '4,000–5,500 kg', milkFat: '4%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'red-dane',
+    summary: 'Danish red dairy breed used in Indian crossbreeding programmes.',
+    traits: { body: 'Large, deep dairy frame', color: 'Solid red to dark red-brown', horns: 'Short; often dehorned', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '4,000–5,500 kg', milkFat: '4.2%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'guernsey',
+    summary: 'Channel Islands dairy breed known for golden, high-fat milk.',
+    traits: { body: 'Medium, fine dairy frame', color: 'Fawn or red and white', horns: 'Medium, curving; often dehorned', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '3,500–4,500 kg', milkFat: '4.5–5%' },
+    conservationStatus: 'not assessed'
+  },
+
+  // Indian crossbreds
+  {
+    breedId: 'karan-fries',
+    summary: 'Crossbred developed at NDRI Karnal from Tharparkar and Holstein Friesian.',
+    traits: { body: 'Large dairy frame', color: 'Black and white patches, some with the grey of Tharparkar', horns: 'Short', hump: 'Small or absent', ears: 'Medium' },
+    production: { milkYield: '3,000–3,700 kg', milkFat: '4%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'karan-swiss',
+    summary: 'Crossbred developed at NDRI Karnal from Sahiwal or Red Sindhi and Brown Swiss.',
+    traits: { body: 'Medium to large dairy frame', color: 'Grey-brown to dun', horns: 'Short', hump: 'Small', ears: 'Medium, slightly drooping' },
+    production: { milkYield: '3,000–3,300 kg', milkFat: '4.5%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'frieswal',
+    summary: 'National dairy crossbred combining Holstein Friesian and Sahiwal, developed with military dairy farms.',
+    traits: { body: 'Large dairy frame', color: 'Black and white or brown and white patches', horns: 'Short', hump: 'Small or absent', ears: 'Medium' },
+    production: { milkYield: '3,000–4,000 kg', milkFat: '4%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'sunandini',
+    summary: 'Kerala crossbred from local cattle with Jersey, Brown Swiss and Holstein Friesian.',
+    traits: { body: 'Medium dairy frame', color: 'Fawn, brown or black and white', horns: 'Short', hump: 'Small or absent', ears: 'Medium' },
+    production: { milkYield: '2,500–3,000 kg', milkFat: '4%' },
+    conservationStatus: 'not assessed'
+  },
+
+  // Indigenous buffalo
+  {
+    breedId: 'murrah',
+    summary: 'The most important dairy buffalo in India and the breed most used to upgrade non-descript buffaloes.',
+    traits: { body: 'Massive, deep body with a short neck', color: 'Jet black, often with white markings on the tail switch or face', horns: 'Short, tightly curled spiral', hump: 'Absent', ears: 'Small, thin' },
+    production: { milkYield: '1,750–2,700 kg', milkFat: '7%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'mehsana',
+    summary: 'Dairy buffalo of north Gujarat, thought to derive from Murrah and Surti crosses.',
+    traits: { body: 'Medium to large, longer body than Murrah', color: 'Black to grey-black, sometimes with white markings', horns: 'Sickle-shaped, less curved than Murrah', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,200–3,500 kg', milkFat: '6.6%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'surti',
+    summary: 'Medium-sized dairy buffalo of central Gujarat with very high-fat milk.',
+    traits: { body: 'Medium, wedge-shaped with a straight back', color: 'Black or brown with two white collars (chevrons) at the jaw and brisket', horns: 'Sickle-shaped, flat, curving down and back', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,600–1,800 kg', milkFat: '7.5–8%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'jaffarabadi',
+    summary: 'The heaviest Indian buffalo, from the Gir forest area of Saurashtra.',
+    traits: { body: 'Very large, massive with a prominent forehead', color: 'Black', horns: 'Heavy, broad, drooping on each side of the neck and curving up at the tips', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,800–2,700 kg', milkFat: '8.5%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'nili-ravi',
+    summary: 'Dairy buffalo of the Sutlej and Ravi valleys known for its wall eyes and white markings.',
+    traits: { body: 'Large, deep body', color: 'Black with white markings on the forehead, face, muzzle, legs and tail switch ("panch kalyan")', horns: 'Small, tightly coiled', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,600–2,300 kg', milkFat: '6.8%' },
+    conservationStatus: 'vulnerable',
+    conservationNotes: 'Small purebred population in India.'
+  },
+  {
+    breedId: 'pandharpuri',
+    summary: 'Dairy buffalo of Solapur and Kolhapur known for its exceptionally long horns.',
+    traits: { body: 'Medium, long and narrow face', color: 'Black, sometimes with white patches on face and legs', horns: 'Very long, sword-shaped, extending backward past the shoulders', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,400–1,800 kg', milkFat: '8%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'nagpuri',
+    summary: 'Dual-purpose buffalo of the Vidarbha region, used for milk and heavy draught.',
+    traits: { body: 'Medium, light-boned', color: 'Black, often with white patches on face, legs and tail', horns: 'Long, flat and curved, reaching the shoulders', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '700–1,200 kg', milkFat: '7.7%', draught: 'Males used for heavy draught' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'toda',
+    summary: 'Semi-wild buffalo of the Nilgiri hills, central to the culture of the Toda people.',
+    traits: { body: 'Medium, long with a thick hair coat', color: 'Fawn to ash grey', horns: 'Long, set wide apart, curving inward and outward in a crescent', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '500 kg', milkFat: '8%' },
+    conservationStatus: 'endangered'
+  },
+  {
+    breedId: 'banni',
+    summary: 'Hardy dairy buffalo of the Banni grasslands of Kutch, reared by Maldhari pastoralists.',
+    traits: { body: 'Medium to large, wedge-shaped', color: 'Black, occasionally copper', horns: 'Vertical, upward-curving double coil', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '2,500–3,500 kg', milkFat: '6.6%' },
+    conservationStatus: 'not at risk'
+  },
+  {
+    breedId: 'marathwadi',
+    summary: 'Dual-purpose buffalo of the Marathwada region, tolerant of drought and poor fodder.',
+    traits: { body: 'Medium, compact', color: 'Black, sometimes with white patches on face and legs', horns: 'Long, flat, running back alongside the neck to the shoulders', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '900–1,400 kg', milkFat: '8%', draught: 'Males used for field work' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'kalahandi',
+    summary: 'Dual-purpose buffalo of the Kalahandi and Rayagada districts of Odisha.',
+    traits: { body: 'Medium, strong', color: 'Grey to greyish black', horns: 'Long, curving back and then upward', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '700–1,000 kg', milkFat: '7%', draught: 'Used for ploughing' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'sambalpuri',
+    summary: 'Dual-purpose buffalo of western Odisha used for milk and paddy cultivation.',
+    traits: { body: 'Medium to large', color: 'Black to grey-black', horns: 'Medium, curving back and upward in a semicircle', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,000–2,000 kg', milkFat: '7%', draught: 'Paddy field work' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'chilika',
+    summary: 'Buffalo of the Chilika lake region that grazes in brackish water and salt-tolerant vegetation.',
+    traits: { body: 'Medium, compact', color: 'Brownish black to grey', horns: 'Medium, curving backward, inward and up', hump: 'Absent', ears: 'Small' },
+    production: { milkYield: '400–600 kg', milkFat: '7–8%', draught: 'Used for work around the lake' },
+    conservationStatus: 'vulnerable'
+  },
+  {
+    breedId: 'dharwadi',
+    summary: 'Dairy buffalo of north Karnataka, the main source of milk for the Dharwad pedha industry.',
+    traits: { body: 'Small to medium, compact', color: 'Black', horns: 'Medium, curving back and up like Pandharpuri but shorter', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '900–1,100 kg', milkFat: '7%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'godavari',
+    summary: 'Buffalo of the Godavari and Krishna delta developed from local stock crossed with Murrah.',
+    traits: { body: 'Medium, compact', color: 'Black with brownish tinge, sparse hair', horns: 'Medium, curving backward and slightly upward', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '1,200–1,500 kg', milkFat: '8%' },
+    conservationStatus: 'not assessed'
+  },
+  {
+    breedId: 'bhadawari',
+    summary: 'Buffalo of the Chambal and Yamuna ravines with the highest milk fat of any Indian breed.',
+    traits: { body: 'Medium, wedge-shaped with short legs', color: 'Light copper to brown, with white chevrons below the jaw', horns: 'Flat, curving back and then upward along the neck', hump: 'Absent', ears: 'Medium' },
+    production: { milkYield: '750–880 kg', milkFat: '8–13%' },
+    conservationStatus: 'vulnerable'
+  }
+];
+
+const profilesById = new Map(BREED_PROFILES.map(profile => [profile.breedId, profile]));
+
+export const getBreedProfile = (breedId: string): BreedProfile | undefined => profilesById.get(breedId);
@@ -0,0 +1,56 @@
+// Ranked top-k breed candidates with their confidences turned into one probability distribution
+import {
+  BreedRanking,
+  MultiImageBreedResult,
+  RankedBreedCandidate,
+  StandardizedBreedIdentification
+} from '@/types/breedIdentification';
+import { findBreed, normalizeBreedName } from '@/lib/breedRegistry';
+
+// How many candidates the model is asked for and the ranking keeps
+export const BREED_RANKING_SIZE = 3;
+
+// Top two within 15 points of probability are flagged as uncertain
+export const UNCERTAIN_PROBABILITY_MARGIN = 0.15;
+
+// The model is asked for confidences that add up to at most 100. Whatever they leave over goes to
+// "other", so a lone 60% candidate stays 60% instead of being inflated to certainty; lists that
+// overshoot 100 are scaled down
+export const rankBreeds = (
+  breeds: StandardizedBreedIdentification[],
+  size: number = BREED_RANKING_SIZE
+): BreedRanking => {
+  const bySpecies = new Map<string, RankedBreedCandidate>();
+  breeds
+    .filter(breed => breed.species && !breed.error)
+    .forEach(breed => {
+      const species = normalizeBreedName(breed.species);
+      const existing = bySpecies.get(species);
+      if (!existing || breed.confidence > existing.confidence) {
+        bySpecies.set(species, { species, breedId: breed.breedId ?? findBreed(species)?.id, confidence: breed.confidence, probability: 0 });
+      }
+    });
+
+  const ranked = Array.from(bySpecies.values())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, size);
+  const total = Math.max(100, ranked.reduce((sum, candidate) => sum + candidate.confidence, 0));
+  const candidates = ranked.map(candidate => ({ ...candidate, probability: candidate.confidence / total }));
+
+  const otherProbability = Math.max(0, 1 - candidates.reduce((sum, candidate) => sum + candidate.probability, 0));
+  const [first, second] = candidates;
+  const margin = first ? first.probability - (second?.probability ?? 0) : 0;
+
+  return {
+    candidates,
+    otherProbability,
+    margin,
+    uncertain: !!second && margin < UNCERTAIN_PROBABILITY_MARGIN
+  };
+};
+
+// History saved before rankings existed gets one computed from its breeds
+export const getBreedRanking = (result: Pick<MultiImageBreedResult, 'breeds' | 'ranking'>): BreedRanking =>
+  result.ranking ?? rankBreeds(result.breeds);
+
+export const formatProbability = (probability: number): string => `${Math.round(probability * 100)}%`;
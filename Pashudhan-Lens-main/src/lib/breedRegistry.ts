@@ -0,0 +1,144 @@
+import { BreedOrigin, BreedRecord, BreedSpecies, BreedUtility } from '@/types/breedRegistry';
+
+// Canonical list of breeds the app can identify.
+// Synonyms must stay unique across the registry so every spelling resolves to exactly one record.
+
+export const BREED_REGISTRY: readonly BreedRecord[] = [
+  // Indigenous cattle
+  { id: 'gir', name: 'Gir', species: 'cattle', origin: 'indigenous', nativeStates: ['Gujarat'], synonyms: ['Bhodali', 'Desan', 'Kathiawari', 'Sorthi', 'Surati'], utility: 'dairy' },
+  { id: 'sahiwal', name: 'Sahiwal', species: 'cattle', origin: 'indigenous', nativeStates: ['Punjab', 'Haryana', 'Rajasthan'], synonyms: ['Lola', 'Lambi Bar', 'Montgomery', 'Multani', 'Teli'], utility: 'dairy' },
+  { id: 'red-sindhi', name: 'Red Sindhi', species: 'cattle', origin: 'indigenous', nativeStates: ['Sindh (Pakistan)'], synonyms: ['Malir', 'Red Karachi', 'Sindhi'], utility: 'dairy' },
+  { id: 'tharparkar', name: 'Tharparkar', species: 'cattle', origin: 'indigenous', nativeStates: ['Rajasthan'], synonyms: ['White Sindhi', 'Grey Sindhi', 'Thari'], utility: 'dual' },
+  { id: 'kankrej', name: 'Kankrej', species: 'cattle', origin: 'indigenous', nativeStates: ['Gujarat', 'Rajasthan'], synonyms: ['Wadhiyar', 'Wadhiar', 'Vadhiyar', 'Waged', 'Wagadia', 'Bonnai', 'Nagar'], utility: 'dual' },
+  { id: 'ongole', name: 'Ongole', species: 'cattle', origin: 'indigenous', nativeStates: ['Andhra Pradesh'], synonyms: ['Nellore'], utility: 'dual' },
+  { id: 'krishna-valley', name: 'Krishna Valley', species: 'cattle', origin: 'indigenous', nativeStates: ['Karnataka', 'Maharashtra'], synonyms: [], utility: 'draught' },
+  { id: 'hariana', name: 'Hariana', species: 'cattle', origin: 'indigenous', nativeStates: ['Haryana'], synonyms: ['Haryana', 'Haryanvi'], utility: 'dual' },
+  { id: 'amritmahal', name: 'Amritmahal', species: 'cattle', origin: 'indigenous', nativeStates: ['Karnataka'], synonyms: ['Amrit Mahal'], utility: 'draught' },
+  { id: 'hallikar', name: 'Hallikar', species: 'cattle', origin: 'indigenous', nativeStates: ['Karnataka'], synonyms: [], utility: 'draught' },
+  { id: 'kangayam', name: 'Kangayam', species: 'cattle', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: ['Kangeyam', 'Kongu'], utility: 'draught' },
+  { id: 'pulikulam', name: 'Pulikulam', species: 'cattle', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: ['Jallikattu', 'Mattu'], utility: 'draught' },
+  { id: 'vechur', name: 'Vechur', species: 'cattle', origin: 'indigenous', nativeStates: ['Kerala'], synonyms: [], utility: 'dairy' },
+  { id: 'punganur', name: 'Punganur', species: 'cattle', origin: 'indigenous', nativeStates: ['Andhra Pradesh'], synonyms: [], utility: 'dairy' },
+  { id: 'kasargod', name: 'Kasargod', species: 'cattle', origin: 'indigenous', nativeStates: ['Kerala'], synonyms: ['Kasaragod', 'Kasaragod Dwarf'], utility: 'dual' },
+  { id: 'bargur', name: 'Bargur', species: 'cattle', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: [], utility: 'draught' },
+  { id: 'malnad-gidda', name: 'Malnad Gidda', species: 'cattle', origin: 'indigenous', nativeStates: ['Karnataka'], synonyms: ['Malenadu Gidda'], utility: 'dual' },
+  { id: 'bachaur', name: 'Bachaur', species: 'cattle', origin: 'indigenous', nativeStates: ['Bihar'], synonyms: [], utility: 'draught' },
+  { id: 'gangatiri', name: 'Gangatiri', species: 'cattle', origin: 'indigenous', nativeStates: ['Uttar Pradesh', 'Bihar'], synonyms: ['Eastern Hariana', 'Shahabadi'], utility: 'dual' },
+  { id: 'siri', name: 'Siri', species: 'cattle', origin: 'indigenous', nativeStates: ['Sikkim', 'West Bengal'], synonyms: [], utility: 'draught' },
+  { id: 'kherigarh', name: 'Kherigarh', species: 'cattle', origin: 'indigenous', nativeStates: ['Uttar Pradesh'], synonyms: ['Khiri'], utility: 'draught' },
+  { id: 'mewati', name: 'Mewati', species: 'cattle', origin: 'indigenous', nativeStates: ['Rajasthan', 'Haryana', 'Uttar Pradesh'], synonyms: ['Kosi'], utility: 'draught' },
+  { id: 'nimari', name: 'Nimari', species: 'cattle', origin: 'indigenous', nativeStates: ['Madhya Pradesh'], synonyms: [], utility: 'draught' },
+  { id: 'dangi', name: 'Dangi', species: 'cattle', origin: 'indigenous', nativeStates: ['Maharashtra', 'Gujarat'], synonyms: [], utility: 'draught' },
+  { id: 'deoni', name: 'Deoni', species: 'cattle', origin: 'indigenous', nativeStates: ['Maharashtra', 'Karnataka'], synonyms: ['Dongarpati', 'Dongari'], utility: 'dual' },
+  { id: 'khillar', name: 'Khillar', species: 'cattle', origin: 'indigenous', nativeStates: ['Maharashtra', 'Karnataka'], synonyms: ['Khillari', 'Mandeshi'], utility: 'draught' },
+  { id: 'gaolao', name: 'Gaolao', species: 'cattle', origin: 'indigenous', nativeStates: ['Maharashtra', 'Madhya Pradesh'], synonyms: ['Arvi'], utility: 'draught' },
+  { id: 'lakhimi', name: 'Lakhimi', species: 'cattle', origin: 'indigenous', nativeStates: ['Assam'], synonyms: [], utility: 'dual' },
+  { id: 'bhagnari', name: 'Bhagnari', species: 'cattle', origin: 'indigenous', nativeStates: ['Balochistan (Pakistan)'], synonyms: [], utility: 'draught' },
+  { id: 'rathi', name: 'Rathi', species: 'cattle', origin: 'indigenous', nativeStates: ['Rajasthan'], synonyms: [], utility: 'dairy' },
+  { id: 'nagori', name: 'Nagori', species: 'cattle', origin: 'indigenous', nativeStates: ['Rajasthan'], synonyms: [], utility: 'draught' },
+  { id: 'alambadi', name: 'Alambadi', species: 'cattle', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: [], utility: 'draught' },
+  { id: 'umblachery', name: 'Umblachery', species: 'cattle', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: ['Jathi Madu', 'Mottai Madu', 'Therkuthi Madu'], utility: 'draught' },
+
+  // Exotic dairy cattle common in Indian herds
+  { id: 'holstein-friesian', name: 'Holstein Friesian', species: 'cattle', origin: 'exotic', nativeStates: ['Netherlands'], synonyms: ['HF', 'Holstein', 'Friesian'], utility: 'dairy' },
+  { id: 'jersey', name: 'Jersey', species: 'cattle', origin: 'exotic', nativeStates: ['Jersey (Channel Islands)'], synonyms: [], utility: 'dairy' },
+  { id: 'brown-swiss', name: 'Brown Swiss', species: 'cattle', origin: 'exotic', nativeStates: ['Switzerland'], synonyms: [], utility: 'dairy' },
+  { id: 'ayrshire', name: 'Ayrshire', species: 'cattle', origin: 'exotic', nativeStates: ['Scotland'], synonyms: [], utility: 'dairy' },
+  { id: 'red-dane', name: 'Red Dane', species: 'cattle', origin: 'exotic', nativeStates: ['Denmark'], synonyms: ['Red Danish'], utility: 'dairy' },
+  { id: 'guernsey', name: 'Guernsey', species: 'cattle', origin: 'exotic', nativeStates: ['Guernsey (Channel Islands)'], synonyms: [], utility: 'dairy' },
+
+  // Indian crossbreds developed from exotic and indigenous stock
+  { id: 'karan-fries', name: 'Karan Fries', species: 'cattle', origin: 'crossbred', nativeStates: ['Haryana'], synonyms: [], utility: 'dairy' },
+  { id: 'karan-swiss', name: 'Karan Swiss', species: 'cattle', origin: 'crossbred', nativeStates: ['Haryana'], synonyms: [], utility: 'dairy' },
+  { id: 'frieswal', name: 'Frieswal', species: 'cattle', origin: 'crossbred', nativeStates: ['Uttar Pradesh'], synonyms: [], utility: 'dairy' },
+  { id: 'sunandini', name: 'Sunandini', species: 'cattle', origin: 'crossbred', nativeStates: ['Kerala'], synonyms: [], utility: 'dairy' },
+
+  // Indigenous buffalo
+  { id: 'murrah', name: 'Murrah', species: 'buffalo', origin: 'indigenous', nativeStates: ['Haryana', 'Punjab'], synonyms: ['Delhi', 'Kundi', 'Kali'], utility: 'dairy' },
+  { id: 'mehsana', name: 'Mehsana', species: 'buffalo', origin: 'indigenous', nativeStates: ['Gujarat'], synonyms: ['Mehsani'], utility: 'dairy' },
+  { id: 'surti', name: 'Surti', species: 'buffalo', origin: 'indigenous', nativeStates: ['Gujarat'], synonyms: ['Deccani', 'Charotar', 'Nadiadi'], utility: 'dairy' },
+  { id: 'jaffarabadi', name: 'Jaffarabadi', species: 'buffalo', origin: 'indigenous', nativeStates: ['Gujarat'], synonyms: ['Jafarabadi', 'Jaffari', 'Gir Buffalo'], utility: 'dairy' },
+  { id: 'nili-ravi', name: 'Nili-Ravi', species: 'buffalo', origin: 'indigenous', nativeStates: ['Punjab'], synonyms: ['Nili', 'Ravi', 'Panch Kalyan'], utility: 'dairy' },
+  { id: 'pandharpuri', name: 'Pandharpuri', species: 'buffalo', origin: 'indigenous', nativeStates: ['Maharashtra'], synonyms: [], utility: 'dairy' },
+  { id: 'nagpuri', name: 'Nagpuri', species: 'buffalo', origin: 'indigenous', nativeStates: ['Maharashtra'], synonyms: ['Ellichpuri', 'Berari', 'Gaolani', 'Varhadi'], utility: 'dual' },
+  { id: 'toda', name: 'Toda', species: 'buffalo', origin: 'indigenous', nativeStates: ['Tamil Nadu'], synonyms: [], utility: 'dairy' },
+  { id: 'banni', name: 'Banni', species: 'buffalo', origin: 'indigenous', nativeStates: ['Gujarat'], synonyms: ['Kutchi'], utility: 'dairy' },
+  { id: 'marathwadi', name: 'Marathwadi', species: 'buffalo', origin: 'indigenous', nativeStates: ['Maharashtra'], synonyms: ['Dudhana Thadi'], utility: 'dual' },
+  { id: 'kalahandi', name: 'Kalahandi', species: 'buffalo', origin: 'indigenous', nativeStates: ['Odisha'], synonyms: ['Peddakimedi'], utility: 'dual' },
+  { id: 'sambalpuri', name: 'Sambalpuri', species: 'buffalo', origin: 'indigenous', nativeStates: ['Odisha'], synonyms: [], utility: 'dual' },
+  { id: 'chilika', name: 'Chilika', species: 'buffalo', origin: 'indigenous', nativeStates: ['Odisha'], synonyms: ['Chilka'], utility: 'dual' },
+  { id: 'dharwadi', name: 'Dharwadi', species: 'buffalo', origin: 'indigenous', nativeStates: ['Karnataka'], synonyms: ['Dharwari'], utility: 'dairy' },
+  { id: 'godavari', name: 'Godavari', species: 'buffalo', origin: 'indigenous', nativeStates: ['Andhra Pradesh'], synonyms: [], utility: 'dairy' },
+  { id: 'bhadawari', name: 'Bhadawari', species: 'buffalo', origin: 'indigenous', nativeStates: ['Uttar Pradesh', 'Madhya Pradesh'], synonyms: [], utility: 'dairy' }
+];
+
+export const BREED_SPECIES_LABELS: Record<BreedSpecies, string> = {
+  cattle: 'Cattle',
+  buffalo: 'Buffalo'
+};
+
+export const BREED_ORIGIN_LABELS: Record<BreedOrigin, string> = {
+  indigenous: 'Indigenous',
+  crossbred: 'Crossbred',
+  exotic: 'Exotic'
+};
+
+export const BREED_UTILITY_LABELS: Record<BreedUtility, string> = {
+  dairy: 'Dairy',
+  draught: 'Draught',
+  dual: 'Dual purpose'
+};
+
+// "Nili Ravi", "Nili-Ravi" and "niliravi" share one key
+export const toBreedKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+
+// Models often append the species, e.g. "Gir cattle" or "Murrah buffalo"
+const stripSpeciesWords = (name: string): string =>
+  name.replace(/\b(cattle|cows?|bulls?|buffalo(es)?|breed)\b/gi, '');
+
+const breedsById = new Map(BREED_REGISTRY.map(breed => [breed.id, breed]));
+
+const breedsByKey = new Map<string, BreedRecord>();
+BREED_REGISTRY.forEach(breed => {
+  [breed.name, breed.id, ...breed.synonyms].forEach(name => {
+    breedsByKey.set(toBreedKey(name), breed);
+  });
+});
+
+export const getBreedById = (id: string): BreedRecord | undefined => breedsById.get(id);
+
+// Resolve a model- or user-supplied name to its registry record
+export const findBreed = (name: string, species?: BreedSpecies): BreedRecord | undefined => {
+  if (!name) return undefined;
+  const breed = breedsByKey.get(toBreedKey(name)) ?? breedsByKey.get(toBreedKey(stripSpeciesWords(name)));
+  return breed && (!species || breed.species === species) ? breed : undefined;
+};
+
+// Canonical name for a known breed, or the input unchanged when it isn't in the registry
+export const normalizeBreedName = (name: string): string => findBreed(name)?.name ?? name;
+
+export const getBreedsBySpecies = (species: BreedSpecies): BreedRecord[] =>
+  BREED_REGISTRY.filter(breed => breed.species === species);
+
+export interface BreedSearchFilters {
+  species?: BreedSpecies;
+  origin?: BreedOrigin;
+  utility?: BreedUtility;
+}
+
+// Library search: matches names, synonyms and native states, ignoring spacing and punctuation
+export const searchBreeds = (query: string, filters: BreedSearchFilters = {}): BreedRecord[] => {
+  const key = toBreedKey(query);
+
+  return BREED_REGISTRY.filter(breed =>
+    (!filters.species || breed.species === filters.species) &&
+    (!filters.origin || breed.origin === filters.origin) &&
+    (!filters.utility || breed.utility === filters.utility) &&
+    (!key || [breed.name, ...breed.synonyms, ...breed.nativeStates].some(term => toBreedKey(term).includes(key)))
+  );
+};
@@ -0,0 +1,394 @@
+import { z } from 'zod';
+import {
+  BreedValidationIssue,
+  BreedValidationReport,
+  StandardizedBreedIdentification,
+  BREED_ERROR_CODES,
+  extractBreedMetadata
+} from '@/types/breedIdentification';
+import { BREED_REGISTRY, findBreed, normalizeBreedName } from '@/lib/breedRegistry';
+import { BREED_CATEGORY_NAMES, getBreedCategory, normalizeBreedComposition } from '@/lib/breedComposition';
+
+// Zod schemas for model output, with repairs for the mistakes models commonly make.
+// Every repair and every rejected field is recorded so callers can report it instead of dropping data silently.
+
+type RepairLogger = (path: (string | number)[], message: string) => void;
+
+const NOT_VISIBLE = 'Not clearly visible';
+
+export const SUPPORTED_BREED_NAMES = BREED_REGISTRY.map(breed => breed.name) as [string, ...string[]];
+
+// What the model may put in species: a registry breed or one of the crossbred / non-descript categories
+const SPECIES_NAMES = [...SUPPORTED_BREED_NAMES, ...Object.values(BREED_CATEGORY_NAMES)] as [string, ...string[]];
+
+const BREED_TYPE_VALUES = ['purebred', 'crossbred', 'nondescript'] as const;
+
+const BREED_ERROR_CODE_VALUES = Object.values(BREED_ERROR_CODES) as [string, ...string[]];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const formatIssuePath = (path: (string | number)[]): string =>
+  path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment,
+  '');
+
+const parseConfidence = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseFloat(value.replace('%', '').trim());
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// A model answers in fractions for every value or none, so the scale is decided over a whole response:
+// 0.85 alongside 0.1 means 85, but a lone 1 is 1%, not 100%
+export const getConfidenceScale = (values: unknown[]): number => {
+  if (values.some(value => typeof value === 'string' && value.includes('%'))) return 1;
+  const numbers = values.map(parseConfidence).filter((value): value is number => value !== undefined);
+  const isFractional = numbers.length > 0 && numbers.every(value => value <= 1) && numbers.some(value => value > 0 && value < 1);
+  return isFractional ? 100 : 1;
+};
+
+// "85", "85%" and 85.4 all mean a confidence of 85, and so does 0.85 on a fractional scale
+export const coerceConfidence = (value: unknown, scale: number = getConfidenceScale([value])): unknown => {
+  const numeric = parseConfidence(value);
+  return numeric === undefined ? value : Math.round(numeric * scale);
+};
+
+// Scales shared by every breed in one response; without them each value is judged on its own
+export interface ConfidenceScales {
+  confidence: number;
+  percentage: number;
+}
+
+export const createBreedResponseSchemas = (logRepair: RepairLogger = () => {}, scales?: ConfidenceScales) => {
+  // null and "" from the model mean "not provided"
+  const optionalString = (description?: string) => z.preprocess(
+    value => (value === null || value === '' ? undefined : value),
+    z.string().optional()
+  ).describe(description);
+
+  const stringList = (description: string) => z.preprocess((value, ctx) => {
+    if (typeof value === 'string') {
+      logRepair(ctx.path, 'Split comma-separated string into a list');
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    return value === null ? undefined : value;
+  }, z.array(z.string()).optional()).describe(description);
+
+  const withDefault = (fallback: string, description: string) => z.preprocess((value, ctx) => {
+    if (value === undefined || value === null || value === '') {
+      logRepair(ctx.path, `Missing value replaced with "${fallback}"`);
+      return fallback;
+    }
+    return value;
+  }, z.string()).describe(description);
+
+  const confidence = z.preprocess((value, ctx) => {
+    const coerced = coerceConfidence(value, scales?.confidence);
+    if (coerced !== value) {
+      logRepair(ctx.path, `Coerced confidence ${JSON.stringify(value)} to ${coerced}`);
+    }
+    return coerced;
+  }, z.number({ invalid_type_error: 'Confidence must be a number between 0 and 100' }).int().min(0).max(100))
+    .describe('Whole-number confidence score from 0 to 100');
+
+  const breedCharacteristics = z.preprocess((value, ctx) => {
+    if (!isRecord(value)) {
+      logRepair(ctx.path, 'Missing breed characteristics replaced with defaults');
+      return {};
+    }
+    return value;
+  }, z.object({
+    bodyStructure: withDefault(NOT_VISIBLE, 'Compact, medium or large frame description'),
+    colorPattern: withDefault(NOT_VISIBLE, 'Coat color and markings'),
+    hornCharacteristics: optionalString('Horn size, shape and orientation if visible'),
+    earShape: optionalString('Ear shape and size if visible'),
+    facialFeatures: optionalString('Facial profile and distinctive features'),
+    humpPresence: optionalString('Hump prominence for cattle: prominent, moderate or absent'),
+    overallConformation: withDefault(NOT_VISIBLE, 'General body conformation and proportions')
+  }));
+
+  const metadata = z.object({
+    estimatedAge: optionalString('adult, young or calf'),
+    estimatedSize: optionalString('large, medium or small'),
+    healthIndicators: stringList('Observable health indicators'),
+    environmentalContext: optionalString('Background or environment if relevant'),
+    imageQualityNotes: optionalString('Image quality issues affecting identification'),
+    alternativePossibleBreeds: stringList('Other supported breeds that could match'),
+    crossbreedingIndicators: optionalString('Signs of crossbreeding if detected'),
+    seasonalConsiderations: optionalString('Season-specific appearance factors')
+  });
+
+  // Registry breeds and category names both come back in their canonical spelling
+  const breedName = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((value, ctx) => {
+    if (typeof value !== 'string') return value;
+    const category = getBreedCategory(value);
+    const canonical = category ? BREED_CATEGORY_NAMES[category] : normalizeBreedName(value.trim());
+    if (canonical !== value) {
+      logRepair(ctx.path, `Normalized breed name "${value}" to "${canonical}"`);
+    }
+    return canonical;
+  }, schema);
+
+  const compositionShare = z.object({
+    breedName: breedName(z.string().min(1)).describe('Contributing breed, preferably one of the supported breeds'),
+    percentage: z.preprocess((value, ctx) => {
+      const coerced = coerceConfidence(value, scales?.percentage);
+      if (coerced !== value) {
+        logRepair(ctx.path, `Coerced percentage ${JSON.stringify(value)} to ${coerced}`);
+      }
+      return coerced;
+    }, z.number({ invalid_type_error: 'Percentage must be a number between 0 and 100' }).int().min(0).max(100))
+      .describe('Approximate share of ancestry from 0 to 100')
+  });
+
+  // species, breedType and composition must tell the same story; the breed type wins when they disagree
+  const reconcileBreedType = (
+    parsed: StandardizedBreedIdentification,
+    path: (string | number)[]
+  ): StandardizedBreedIdentification => {
+    const category = getBreedCategory(parsed.species);
+    let breedType = parsed.breedType;
+    if (!breedType || (breedType === 'purebred' && category)) {
+      if (category) logRepair([...path, 'breedType'], `Breed type set to "${category}" to match the breed name`);
+      breedType = category ?? 'purebred';
+    }
+
+    if (breedType === 'purebred') {
+      const record = findBreed(parsed.species);
+      if (parsed.composition?.length) logRepair([...path, 'composition'], 'Dropped composition for a purebred animal');
+      // The registry knows where a breed comes from better than the model does
+      const isIndianBreed = record ? record.origin !== 'exotic' : parsed.isIndianBreed;
+      if (isIndianBreed !== parsed.isIndianBreed) {
+        logRepair([...path, 'isIndianBreed'], `Set to ${isIndianBreed} from the breed registry`);
+      }
+      return { ...parsed, breedType, breedId: record?.id, isIndianBreed, composition: undefined };
+    }
+
+    const species = BREED_CATEGORY_NAMES[breedType];
+    if (parsed.species !== species) {
+      logRepair([...path, 'species'], `Breed name "${parsed.species}" replaced with "${species}" for a ${breedType} animal`);
+    }
+
+    if (breedType === 'nondescript') {
+      if (parsed.composition?.length) logRepair([...path, 'composition'], 'Dropped composition for a non-descript animal');
+      return { ...parsed, species, breedType, breedId: undefined, composition: undefined };
+    }
+
+    const composition = normalizeBreedComposition(parsed.composition ?? []);
+    const reported = (parsed.composition ?? []).reduce((sum, share) => sum + share.percentage, 0);
+    if (parsed.composition?.length && reported !== 100) {
+      logRepair([...path, 'composition'], `Rescaled shares totalling ${reported}% to 100%`);
+    }
+    if (composition.length < (parsed.composition?.length ?? 0)) {
+      logRepair([...path, 'composition'], 'Merged repeated breeds and dropped empty shares');
+    }
+    return { ...parsed, species, breedType, breedId: undefined, composition };
+  };
+
+  const breedIdentificationSchema = z.object({
+    species: breedName(z.enum(SPECIES_NAMES, {
+      errorMap: () => ({ message: 'Breed must be a supported cattle or buffalo breed, Crossbred or Non-descript' })
+    })).describe('Official breed name, "Crossbred" or "Non-descript"'),
+    breedType: z.preprocess((value, ctx) => {
+      if (value === null || value === '') return undefined;
+      if (typeof value !== 'string') return value;
+      const normalized = value.toLowerCase().replace(/[^a-z]/g, '');
+      const canonical = normalized === 'pure' ? 'purebred' : getBreedCategory(normalized) ?? normalized;
+      if (canonical !== value) {
+        logRepair(ctx.path, `Normalized breed type "${value}" to "${canonical}"`);
+      }
+      return canonical;
+    }, z.enum(BREED_TYPE_VALUES).optional()).describe('purebred, crossbred or nondescript'),
+    composition: z.preprocess(
+      value => (value === null ? undefined : value),
+      z.array(compositionShare).optional()
+    ).describe('Crossbred animals only: contributing breeds with approximate percentages summing to 100'),
+    commonName: optionalString('Local or regional name if different from the breed name'),
+    confidence,
+    description: z.string({ required_error: 'Description is required' })
+      .min(1, 'Description is required')
+      .describe('Visible identifying features in this specific image'),
+    breedCharacteristics,
+    habitat: z.string({ required_error: 'Habitat is required' })
+      .describe('Native region or state in India and current distribution'),
+    conservation: withDefault('Status information not available', 'Indigenous, Crossbred, Rare, Vulnerable or a specific conservation status'),
+    isIndianBreed: z.preprocess((value, ctx) => {
+      if (value === 'true' || value === 'false') {
+        logRepair(ctx.path, `Coerced "${value}" to boolean`);
+        return value === 'true';
+      }
+      return value;
+    }, z.boolean({ invalid_type_error: 'isIndianBreed must be true or false' }))
+      .describe('False for purebred exotic breeds such as Holstein Friesian or Jersey'),
+    bpaRegistrationNotes: optionalString('Notes relevant to BPA registration'),
+    metadata: z.preprocess(value => (value === null ? undefined : value), metadata.optional())
+  }).transform((parsed, ctx) => {
+    // Without strictNullChecks zod infers every key as optional, so pin the output to the domain type
+    const breed = reconcileBreedType(parsed as StandardizedBreedIdentification, ctx.path);
+    if (!breed.metadata) {
+      logRepair([...ctx.path, 'metadata'], 'Missing metadata derived from the description');
+      return { ...breed, metadata: extractBreedMetadata(breed.description) };
+    }
+
+    const alternatives = breed.metadata.alternativePossibleBreeds;
+    return alternatives
+      ? { ...breed, metadata: { ...breed.metadata, alternativePossibleBreeds: alternatives.map(normalizeBreedName) } }
+      : breed;
+  });
+
+  const envelopeFields = z.object({
+    image_index: z.coerce.number().int().min(0).describe('Zero-based position of the image in the request'),
+    fileName: optionalString(),
+    breeds: z.array(z.unknown()),
+    error: optionalString('Error code when no breed can be identified'),
+    message: optionalString('Why no breed was identified')
+  });
+
+  // Per-image envelope; breeds stay unparsed here so one bad breed doesn't reject its siblings
+  const imageAnalysisSchema = z.preprocess((value, ctx) => {
+    if (!isRecord(value)) return value;
+    const envelope = { ...value };
+
+    if (envelope.breeds === undefined && envelope.results !== undefined) {
+      logRepair([...ctx.path, 'breeds'], 'Used "results" field in place of "breeds"');
+      envelope.breeds = envelope.results;
+      delete envelope.results;
+    }
+    if (isRecord(envelope.breeds)) {
+      logRepair([...ctx.path, 'breeds'], 'Wrapped single breed object in an array');
+      envelope.breeds = [envelope.breeds];
+    }
+    if (envelope.breeds === undefined || envelope.breeds === null) {
+      if (!envelope.error) logRepair([...ctx.path, 'breeds'], 'Missing breeds treated as an empty list');
+      envelope.breeds = [];
+    }
+    return envelope;
+  }, envelopeFields);
+
+  // The full shape the model is asked to produce, used for structured output rather than parsing
+  const analysisResponseSchema = z.array(envelopeFields.extend({
+    breeds: z.array(breedIdentificationSchema).describe('Ranked candidate breeds, most likely first'),
+    error: z.enum(BREED_ERROR_CODE_VALUES).optional().describe('Error code when no breed can be identified')
+  })).describe('Exactly one entry per image, in request order');
+
+  return { breedIdentificationSchema, imageAnalysisSchema, analysisResponseSchema };
+};
+
+export const { breedIdentificationSchema, imageAnalysisSchema, analysisResponseSchema } = createBreedResponseSchemas();
+
+export interface ValidatedImageAnalysis {
+  imageIndex: number;
+  fileName?: string;
+  breeds: StandardizedBreedIdentification[];
+  error?: string;
+  message?: string;
+  report: BreedValidationReport;
+}
+
+const looksLikeEnvelope = (value: unknown) =>
+  isRecord(value) && ('image_index' in value || 'breeds' in value || 'results' in value || 'error' in value);
+
+// Bring the top-level payload into envelope-array form
+const toEnvelopeArray = (raw: unknown, logRepair: RepairLogger): unknown[] => {
+  if (isRecord(raw)) {
+    const wrapped = Array.isArray(raw.results) && raw.results.every(looksLikeEnvelope) ? raw.results : null;
+    if (wrapped) {
+      logRepair([], 'Unwrapped envelope array from "results" field');
+      return wrapped;
+    }
+    logRepair([], 'Wrapped single object in an array');
+    return toEnvelopeArray([raw], () => {});
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error('Invalid response format: expected array of results');
+  }
+
+  // A bare list of breeds is a single-image answer without the envelope
+  if (raw.length > 0 && raw.every(item => isRecord(item) && 'species' in item)) {
+    logRepair([], 'Wrapped bare breed list in a single image envelope');
+    return [{ image_index: 0, breeds: raw }];
+  }
+
+  return raw.map((item, index) => {
+    if (isRecord(item) && item.image_index === undefined) {
+      logRepair([index, 'image_index'], `Missing image index set to ${index}`);
+      return { ...item, image_index: index };
+    }
+    return item;
+  });
+};
+
+const getResponseScales = (breeds: unknown[]): ConfidenceScales => {
+  const records = breeds.filter(isRecord);
+  const shares = records.flatMap(breed => (Array.isArray(breed.composition) ? breed.composition : []).filter(isRecord));
+  return {
+    confidence: getConfidenceScale(records.map(breed => breed.confidence)),
+    percentage: getConfidenceScale(shares.map(share => share.percentage))
+  };
+};
+
+const emptyReport = (): BreedValidationReport => ({
+  acceptedBreeds: 0,
+  rejectedBreeds: 0,
+  issues: [],
+  repairs: []
+});
+
+// Validate a parsed model response; throws only when nothing usable can be recovered
+export const validateAnalysisResponse = (raw: unknown): { images: ValidatedImageAnalysis[]; report: BreedValidationReport } => {
+  const report = emptyReport();
+  const envelopes = toEnvelopeArray(raw, (path, message) => {
+    report.repairs.push({ path: formatIssuePath(path), message });
+  });
+
+  const images: ValidatedImageAnalysis[] = [];
+  const record = (target: BreedValidationIssue[], prefix: (string | number)[]) =>
+    (path: (string | number)[], message: string) => {
+      target.push({ path: formatIssuePath([...prefix, ...path]), message });
+    };
+
+  const parsedEnvelopes = envelopes.map((envelope, position) => {
+    const imageReport = emptyReport();
+    const envelopeSchemas = createBreedResponseSchemas(record(imageReport.repairs, [position]));
+    const parsedEnvelope = envelopeSchemas.imageAnalysisSchema.safeParse(envelope);
+    if (!parsedEnvelope.success) {
+      parsedEnvelope.error.issues.forEach(issue => record(report.issues, [position])(issue.path, issue.message));
+      return null;
+    }
+    return { position, imageReport, data: parsedEnvelope.data };
+  }).filter(Boolean);
+
+  const scales = getResponseScales(parsedEnvelopes.flatMap(envelope => envelope.data.breeds));
+
+  parsedEnvelopes.forEach(({ position, imageReport, data }) => {
+    const { image_index, fileName, breeds, error, message } = data;
+    const breedPrefix = [position, 'breeds'];
+    const validBreeds: StandardizedBreedIdentification[] = [];
+
+    breeds.forEach((breed, breedIndex) => {
+      const breedSchemas = createBreedResponseSchemas(record(imageReport.repairs, [...breedPrefix, breedIndex]), scales);
+      const parsedBreed = breedSchemas.breedIdentificationSchema.safeParse(breed);
+      if (parsedBreed.success) {
+        validBreeds.push(parsedBreed.data);
+      } else {
+        parsedBreed.error.issues.forEach(issue =>
+          record(imageReport.issues, [...breedPrefix, breedIndex])(issue.path, issue.message));
+      }
+    });
+
+    imageReport.acceptedBreeds = validBreeds.length;
+    imageReport.rejectedBreeds = breeds.length - validBreeds.length;
+
+    report.acceptedBreeds += imageReport.acceptedBreeds;
+    report.rejectedBreeds += imageReport.rejectedBreeds;
+    report.issues.push(...imageReport.issues);
+    report.repairs.push(...imageReport.repairs);
+
+    images.push({ imageIndex: image_index, fileName, breeds: validBreeds, error, message, report: imageReport });
+  });
+
+  return { images, report };
+};
@@ -0,0 +1,94 @@
+// Review threshold, queue selection and reviewer decisions for low-confidence identifications
+import { z } from 'zod';
+import { MultiImageBreedResult, StandardizedBreedIdentification } from '@/types/breedIdentification';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BreedReview, BreedReviewDecision, BreedReviewer } from '@/types/breedReview';
+import { findBreed, normalizeBreedName } from '@/lib/breedRegistry';
+import { envSchema } from '@/lib/validation';
+
+export const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 85;
+
+// Read on its own so a missing key elsewhere in the env can't disable the review queue
+export const getReviewConfidenceThreshold = (): number => {
+  const parsed = envSchema.innerType().shape.VITE_REVIEW_CONFIDENCE_THRESHOLD
+    .safeParse(import.meta.env.VITE_REVIEW_CONFIDENCE_THRESHOLD);
+  return parsed.success && parsed.data !== undefined ? parsed.data : DEFAULT_REVIEW_CONFIDENCE_THRESHOLD;
+};
+
+export const BREED_REVIEW_DECISION_LABELS: Record<BreedReviewDecision, string> = {
+  accepted: 'Accepted',
+  alternative: 'Different breed',
+  crossbred: 'Crossbred',
+  nondescript: 'Non-descript'
+};
+
+// The highest-confidence usable breed is the one registration is based on
+export const getTopBreed = (result: MultiImageBreedResult): StandardizedBreedIdentification | undefined =>
+  result.breeds
+    .filter(breed => breed.species && !breed.error)
+    .reduce<StandardizedBreedIdentification | undefined>(
+      (top, breed) => (!top || breed.confidence > top.confidence ? breed : top),
+      undefined
+    );
+
+// Other candidates the model saw in the same image, followed by its stated alternatives
+export const getAlternativeBreeds = (result: MultiImageBreedResult): string[] => {
+  const breed = getTopBreed(result);
+  if (!breed) return [];
+
+  return Array.from(new Set([
+    ...result.breeds.filter(other => other !== breed && other.species).map(other => other.species),
+    ...(breed.metadata?.alternativePossibleBreeds ?? [])
+  ])).filter(name => name !== breed.species);
+};
+
+export const requiresReview = (
+  result: MultiImageBreedResult,
+  threshold: number = getReviewConfidenceThreshold()
+): boolean => {
+  const breed = getTopBreed(result);
+  return !!breed && breed.confidence < threshold;
+};
+
+export const isAwaitingReview = (record: AnalysisHistoryRecord): boolean => !!record.needsReview && !record.review;
+
+// Oldest first, so nothing flagged early sits at the bottom of the queue
+export const getReviewQueue = (records: AnalysisHistoryRecord[]): AnalysisHistoryRecord[] =>
+  records.filter(isAwaitingReview).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const breedReviewFormSchema = z.object({
+  decision: z.enum(['accepted', 'alternative', 'crossbred', 'nondescript'], { required_error: 'Choose a decision' }),
+  breedName: z.string().trim().optional(),
+  comment: z.string().trim().max(500, 'Keep the comment under 500 characters')
+}).superRefine((values, ctx) => {
+  if (values.decision === 'alternative' && !values.breedName) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['breedName'], message: 'Choose the correct breed' });
+  }
+  // Overruling the AI needs a reason on record; accepting it doesn't
+  if (values.decision !== 'accepted' && !values.comment) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['comment'], message: 'Explain why the AI result was changed' });
+  }
+});
+
+export type BreedReviewFormValues = z.infer<typeof breedReviewFormSchema>;
+
+export const createBreedReview = (
+  values: BreedReviewFormValues,
+  result: MultiImageBreedResult,
+  reviewer: BreedReviewer,
+  reviewedAt: Date = new Date()
+): BreedReview => {
+  const breedName = values.decision === 'accepted'
+    ? getTopBreed(result)?.species
+    : values.decision === 'alternative' ? values.breedName : undefined;
+  const normalizedName = breedName ? normalizeBreedName(breedName) : undefined;
+
+  return {
+    decision: values.decision,
+    breedName: normalizedName,
+    breedId: normalizedName ? findBreed(normalizedName)?.id : undefined,
+    comment: values.comment,
+    reviewer,
+    reviewedAt: reviewedAt.toISOString()
+  };
+};
@@ -0,0 +1,45 @@
+// The views guided capture asks for, in capture order
+import { CaptureViewDefinition, CaptureViewId } from '@/types/guidedCapture';
+
+// Side profile and head carry most breed traits; front and rear help with horns, udder and hindquarters
+export const CAPTURE_VIEWS: CaptureViewDefinition[] = [
+  {
+    id: 'side',
+    label: 'Side profile',
+    instructions: 'Stand level with the middle of the animal, 3-4 m away, so the whole body from nose to tail fits the outline.',
+    modelDescription: 'full side profile - body length, topline, hump, dewlap, legs and tail',
+    required: true
+  },
+  {
+    id: 'front',
+    label: 'Front',
+    instructions: 'Face the animal head-on so the forehead, both horns, both ears and the chest are visible.',
+    modelDescription: 'front view - forehead, horn spread, ear set and chest width',
+    required: false
+  },
+  {
+    id: 'rear',
+    label: 'Rear',
+    instructions: 'Stand behind the animal to show the hindquarters, udder or scrotum and the tail setting.',
+    modelDescription: 'rear view - hindquarters, pin bones, udder and tail setting',
+    required: false
+  },
+  {
+    id: 'head',
+    label: 'Head close-up',
+    instructions: 'Fill the outline with the head: facial profile, horns, ears, eyes and muzzle.',
+    modelDescription: 'head close-up - facial profile, forehead shape, horns, ears, eyes and muzzle',
+    required: true
+  }
+];
+
+export const getCaptureView = (id: CaptureViewId): CaptureViewDefinition =>
+  CAPTURE_VIEWS.find(view => view.id === id);
+
+export const getMissingRequiredViews = (captured: CaptureViewId[]): CaptureViewDefinition[] =>
+  CAPTURE_VIEWS.filter(view => view.required && !captured.includes(view.id));
+
+// Capture order, so the side profile always leads and becomes the animal's photo
+export const sortCapturedViews = <T extends { view: CaptureViewId }>(views: T[]): T[] =>
+  [...views].sort((a, b) =>
+    CAPTURE_VIEWS.findIndex(view => view.id === a.view) - CAPTURE_VIEWS.findIndex(view => view.id === b.view));
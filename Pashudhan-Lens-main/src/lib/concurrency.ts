@@ -0,0 +1,21 @@
+// Bounded-concurrency mapping for work that should not all start at once, such as per-image model calls
+
+// At most `limit` workers run at a time; each free slot takes the next item, and results keep the input order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runSlot = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runSlot));
+  return results;
+};
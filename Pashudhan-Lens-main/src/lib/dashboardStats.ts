@@ -0,0 +1,60 @@
+// Aggregate figures for the district admin dashboard, computed from saved history
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BreedReviewDecision } from '@/types/breedReview';
+import { BREED_REVIEW_DECISION_LABELS, getTopBreed, isAwaitingReview } from '@/lib/breedReview';
+import { normalizeBreedName } from '@/lib/breedRegistry';
+
+export interface BreedCount {
+  breedName: string;
+  count: number;
+}
+
+export interface DashboardStats {
+  totalAnalyses: number;
+  awaitingReview: number;
+  reviewed: number;
+  averageConfidence: number; // Mean top-breed confidence, rounded; 0 with nothing identified
+  breedCounts: BreedCount[]; // Most common first
+  reviewDecisions: Record<BreedReviewDecision, number>;
+}
+
+// A reviewer's call replaces the AI breed, matching what the BPA export reports
+const getRecordBreedName = (record: AnalysisHistoryRecord): string | undefined => {
+  const { review } = record;
+  if (review && review.decision !== 'accepted' && review.decision !== 'alternative') {
+    return BREED_REVIEW_DECISION_LABELS[review.decision];
+  }
+  if (review?.breedName) return review.breedName;
+
+  const breed = getTopBreed(record.result);
+  return breed && normalizeBreedName(breed.species);
+};
+
+export const getDashboardStats = (records: AnalysisHistoryRecord[]): DashboardStats => {
+  const breedCounts = new Map<string, number>();
+  const reviewDecisions: Record<BreedReviewDecision, number> = { accepted: 0, alternative: 0, crossbred: 0, nondescript: 0 };
+  let confidenceTotal = 0;
+  let identifiedAnalyses = 0;
+
+  records.forEach(record => {
+    const breed = getTopBreed(record.result);
+    if (breed) {
+      identifiedAnalyses += 1;
+      confidenceTotal += breed.confidence;
+    }
+
+    const breedName = getRecordBreedName(record);
+    if (breedName) breedCounts.set(breedName, (breedCounts.get(breedName) ?? 0) + 1);
+    if (record.review) reviewDecisions[record.review.decision] += 1;
+  });
+
+  return {
+    totalAnalyses: records.length,
+    awaitingReview: records.filter(isAwaitingReview).length,
+    reviewed: records.filter(record => record.review).length,
+    averageConfidence: identifiedAnalyses ? Math.round(confidenceTotal / identifiedAnalyses) : 0,
+    breedCounts: Array.from(breedCounts, ([breedName, count]) => ({ breedName, count }))
+      .sort((a, b) => b.count - a.count || a.breedName.localeCompare(b.breedName)),
+    reviewDecisions
+  };
+};
@@ -0,0 +1,14 @@
+// Content hashes for images, so exported records can be matched back to the original file
+// and repeat uploads can be recognized
+
+export const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const computeSha256Bytes = async (bytes: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', bytes));
+
+export const computeSha256 = async (blob: Blob): Promise<string> =>
+  computeSha256Bytes(await blob.arrayBuffer());
+
+export const computeSha256Base64 = async (base64: string): Promise<string> =>
+  computeSha256Bytes(Uint8Array.from(atob(base64), char => char.charCodeAt(0)));
@@ -0,0 +1,140 @@
+// Blur, exposure, resolution and aspect scoring for the local image quality gate
+import {
+  ImageQualityIssue,
+  ImageQualityIssueCode,
+  ImageQualityReport,
+  ImageQualityScores,
+  ImageQualitySeverity
+} from '@/types/imageQuality';
+
+// Pixels are scored at this size so the sharpness threshold means the same for every camera
+export const QUALITY_SAMPLE_DIMENSION = 512;
+
+// Blocking limits are deliberately loose - only images the model can't use are stopped
+export const IMAGE_QUALITY_THRESHOLDS = {
+  sharpness: { warning: 60, blocking: 15 },
+  darkBrightness: { warning: 70, blocking: 25 },
+  brightBrightness: { warning: 215, blocking: 245 },
+  clippedHighlights: { warning: 0.25, blocking: 0.6 },
+  oversaturated: { warning: 0.2, blocking: 0.5 },
+  shortSide: { warning: 480, blocking: 224 },
+  aspectRatio: { warning: 2.5, blocking: 4 }
+};
+
+const ISSUE_GUIDANCE: Record<ImageQualityIssueCode, string> = {
+  'motion-blur': 'Motion blur: hold the camera steady and tap the animal to focus before taking the photo.',
+  'too-dark': 'Too dark: move the animal into daylight or turn on the flash.',
+  'too-bright': 'Too bright: avoid shooting into the sun and keep the animal out of harsh glare.',
+  overexposed: 'Overexposed: large areas are pure white, so coat colour and markings are lost. Reduce exposure or move into shade.',
+  oversaturated: 'Over-saturated: colours are clipped, often from a filter or beauty mode. Use the plain camera setting.',
+  'subject-too-small': 'Subject too small: move closer so the animal fills the frame, or use a higher-resolution photo.',
+  'aspect-ratio': 'Unusual shape: this looks like a panorama or narrow crop. Take a normal photo showing the whole animal.'
+};
+
+const HIGHLIGHT_LUMINANCE = 250;
+
+// ITU-R BT.601 luma, the same weighting JPEG uses
+const luminance = (r: number, g: number, b: number): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// data is RGBA, as returned by CanvasRenderingContext2D.getImageData
+export const computeImageQualityScores = (
+  pixels: { data: ArrayLike<number>; width: number; height: number },
+  sourceSize: { width: number; height: number } = pixels
+): ImageQualityScores => {
+  const { data, width, height } = pixels;
+  const pixelCount = width * height;
+  const gray = new Float32Array(pixelCount);
+  let luminanceTotal = 0;
+  let highlights = 0;
+  let saturated = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const value = luminance(r, g, b);
+
+    gray[i] = value;
+    luminanceTotal += value;
+    if (value >= HIGHLIGHT_LUMINANCE) highlights++;
+    // A channel pinned at 255 while another stays dark is clipped colour, not white
+    if (Math.max(r, g, b) === 255 && Math.min(r, g, b) < 128) saturated++;
+  }
+
+  // 4-neighbour Laplacian over the interior; edges have no full neighbourhood
+  let laplacianTotal = 0;
+  let laplacianSquares = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      laplacianTotal += value;
+      laplacianSquares += value * value;
+      laplacianCount++;
+    }
+  }
+
+  const laplacianMean = laplacianCount ? laplacianTotal / laplacianCount : 0;
+  const sharpness = laplacianCount ? laplacianSquares / laplacianCount - laplacianMean * laplacianMean : 0;
+  const shortSide = Math.min(sourceSize.width, sourceSize.height);
+
+  return {
+    sharpness: Math.round(sharpness),
+    brightness: pixelCount ? Math.round(luminanceTotal / pixelCount) : 0,
+    clippedHighlights: pixelCount ? highlights / pixelCount : 0,
+    oversaturated: pixelCount ? saturated / pixelCount : 0,
+    width: sourceSize.width,
+    height: sourceSize.height,
+    aspectRatio: shortSide ? Math.max(sourceSize.width, sourceSize.height) / shortSide : 0
+  };
+};
+
+const issue = (code: ImageQualityIssueCode, severity: ImageQualitySeverity): ImageQualityIssue => ({
+  code,
+  severity,
+  message: ISSUE_GUIDANCE[code]
+});
+
+// Lower-is-worse scores use `below`, higher-is-worse ones `above`
+const grade = (
+  code: ImageQualityIssueCode,
+  value: number,
+  limits: { warning: number; blocking: number },
+  direction: 'below' | 'above'
+): ImageQualityIssue | undefined => {
+  const fails = (limit: number) => (direction === 'below' ? value < limit : value > limit);
+  if (fails(limits.blocking)) return issue(code, 'blocking');
+  if (fails(limits.warning)) return issue(code, 'warning');
+  return undefined;
+};
+
+export const assessImageQuality = (scores: ImageQualityScores): ImageQualityReport => {
+  const t = IMAGE_QUALITY_THRESHOLDS;
+  const issues = [
+    grade('motion-blur', scores.sharpness, t.sharpness, 'below'),
+    grade('too-dark', scores.brightness, t.darkBrightness, 'below'),
+    grade('too-bright', scores.brightness, t.brightBrightness, 'above'),
+    grade('overexposed', scores.clippedHighlights, t.clippedHighlights, 'above'),
+    grade('oversaturated', scores.oversaturated, t.oversaturated, 'above'),
+    grade('subject-too-small', Math.min(scores.width, scores.height), t.shortSide, 'below'),
+    grade('aspect-ratio', scores.aspectRatio, t.aspectRatio, 'above')
+  ].filter((found): found is ImageQualityIssue => !!found);
+
+  return { scores, issues, blocked: issues.some(found => found.severity === 'blocking') };
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Compact summary stored in metadata.imageQualityNotes next to the model's own notes
+export const formatImageQualityNotes = ({ scores, issues }: ImageQualityReport): string => {
+  const summary = `Local check: sharpness ${scores.sharpness}, brightness ${scores.brightness}/255, ` +
+    `highlights clipped ${percent(scores.clippedHighlights)}, over-saturated ${percent(scores.oversaturated)}, ` +
+    `${scores.width}x${scores.height}px, aspect ${scores.aspectRatio.toFixed(2)}`;
+
+  return issues.length > 0 ? `${summary}. ${issues.map(found => found.message).join(' ')}` : `${summary}.`;
+};
+
+// One line for the user, e.g. in a toast or an image's error message
+export const describeImageQualityIssues = (report: ImageQualityReport, severity: ImageQualitySeverity): string =>
+  report.issues.filter(found => found.severity === severity).map(found => found.message).join(' ');
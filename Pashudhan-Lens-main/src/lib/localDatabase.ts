@@ -0,0 +1,133 @@
+// Thin promise wrapper over the app's IndexedDB database
+// Every object store is declared here so schema upgrades happen in one place
+
+const DB_NAME = 'pashudhan-lens';
+const DB_VERSION = 5;
+
+export const STORES = {
+  analysisHistory: 'analysisHistory',
+  captureQueue: 'captureQueue',
+  animals: 'animals',
+  analysisCache: 'analysisCache',
+  batchJobs: 'batchJobs',
+  batchJobItems: 'batchJobItems'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each step runs once when a browser upgrades past that version; never edit a published step
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.analysisHistory, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.captureQueue, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    const animals = db.createObjectStore(STORES.animals, { keyPath: 'id' });
+    animals.createIndex('earTagId', 'earTagId', { unique: true });
+  }
+  if (oldVersion < 4) {
+    const cache = db.createObjectStore(STORES.analysisCache, { keyPath: 'key' });
+    cache.createIndex('expiresAt', 'expiresAt');
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.batchJobs, { keyPath: 'id' });
+    const items = db.createObjectStore(STORES.batchJobItems, { keyPath: 'id' });
+    items.createIndex('jobId', 'jobId');
+  }
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isLocalDatabaseAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openLocalDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  if (!isLocalDatabaseAvailable()) {
+    return Promise.reject(new Error('Local storage is not available in this browser.'));
+  }
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => upgradeDatabase(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop this connection so the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openLocalDatabase();
+  const transaction = db.transaction(storeName, mode);
+  // Writes only count once the transaction commits, not when the request succeeds
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = await requestToPromise(run(transaction.objectStore(storeName)));
+  await committed;
+  return result;
+};
+
+export const getRecord = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const getRecordByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.index(indexName).get(key) as IDBRequest<T | undefined>);
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getAllRecordsByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.index(indexName).getAll(key) as IDBRequest<T[]>);
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(record));
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const countRecords = (storeName: StoreName): Promise<number> =>
+  withStore(storeName, 'readonly', store => store.count());
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
+
+// Deletes every record whose index value falls in the range, e.g. entries that expired before now
+export const deleteRecordsByIndexRange = async (storeName: StoreName, indexName: string, range: IDBKeyRange): Promise<number> => {
+  const keys = await withStore(storeName, 'readonly', store => store.index(indexName).getAllKeys(range));
+  for (const key of keys) {
+    await deleteRecord(storeName, key);
+  }
+  return keys.length;
+};
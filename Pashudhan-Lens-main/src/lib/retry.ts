@@ -0,0 +1,69 @@
+// Backoff policy for AI requests: which failures are retried, and how long to wait before the next attempt
+
+export interface RetryOptions {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number;
+  maxDelayMs: number; // A longer Retry-After gives up instead of waiting
+  timeoutMs: number; // Per attempt
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  timeoutMs: 60_000
+};
+
+// 500 means the breed proxy itself is misconfigured; it relays upstream 500s as 502
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+export const isRetryableStatus = (status: number): boolean => RETRYABLE_STATUSES.has(status);
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Exponential backoff with equal jitter, so clients that failed together don't retry together
+export const getRetryDelay = (
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'> = DEFAULT_RETRY_OPTIONS,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number => {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+};
+
+// DOMException isn't an Error subclass in every runtime, so match on the name
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+export const createAbortError = (): Error => new DOMException('The operation was aborted', 'AbortError');
+
+// Resolves after ms, or rejects with an AbortError as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,52 @@
+// Role permissions and how roles are read from Clerk metadata and the env
+import { AuthMode, Permission, UserRole } from '@/types/auth';
+import { envSchema } from '@/lib/validation';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  'field-worker': 'Field worker',
+  'vet-reviewer': 'Vet reviewer',
+  'district-admin': 'District admin'
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  'field-worker': ['capture', 'history'],
+  'vet-reviewer': ['history', 'review'],
+  'district-admin': ['capture', 'history', 'review', 'dashboard', 'export']
+};
+
+// Pages that show analyses or records; everything else is open to signed-out visitors
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  upload: 'capture',
+  results: 'capture',
+  history: 'history',
+  review: 'review',
+  dashboard: 'dashboard'
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Users without a recognized role get the least privileged one
+export const parseUserRole = (metadata: unknown): UserRole => {
+  const role = typeof metadata === 'object' && metadata !== null ? (metadata as { role?: unknown }).role : undefined;
+  if (typeof role !== 'string') return 'field-worker';
+
+  const normalized = role.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, normalized) ? (normalized as UserRole) : 'field-worker';
+};
+
+// Mock mode has no signed sessions; the breed proxy accepts "mock:<user id>" only when its own auth mode is mock
+export const MOCK_SESSION_TOKEN_PREFIX = 'mock:';
+
+const envShape = envSchema.innerType().shape;
+
+// "mock" skips Clerk entirely so roles can be exercised without a live tenant
+export const getAuthMode = (): AuthMode => {
+  const parsed = envShape.VITE_AUTH_MODE.safeParse(import.meta.env.VITE_AUTH_MODE);
+  return parsed.success ? parsed.data : 'clerk';
+};
+
+export const getMockAuthRole = (): UserRole => {
+  const parsed = envShape.VITE_MOCK_AUTH_ROLE.safeParse(import.meta.env.VITE_MOCK_AUTH_ROLE);
+  return parsed.success && parsed.data ? parsed.data : 'field-worker';
+};
@@ -12,6 +12,14 @@ export interface ServiceWorkerConfig {
   debug: boolean;
 }
 
+// Must match the sync tag handled in public/sw-advanced.js
+export const CAPTURE_QUEUE_SYNC_TAG = 'capture-queue';
+
+// Background Sync is not in the DOM typings yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
 const DEFAULT_CONFIG: ServiceWorkerConfig = {
   enabled: true,
   updateInterval: 24 * 60 * 60 * 1000, // 24 hours
@@ -129,6 +137,9 @@ class ServiceWorkerManager {
         case 'OFFLINE_READY':
           this.log('App is ready for offline use');
           break;
+        case 'PROCESS_CAPTURE_QUEUE':
+          this.log('Background sync requested capture queue processing');
+          break;
         case 'ERROR':
           console.error('Service Worker error:', data.payload);
           break;
@@ -149,6 +160,53 @@ class ServiceWorkerManager {
     navigator.serviceWorker.controller.postMessage(message);
   }
 
+  /**
+   * Ask the service worker to cache the given same-origin URLs for offline use.
+   * Posts to the active worker directly because the page may not be controlled yet on first visit.
+   */
+  async precacheUrls(urls: string[]): Promise<void> {
+    if (!this.isSupported() || urls.length === 0) {
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'PRECACHE_URLS', urls });
+  }
+
+  /**
+   * Cache every script, stylesheet and image the page has loaded so far
+   */
+  async precacheLoadedResources(): Promise<void> {
+    const urls = performance
+      .getEntriesByType('resource')
+      .map(entry => entry.name)
+      .filter(url => url.startsWith(window.location.origin) && /\.(js|css|png|jpe?g|svg|webp|woff2?)(\?|$)/.test(url));
+
+    await this.precacheUrls(urls);
+  }
+
+  /**
+   * Ask the browser to fire a sync event once connectivity returns.
+   * Resolves false where Background Sync is unsupported, so callers can fall back to the online event.
+   */
+  async requestBackgroundSync(tag: string): Promise<boolean> {
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+      if (!registration.sync) {
+        return false;
+      }
+      await registration.sync.register(tag);
+      return true;
+    } catch (error) {
+      this.log('Background sync registration failed:', error);
+      return false;
+    }
+  }
+
   /**
    * Clear all caches
    */
@@ -10,12 +10,15 @@ export const fileSchema = z.object({
   name: z.string().min(1, 'File name is required')
 })
 
+// Images sent together in one analysis; larger sets go through batch jobs
+export const MAX_BATCH_IMAGES = 10
+
 // API request validation
 export const breedIdentificationRequestSchema = z.object({
   images: z.array(z.object({
     base64: z.string().min(1, 'Image data is required'),
     mimeType: z.string().regex(/^image\/(jpeg|jpg|png|webp)$/, 'Invalid MIME type')
-  })).min(1, 'At least one image is required').max(5, 'Maximum 5 images allowed'),
+  })).min(1, 'At least one image is required').max(MAX_BATCH_IMAGES, `Maximum ${MAX_BATCH_IMAGES} images allowed`),
   options: z.object({
     includeConfidence: z.boolean().optional().default(true),
     maxResults: z.number().min(1).max(10).optional().default(5),
@@ -25,8 +28,22 @@ export const breedIdentificationRequestSchema = z.object({
 
 // Environment variables validation
 export const envSchema = z.object({
-  VITE_GEMINI_API_KEY: z.string().min(1, 'Gemini API key is required'),
-  VITE_CLERK_PUBLISHABLE_KEY: z.string().min(1, 'Clerk publishable key is required')
+  VITE_BREED_PROVIDER: z.enum(['gemini', 'mock']).optional().default('gemini'),
+  VITE_MOCK_PROVIDER_LATENCY_MS: z.coerce.number().min(0).optional(),
+  VITE_REVIEW_CONFIDENCE_THRESHOLD: z.coerce.number().min(0).max(100).optional(),
+  VITE_ANALYSIS_CACHE_TTL_HOURS: z.coerce.number().min(0).optional(),
+  // Batch jobs pace themselves to the proxy's limit; keep these equal to PROXY_RATE_LIMIT and PROXY_RATE_WINDOW_MS
+  VITE_BREED_RATE_LIMIT: z.coerce.number().int().min(1).optional(),
+  VITE_BREED_RATE_WINDOW_MS: z.coerce.number().int().min(1000).optional(),
+  // Base URL of the breed proxy (server/), which holds the Gemini key; the dev server forwards /api/breed to it
+  VITE_BREED_PROXY_URL: z.string().optional().default('/api/breed'),
+  VITE_AUTH_MODE: z.enum(['clerk', 'mock']).optional().default('clerk'),
+  VITE_MOCK_AUTH_ROLE: z.enum(['field-worker', 'vet-reviewer', 'district-admin']).optional(),
+  VITE_CLERK_PUBLISHABLE_KEY: z.string().optional()
+}).superRefine((env, ctx) => {
+  if (env.VITE_AUTH_MODE === 'clerk' && !env.VITE_CLERK_PUBLISHABLE_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Clerk publishable key is required', path: ['VITE_CLERK_PUBLISHABLE_KEY'] })
+  }
 })
 
 // Validate environment variables at startup
@@ -3,28 +3,44 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { ClerkProvider } from '@clerk/clerk-react'
+import { AuthProvider } from './contexts/AuthContext'
+import { getAuthMode } from './lib/roles'
 import { serviceWorkerManager, performanceMarker } from './lib/serviceWorker'
 
 // Performance marking for app initialization
 performanceMarker.mark('app-init-start');
 
+// Mock auth runs without a Clerk tenant, so the key is only needed for real sign-in
+const AUTH_MODE = getAuthMode();
 const PUBLISHABLE_KEY = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
-if (!PUBLISHABLE_KEY) {
+if (AUTH_MODE === 'clerk' && !PUBLISHABLE_KEY) {
   throw new Error("Missing Clerk Publishable Key");
 }
 
 // Register service worker for enhanced performance
 if (import.meta.env.PROD) {
-  serviceWorkerManager.register().then(() => {
+  serviceWorkerManager.register().then(async () => {
     performanceMarker.mark('service-worker-registered');
+
+    // Load the breed library and history up front so they work offline even if never opened online
+    await Promise.all([import('./pages/Library'), import('./pages/BreedDetail'), import('./pages/History'), import('./pages/Review'), import('./pages/Dashboard')]);
+    await serviceWorkerManager.precacheLoadedResources();
   });
 }
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <ClerkProvider publishableKey={PUBLISHABLE_KEY} afterSignOutUrl="/">
-      <App />
-    </ClerkProvider>
+    {AUTH_MODE === 'mock' ? (
+      <AuthProvider mode="mock">
+        <App />
+      </AuthProvider>
+    ) : (
+      <ClerkProvider publishableKey={PUBLISHABLE_KEY} afterSignOutUrl="/">
+        <AuthProvider mode="clerk">
+          <App />
+        </AuthProvider>
+      </ClerkProvider>
+    )}
   </StrictMode>
 );
 
@@ -0,0 +1,186 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Search,
+  Upload,
+  BookOpen,
+  Info,
+  Home as HomeIcon,
+  History as HistoryIcon,
+  ArrowLeft,
+  MapPin,
+  Eye,
+  Milk,
+  ShieldAlert
+} from 'lucide-react';
+import { NavBar } from '@/components/ui/tubelight-navbar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  BREED_ORIGIN_LABELS,
+  BREED_SPECIES_LABELS,
+  BREED_UTILITY_LABELS,
+  getBreedById
+} from '@/lib/breedRegistry';
+import { getBreedProfile } from '@/lib/breedProfiles';
+import { BreedConservationStatus } from '@/types/breedRegistry';
+import libraryBg from '@/assets/library_bg.jpeg';
+
+const CONSERVATION_STYLES: Record<BreedConservationStatus, string> = {
+  'not at risk': 'bg-emerald-500/20 text-emerald-100 border-emerald-400/40',
+  'vulnerable': 'bg-amber-500/20 text-amber-100 border-amber-400/40',
+  'endangered': 'bg-orange-500/20 text-orange-100 border-orange-400/40',
+  'critical': 'bg-red-500/20 text-red-100 border-red-400/40',
+  'not assessed': 'bg-white/10 text-white/80 border-white/30'
+};
+
+const Section: React.FC<{ title: string; icon: React.ElementType; children: React.ReactNode }> = ({
+  title,
+  icon: Icon,
+  children
+}) => (
+  <section className="p-6 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20">
+    <h2 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+      <Icon className="w-5 h-5 text-emerald-300" />
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{ label: string; value?: string }> = ({ label, value }) =>
+  value ? (
+    <div className="mb-3 last:mb-0">
+      <dt className="text-white/60 text-xs uppercase tracking-wide">{label}</dt>
+      <dd className="text-white">{value}</dd>
+    </div>
+  ) : null;
+
+const BreedDetail: React.FC = () => {
+  const navigate = useNavigate();
+  const { breedId } = useParams<{ breedId: string }>();
+  const breed = breedId ? getBreedById(breedId) : undefined;
+  const profile = breedId ? getBreedProfile(breedId) : undefined;
+
+  // Navigation items
+  const navItems = [
+    { name: 'Home', url: '#home', icon: HomeIcon },
+    { name: 'Identify', url: '#identify', icon: Search },
+    { name: 'Upload', url: '#upload', icon: Upload },
+    { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
+    { name: 'About', url: '#about', icon: Info }
+  ];
+
+  const handleNavClick = (item: { name: string }) => {
+    if (item.name === 'Upload' || item.name === 'Identify') {
+      navigate('/upload');
+    } else if (item.name === 'Home') {
+      navigate('/');
+    } else if (item.name === 'About') {
+      navigate('/about');
+    } else if (item.name === 'History') {
+      navigate('/history');
+    } else if (item.name === 'Library') {
+      navigate('/library');
+    }
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Background image */}
+      <div
+        className="absolute inset-0 bg-cover bg-center bg-no-repeat scale-105"
+        style={{
+          backgroundImage: `url(${libraryBg})`,
+          willChange: 'auto'
+        }}
+      />
+
+      {/* Enhanced overlay */}
+      <div className="absolute inset-0 bg-gradient-to-b from-black/35 via-black/25 to-black/45 backdrop-blur-[1px] backdrop-saturate-150">
+        <div className="absolute inset-0 bg-black/20" />
+      </div>
+
+      {/* Navigation */}
+      <NavBar items={navItems} onItemClick={handleNavClick} currentPage="Library" />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 pt-24 max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/library')}
+          className="text-white hover:bg-white/10 hover:text-white mb-6"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to library
+        </Button>
+
+        {!breed ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <BookOpen className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+            <h1 className="text-2xl font-semibold text-white mb-2">Breed not found</h1>
+            <p className="text-white/80">We don't have a library entry for "{breedId}".</p>
+          </div>
+        ) : (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            <header>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <h1 className="text-4xl font-bold text-white drop-shadow-2xl">{breed.name}</h1>
+                <Badge variant="secondary">{BREED_SPECIES_LABELS[breed.species]}</Badge>
+                {profile && (
+                  <Badge variant="outline" className={`capitalize ${CONSERVATION_STYLES[profile.conservationStatus]}`}>
+                    {profile.conservationStatus}
+                  </Badge>
+                )}
+              </div>
+              {profile && <p className="text-lg text-white/90 drop-shadow-lg">{profile.summary}</p>}
+            </header>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Section title="Origin" icon={MapPin}>
+                <dl>
+                  <Field label="Native region" value={breed.nativeStates.join(', ')} />
+                  <Field label="Origin type" value={BREED_ORIGIN_LABELS[breed.origin]} />
+                  <Field label="Primary use" value={BREED_UTILITY_LABELS[breed.utility]} />
+                  <Field label="Also known as" value={breed.synonyms.join(', ')} />
+                </dl>
+              </Section>
+
+              {profile && (
+                <Section title="Distinguishing traits" icon={Eye}>
+                  <dl>
+                    <Field label="Body" value={profile.traits.body} />
+                    <Field label="Color" value={profile.traits.color} />
+                    <Field label="Horns" value={profile.traits.horns} />
+                    <Field label="Hump" value={profile.traits.hump} />
+                    <Field label="Ears" value={profile.traits.ears} />
+                  </dl>
+                </Section>
+              )}
+
+              {profile && (
+                <Section title="Production" icon={Milk}>
+                  <dl>
+                    <Field label="Milk yield per lactation" value={profile.production.milkYield} />
+                    <Field label="Milk fat" value={profile.production.milkFat} />
+                    <Field label="Draught" value={profile.production.draught} />
+                  </dl>
+                </Section>
+              )}
+
+              {profile && (
+                <Section title="Conservation" icon={ShieldAlert}>
+                  <p className="text-white capitalize mb-2">{profile.conservationStatus}</p>
+                  {profile.conservationNotes && <p className="text-white/80">{profile.conservationNotes}</p>}
+                </Section>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BreedDetail;
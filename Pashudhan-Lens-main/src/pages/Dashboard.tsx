@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  Search,
+  Upload,
+  BookOpen,
+  Info,
+  Home as HomeIcon,
+  History as HistoryIcon,
+  ClipboardCheck,
+  Download,
+  LayoutDashboard
+} from 'lucide-react';
+import { NavBar } from '@/components/ui/tubelight-navbar';
+import { Button } from '@/components/ui/button';
+import { useAnalysisHistory } from '@/hooks/use-analysis-history';
+import { useToast } from '@/hooks/use-toast';
+import { BREED_REVIEW_DECISION_LABELS } from '@/lib/breedReview';
+import { getDashboardStats } from '@/lib/dashboardStats';
+import { createHistoryExportSources, downloadBpaExport } from '@/services/bpaExport';
+import { BpaExportFileType } from '@/types/bpaExport';
+import { BreedReviewDecision } from '@/types/breedReview';
+import uploadBg from '@/assets/upload_bg.png';
+
+const StatCard: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+    <p className="text-3xl font-bold text-white">{value}</p>
+    <p className="text-sm text-white/70 mt-1">{label}</p>
+  </div>
+);
+
+const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { records, isLoading, error } = useAnalysisHistory();
+
+  const stats = useMemo(() => getDashboardStats(records), [records]);
+  const topBreeds = stats.breedCounts.slice(0, 10);
+
+  // Navigation items
+  const navItems = [
+    { name: 'Home', url: '#home', icon: HomeIcon },
+    { name: 'Identify', url: '#identify', icon: Search },
+    { name: 'Upload', url: '#upload', icon: Upload },
+    { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
+    { name: 'About', url: '#about', icon: Info }
+  ];
+
+  const handleNavClick = (item: { name: string }) => {
+    if (item.name === 'Upload' || item.name === 'Identify') {
+      navigate('/upload');
+    } else if (item.name === 'Home') {
+      navigate('/');
+    } else if (item.name === 'About') {
+      navigate('/about');
+    } else if (item.name === 'Library') {
+      navigate('/library');
+    } else if (item.name === 'History') {
+      navigate('/history');
+    }
+  };
+
+  const handleExport = (fileType: BpaExportFileType) => {
+    const rowCount = downloadBpaExport(createHistoryExportSources(records), fileType);
+    toast({
+      title: 'BPA export ready',
+      description: `${rowCount} ${rowCount === 1 ? 'animal' : 'animals'} exported as ${fileType.toUpperCase()}.`
+    });
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Background image */}
+      <div
+        className="absolute inset-0 bg-cover bg-center bg-no-repeat scale-105"
+        style={{
+          backgroundImage: `url(${uploadBg})`,
+          willChange: 'auto'
+        }}
+      />
+
+      {/* Enhanced overlay */}
+      <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-black/30 to-black/50 backdrop-blur-[1px] backdrop-saturate-150">
+        <div className="absolute inset-0 bg-black/20" />
+      </div>
+
+      {/* Navigation */}
+      <NavBar items={navItems} onItemClick={handleNavClick} currentPage="History" />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 pt-24 max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-bold text-white mb-4 drop-shadow-2xl shadow-black/80">
+            District Dashboard
+          </h1>
+          <p className="text-lg text-white/90 max-w-3xl mx-auto drop-shadow-lg">
+            Totals across every analysis saved on this device, with reviewer decisions applied.
+          </p>
+        </motion.div>
+
+        {error ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <p className="text-white/80">The dashboard is unavailable in this browser because local storage is disabled.</p>
+          </div>
+        ) : isLoading ? (
+          <p className="text-center text-white/70">Loading dashboard...</p>
+        ) : stats.totalAnalyses === 0 ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <LayoutDashboard className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+            <p className="text-white/80">No analyses yet. Figures will appear once field workers start capturing animals.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard label="Analyses" value={stats.totalAnalyses} />
+              <StatCard label="Average confidence" value={`${stats.averageConfidence}%`} />
+              <StatCard label="Awaiting review" value={stats.awaitingReview} />
+              <StatCard label="Reviewed" value={stats.reviewed} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="p-6 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20">
+                <h2 className="text-lg font-semibold text-white mb-4">Most common breeds</h2>
+                {topBreeds.length === 0 ? (
+                  <p className="text-white/70 text-sm">No breeds identified yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {topBreeds.map(({ breedName, count }) => (
+                      <li key={breedName}>
+                        <div className="flex justify-between text-sm text-white/90 mb-1">
+                          <span>{breedName}</span>
+                          <span>{count}</span>
+                        </div>
+                        <div className="h-2 rounded-full bg-white/20 overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-emerald-400"
+                            style={{ width: `${(count / stats.totalAnalyses) * 100}%` }}
+                          />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="p-6 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20">
+                <h2 className="text-lg font-semibold text-white mb-4">Review decisions</h2>
+                <ul className="space-y-2 text-sm text-white/90">
+                  {(Object.keys(BREED_REVIEW_DECISION_LABELS) as BreedReviewDecision[]).map(decision => (
+                    <li key={decision} className="flex justify-between">
+                      <span>{BREED_REVIEW_DECISION_LABELS[decision]}</span>
+                      <span>{stats.reviewDecisions[decision]}</span>
+                    </li>
+                  ))}
+                </ul>
+                {stats.awaitingReview > 0 && (
+                  <Button onClick={() => navigate('/review')} className="mt-4 w-full bg-orange-500 hover:bg-orange-600">
+                    <ClipboardCheck className="w-4 h-4 mr-2" />
+                    Open review queue
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="p-6 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1">
+                <h2 className="text-lg font-semibold text-white">BPA export</h2>
+                <p className="text-sm text-white/70">Every saved analysis, oldest first, in the versioned registration format.</p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={() => handleExport('csv')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </Button>
+                <Button variant="outline" onClick={() => handleExport('json')}>
+                  JSON
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  Search,
+  Upload,
+  BookOpen,
+  Info,
+  Home as HomeIcon,
+  History as HistoryIcon,
+  Clock,
+  Trash2,
+  ExternalLink,
+  Cpu,
+  CloudOff,
+  Download,
+  ClipboardCheck,
+  UserCheck,
+  LayoutDashboard
+} from 'lucide-react';
+import { NavBar } from '@/components/ui/tubelight-navbar';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppContext } from '@/contexts/AppContext';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { useAnalysisHistory } from '@/hooks/use-analysis-history';
+import { useToast } from '@/hooks/use-toast';
+import { BREED_REVIEW_DECISION_LABELS, getReviewQueue } from '@/lib/breedReview';
+import { filterHistoryByBreed } from '@/services/analysisHistory';
+import { createHistoryExportSources, downloadBpaExport } from '@/services/bpaExport';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BpaExportFileType } from '@/types/bpaExport';
+import uploadBg from '@/assets/upload_bg.png';
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const History: React.FC = () => {
+  const navigate = useNavigate();
+  const { setResults } = useAppContext();
+  const { can } = useAuthContext();
+  const { toast } = useToast();
+  const { records, isLoading, error, deleteRecord } = useAnalysisHistory();
+  const [query, setQuery] = useState('');
+
+  const visibleRecords = useMemo(() => filterHistoryByBreed(records, query), [records, query]);
+  const reviewQueueSize = useMemo(() => getReviewQueue(records).length, [records]);
+
+  // Navigation items
+  const navItems = [
+    { name: 'Home', url: '#home', icon: HomeIcon },
+    { name: 'Identify', url: '#identify', icon: Search },
+    { name: 'Upload', url: '#upload', icon: Upload },
+    { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
+    { name: 'About', url: '#about', icon: Info }
+  ];
+
+  const handleNavClick = (item: { name: string }) => {
+    if (item.name === 'Upload' || item.name === 'Identify') {
+      navigate('/upload');
+    } else if (item.name === 'Home') {
+      navigate('/');
+    } else if (item.name === 'About') {
+      navigate('/about');
+    } else if (item.name === 'Library') {
+      navigate('/library');
+    }
+    // History is current page, so no navigation needed
+  };
+
+  const handleOpen = (record: AnalysisHistoryRecord) => {
+    setResults(record.thumbnail, record.result.breeds);
+    navigate('/results');
+  };
+
+  const handleDelete = async (record: AnalysisHistoryRecord) => {
+    try {
+      await deleteRecord(record.id);
+      toast({ title: 'Analysis deleted', description: `${record.fileName} was removed from history.` });
+    } catch (deleteError) {
+      console.error('Failed to delete history record:', deleteError);
+      toast({ title: 'Delete failed', description: 'The analysis could not be removed. Please try again.', variant: 'destructive' });
+    }
+  };
+
+  // Exports what the search currently shows, so operators can export one breed at a time
+  const handleExport = (fileType: BpaExportFileType) => {
+    const rowCount = downloadBpaExport(createHistoryExportSources(visibleRecords), fileType);
+    toast({
+      title: 'BPA export ready',
+      description: `${rowCount} ${rowCount === 1 ? 'animal' : 'animals'} exported as ${fileType.toUpperCase()}.`
+    });
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Background image */}
+      <div
+        className="absolute inset-0 bg-cover bg-center bg-no-repeat scale-105"
+        style={{
+          backgroundImage: `url(${uploadBg})`,
+          willChange: 'auto'
+        }}
+      />
+
+      {/* Enhanced overlay */}
+      <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-black/30 to-black/50 backdrop-blur-[1px] backdrop-saturate-150">
+        <div className="absolute inset-0 bg-black/20" />
+      </div>
+
+      {/* Navigation */}
+      <NavBar items={navItems} onItemClick={handleNavClick} currentPage="History" />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 pt-24 max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-bold text-white mb-4 drop-shadow-2xl shadow-black/80">
+            Analysis History
+          </h1>
+          <p className="text-lg text-white/90 max-w-3xl mx-auto drop-shadow-lg">
+            Past analyses are stored on this device only. Reopen one to review it again or remove it when you're done.
+          </p>
+          <div className="flex flex-wrap justify-center gap-3">
+            {reviewQueueSize > 0 && can('review') && (
+              <Button onClick={() => navigate('/review')} className="mt-4 bg-orange-500 hover:bg-orange-600">
+                <ClipboardCheck className="w-4 h-4 mr-2" />
+                {reviewQueueSize} {reviewQueueSize === 1 ? 'result needs' : 'results need'} review
+              </Button>
+            )}
+            {can('dashboard') && (
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="mt-4">
+                <LayoutDashboard className="w-4 h-4 mr-2" />
+                District dashboard
+              </Button>
+            )}
+          </div>
+        </motion.div>
+
+        <div className="mb-6 p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60" />
+            <Input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Search by breed"
+              className="pl-9 bg-black/20 border-white/20 text-white placeholder:text-white/50"
+              aria-label="Search history by breed"
+            />
+          </div>
+          {can('export') && (
+            <div className="flex gap-2">
+              <Button onClick={() => handleExport('csv')} disabled={visibleRecords.length === 0} className="flex-1 sm:flex-none">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleExport('json')}
+                disabled={visibleRecords.length === 0}
+                className="flex-1 sm:flex-none"
+              >
+                JSON
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {error ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <p className="text-white/80">History is unavailable in this browser. Analyses will still work but won't be saved.</p>
+          </div>
+        ) : isLoading ? (
+          <p className="text-center text-white/70">Loading history...</p>
+        ) : visibleRecords.length === 0 ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <HistoryIcon className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+            <p className="text-white/80 mb-4">
+              {records.length === 0
+                ? 'No analyses yet. Results are saved here automatically after each analysis.'
+                : 'No saved analyses match that breed.'}
+            </p>
+            {records.length === 0 && (
+              <Button onClick={() => navigate('/upload')}>
+                <Upload className="w-4 h-4 mr-2" />
+                Analyze an image
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-white/70 text-sm">
+              {visibleRecords.length} saved analys{visibleRecords.length === 1 ? 'is' : 'es'}
+            </p>
+            {visibleRecords.map((record, index) => (
+              <motion.div
+                key={record.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index * 0.03, 0.3) }}
+                className="flex flex-col sm:flex-row gap-4 p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20"
+              >
+                <img
+                  src={record.thumbnail}
+                  alt={record.fileName}
+                  className="w-full sm:w-32 h-40 sm:h-32 object-cover rounded-xl shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {record.result.breeds.map(breed => (
+                      <Badge key={breed.species} variant="secondary">
+                        {breed.commonName || breed.species} · {breed.confidence}%
+                      </Badge>
+                    ))}
+                    {record.fusedFrom && (
+                      <Badge variant="outline" className="text-white border-white/40">
+                        {record.fusedFrom.length} photos combined
+                      </Badge>
+                    )}
+                    {record.review ? (
+                      <Badge className="bg-emerald-600 hover:bg-emerald-600">
+                        <UserCheck className="w-3 h-3 mr-1" />
+                        {BREED_REVIEW_DECISION_LABELS[record.review.decision]}
+                        {record.review.breedName && `: ${record.review.breedName}`}
+                      </Badge>
+                    ) : record.needsReview && (
+                      <Badge className="bg-orange-500 hover:bg-orange-500">Needs review</Badge>
+                    )}
+                  </div>
+                  <p className="text-white font-medium truncate">{record.fileName}</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-white/60 text-xs">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {formatTimestamp(record.createdAt)} · {(record.processingTime / 1000).toFixed(1)}s
+                    </span>
+                    {record.capturedAt && (
+                      <span className="flex items-center gap-1">
+                        <CloudOff className="w-3 h-3" />
+                        Captured offline {formatTimestamp(record.capturedAt)}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1">
+                      <Cpu className="w-3 h-3" />
+                      {record.model} · prompt v{record.promptVersion}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex sm:flex-col gap-2 shrink-0">
+                  <Button size="sm" onClick={() => handleOpen(record)}>
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Open
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(record)}
+                    className="bg-transparent text-white border-white/30 hover:bg-red-500/20 hover:text-white"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { NavBar } from '@/components/ui/tubelight-navbar';
 import { SharedLayout } from '@/components/SharedLayout';
 import { CritterTypewriter } from '@/components/CritterTypewriter';
-import { Leaf, Binoculars, Camera, ArrowRight, Home as HomeIcon, Upload, Info, Search, BookOpen } from 'lucide-react';
+import { Leaf, Binoculars, Camera, ArrowRight, Home as HomeIcon, Upload, Info, Search, BookOpen, History as HistoryIcon } from 'lucide-react';
 import { motion } from 'framer-motion';
 import heroImage from '@/assets/hero-wildlife.jpg';
 
@@ -11,15 +11,17 @@ interface HomeProps {
   onGetStarted: () => void;
   onNavigateAbout?: () => void;
   onNavigateLibrary?: () => void;
+  onNavigateHistory?: () => void;
 }
 
-const Home = memo<HomeProps>(({ onGetStarted, onNavigateAbout, onNavigateLibrary }) => {
+const Home = memo<HomeProps>(({ onGetStarted, onNavigateAbout, onNavigateLibrary, onNavigateHistory }) => {
   // Memoize navigation items to prevent re-creation
   const navItems = useMemo(() => [
     { name: 'Home', url: '#home', icon: HomeIcon },
     { name: 'Identify', url: '#identify', icon: Search },
     { name: 'Upload', url: '#upload', icon: Upload },
     { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
     { name: 'About', url: '#about', icon: Info }
   ], []);
 
@@ -37,6 +39,8 @@ const Home = memo<HomeProps>(({ onGetStarted, onNavigateAbout, onNavigateLibrary
       onNavigateAbout();
     } else if (item.name === 'Library' && onNavigateLibrary) {
       onNavigateLibrary();
+    } else if (item.name === 'History' && onNavigateHistory) {
+      onNavigateHistory();
     }
     // For other nav items, you can add scroll to sections or other actions
   };
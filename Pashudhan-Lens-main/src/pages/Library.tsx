@@ -1,12 +1,37 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Search, Upload, BookOpen, Info, Home as HomeIcon } from 'lucide-react';
+import { Search, Upload, BookOpen, Info, Home as HomeIcon, History as HistoryIcon, MapPin, WifiOff } from 'lucide-react';
 import { NavBar } from '@/components/ui/tubelight-navbar';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  BREED_ORIGIN_LABELS,
+  BREED_SPECIES_LABELS,
+  BREED_UTILITY_LABELS,
+  BreedSearchFilters,
+  searchBreeds
+} from '@/lib/breedRegistry';
+import { getBreedProfile } from '@/lib/breedProfiles';
+import { useOnlineStatus } from '@/hooks/use-online-status';
 import libraryBg from '@/assets/library_bg.jpeg';
 
+const ALL = 'all';
+
 const Library: React.FC = () => {
   const navigate = useNavigate();
+  const isOnline = useOnlineStatus();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<BreedSearchFilters>({});
+
+  const breeds = useMemo(() => searchBreeds(query, filters), [query, filters]);
 
   // Navigation items
   const navItems = [
@@ -14,6 +39,7 @@ const Library: React.FC = () => {
     { name: 'Identify', url: '#identify', icon: Search },
     { name: 'Upload', url: '#upload', icon: Upload },
     { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
     { name: 'About', url: '#about', icon: Info }
   ];
 
@@ -24,21 +50,33 @@ const Library: React.FC = () => {
       navigate('/');
     } else if (item.name === 'About') {
       navigate('/about');
+    } else if (item.name === 'History') {
+      navigate('/history');
     }
     // Library is current page, so no navigation needed
   };
 
+  const updateFilter = <K extends keyof BreedSearchFilters>(key: K, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value === ALL ? undefined : value }));
+  };
+
+  const filterSelects = [
+    { key: 'species' as const, placeholder: 'All species', labels: BREED_SPECIES_LABELS },
+    { key: 'origin' as const, placeholder: 'All origins', labels: BREED_ORIGIN_LABELS },
+    { key: 'utility' as const, placeholder: 'All uses', labels: BREED_UTILITY_LABELS }
+  ];
+
   return (
     <div className="min-h-screen relative overflow-hidden">
       {/* Background image */}
-      <div 
+      <div
         className="absolute inset-0 bg-cover bg-center bg-no-repeat scale-105"
-        style={{ 
+        style={{
           backgroundImage: `url(${libraryBg})`,
           willChange: 'auto'
         }}
       />
-      
+
       {/* Enhanced overlay */}
       <div className="absolute inset-0 bg-gradient-to-b from-black/25 via-black/15 to-black/35 backdrop-blur-[1px] backdrop-saturate-150">
         <div className="absolute inset-0 bg-gradient-to-br from-white/3 via-transparent to-black/15" />
@@ -47,8 +85,8 @@ const Library: React.FC = () => {
 
       {/* Navigation */}
       <NavBar items={navItems} onItemClick={handleNavClick} currentPage="Library" />
-      
-      <div className="relative z-10 container mx-auto px-4 py-8 pt-24 flex flex-col items-center justify-center min-h-[60vh]">
+
+      <div className="relative z-10 container mx-auto px-4 py-8 pt-24">
         <motion.div
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -57,19 +95,93 @@ const Library: React.FC = () => {
           <h1 className="text-4xl font-bold text-white mb-4 drop-shadow-2xl shadow-black/80">
             Breed Library
           </h1>
-          <p className="text-lg text-white/90 max-w-3xl mx-auto drop-shadow-lg mb-8">
-            The library feature is currently under maintenance as we transition to a new system.
-            Please check back later for our comprehensive collection of cattle and buffalo breeds.
+          <p className="text-lg text-white/90 max-w-3xl mx-auto drop-shadow-lg">
+            Every cattle and buffalo breed the identifier recognizes, with origin, distinguishing traits,
+            production and conservation status.
           </p>
-          
-          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 max-w-2xl mx-auto">
-            <BookOpen className="w-16 h-16 text-white mx-auto mb-4 opacity-80" />
-            <h2 className="text-2xl font-semibold text-white mb-2">Coming Soon</h2>
-            <p className="text-white/80">
-              We are working on an improved library experience that will be available offline and open-source.
+          {!isOnline && (
+            <p className="inline-flex items-center gap-2 mt-4 px-3 py-1 rounded-full bg-amber-500/20 border border-amber-400/40 text-amber-100 text-sm">
+              <WifiOff className="w-4 h-4" />
+              You're offline - the library is still fully available
             </p>
-          </div>
+          )}
         </motion.div>
+
+        {/* Search and filters */}
+        <div className="max-w-5xl mx-auto mb-8 p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60" />
+            <Input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Search by breed, local name or state"
+              className="pl-9 bg-black/20 border-white/20 text-white placeholder:text-white/50"
+              aria-label="Search breeds"
+            />
+          </div>
+          {filterSelects.map(({ key, placeholder, labels }) => (
+            <Select key={key} value={filters[key] ?? ALL} onValueChange={value => updateFilter(key, value)}>
+              <SelectTrigger className="md:w-44 bg-black/20 border-white/20 text-white" aria-label={placeholder}>
+                <SelectValue placeholder={placeholder} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{placeholder}</SelectItem>
+                {Object.entries(labels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+
+        <p className="max-w-5xl mx-auto text-white/70 text-sm mb-4">
+          Showing {breeds.length} breed{breeds.length === 1 ? '' : 's'}
+        </p>
+
+        {breeds.length === 0 ? (
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 max-w-2xl mx-auto text-center">
+            <BookOpen className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+            <p className="text-white/80">No breeds match your search. Try a different name or clear the filters.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 max-w-7xl mx-auto">
+            {breeds.map((breed, index) => {
+              const profile = getBreedProfile(breed.id);
+              return (
+                <motion.button
+                  key={breed.id}
+                  type="button"
+                  onClick={() => navigate(`/library/${breed.id}`)}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(index * 0.02, 0.3) }}
+                  whileHover={{ scale: 1.02 }}
+                  className="text-left p-5 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 hover:bg-white/15 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <h2 className="text-xl font-semibold text-white">{breed.name}</h2>
+                    <Badge variant="secondary" className="shrink-0">{BREED_SPECIES_LABELS[breed.species]}</Badge>
+                  </div>
+                  <p className="flex items-center gap-1 text-white/70 text-sm mb-3">
+                    <MapPin className="w-3 h-3 shrink-0" />
+                    {breed.nativeStates.join(', ')}
+                  </p>
+                  {profile && (
+                    <p className="text-white/80 text-sm line-clamp-3 mb-3">{profile.summary}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline" className="text-white border-white/30">
+                      {BREED_ORIGIN_LABELS[breed.origin]}
+                    </Badge>
+                    <Badge variant="outline" className="text-white border-white/30">
+                      {BREED_UTILITY_LABELS[breed.utility]}
+                    </Badge>
+                  </div>
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
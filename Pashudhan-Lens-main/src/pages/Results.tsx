@@ -1,15 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { SpeciesResults } from '@/components/SpeciesResults';
-import { SpeciesIdentification } from '@/services/geminiApi';
+import { StandardizedBreedIdentification } from '@/types/breedIdentification';
 import { SharedLayout } from '@/components/SharedLayout';
 import { ArrowLeft, ChevronRight, Star, MapPin, Info, Shield } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { extractBreedCharacteristicsFromDescription } from '@/utils/breedCharacteristicsExtractor';
+import { resolveBreedCharacteristics } from '@/utils/breedCharacteristicsExtractor';
+import { BreedLibraryLink } from '@/components/BreedLibraryLink';
+import { BreedComposition } from '@/components/BreedComposition';
+import { BreedRankingChart } from '@/components/BreedRankingChart';
+import { formatProbability, rankBreeds } from '@/lib/breedRanking';
+import { BreedCompareDialog } from '@/components/BreedCompareDialog';
+import { AnimalRegistrationDialog } from '@/components/AnimalRegistrationDialog';
+import { PdfReportButton } from '@/components/PdfReportButton';
+import { downloadAnimalReport } from '@/services/pdfReport';
 
 interface ResultsProps {
   imageUrl: string;
-  results: SpeciesIdentification[];
+  results: StandardizedBreedIdentification[];
   onBack?: () => void;
   onNewUpload: () => void;
   onHome?: () => void;
@@ -53,6 +61,7 @@ const Results: React.FC<ResultsProps> = ({
     !result.error && 
     result.species.trim() !== ''
   );
+  const ranking = rankBreeds(validResults);
 
   if (validResults.length === 0) {
     return (
@@ -134,11 +143,29 @@ const Results: React.FC<ResultsProps> = ({
                       <span className="text-gray-600">Breeds Found</span>
                       <span className="font-medium text-black">{validResults.length}</span>
                     </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-gray-600">Confidence</span>
-                      <span className="font-medium text-black">High</span>
-                    </div>
+                    {ranking.candidates.length > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Top match</span>
+                        <span className="font-medium text-black">
+                          {formatProbability(ranking.candidates[0].probability)}
+                          {ranking.uncertain && ' (uncertain)'}
+                        </span>
+                      </div>
+                    )}
                   </div>
+                  <BreedRankingChart ranking={ranking} className="mt-4" />
+                  <BreedCompareDialog
+                    imageUrl={imageUrl}
+                    results={validResults}
+                    triggerClassName="w-full mt-4 rounded-lg text-[15px]"
+                  />
+                  <PdfReportButton
+                    className="mt-2"
+                    onGenerate={options => downloadAnimalReport(
+                      { image: imageUrl, fileName: 'analysis.jpg', breeds: validResults },
+                      options
+                    )}
+                  />
                 </div>
               </motion.div>
             </div>
@@ -176,7 +203,9 @@ const Results: React.FC<ResultsProps> = ({
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <h3 className="text-[22px] font-semibold text-black mb-1 tracking-tight">
-                          {breed.commonName || breed.species}
+                          <BreedLibraryLink name={breed.species} breedId={breed.breedId} showIcon>
+                            {breed.commonName || breed.species}
+                          </BreedLibraryLink>
                         </h3>
                         <p className="text-[17px] text-gray-600 italic">
                           {breed.species}
@@ -205,49 +234,52 @@ const Results: React.FC<ResultsProps> = ({
                       </p>
                     </div>
 
+                    <BreedComposition breed={breed} />
+
                     {/* Key Characteristics */}
                     {(() => {
-                      const characteristics = extractBreedCharacteristicsFromDescription(breed);
-                      const hasCharacteristics = characteristics.colorPattern || 
-                                                characteristics.bodyStructure || 
-                                                characteristics.hornCharacteristics ||
-                                                characteristics.facialFeatures ||
-                                                characteristics.humpPresence;
-                      
-                      if (!hasCharacteristics) return null;
+                      const characteristics = resolveBreedCharacteristics(breed);
+                      const traits = [
+                        { label: 'Color Pattern', value: characteristics.colorPattern },
+                        { label: 'Body Structure', value: characteristics.bodyStructure },
+                        { label: 'Horn Features', value: characteristics.hornCharacteristics },
+                        { label: 'Hump Features', value: characteristics.humpPresence },
+                        { label: 'Ear Shape', value: characteristics.earShape },
+                        { label: 'Facial Features', value: characteristics.facialFeatures },
+                        { label: 'Overall Conformation', value: characteristics.overallConformation },
+                        { label: 'Estimated Age', value: characteristics.estimatedAge },
+                        { label: 'Estimated Size', value: characteristics.estimatedSize },
+                        { label: 'Image Quality', value: characteristics.imageQualityNotes }
+                      ];
 
                       return (
                         <div>
                           <h4 className="text-[17px] font-medium text-black mb-3">Key Characteristics</h4>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-2.5">
-                            {characteristics.colorPattern && (
-                              <div className="bg-gray-50 rounded-lg p-3.5">
-                                <div className="text-[15px] font-medium text-black mb-1">Color Pattern</div>
-                                <div className="text-[14px] text-gray-600">{characteristics.colorPattern}</div>
+                            {traits.map(trait => (
+                              <div key={trait.label} className="bg-gray-50 rounded-lg p-3.5">
+                                <div className="text-[15px] font-medium text-black mb-1">{trait.label}</div>
+                                <div className="text-[14px] text-gray-600">{trait.value}</div>
                               </div>
-                            )}
-                            
-                            {characteristics.bodyStructure && (
-                              <div className="bg-gray-50 rounded-lg p-3.5">
-                                <div className="text-[15px] font-medium text-black mb-1">Body Structure</div>
-                                <div className="text-[14px] text-gray-600">{characteristics.bodyStructure}</div>
-                              </div>
-                            )}
-                            
-                            {characteristics.hornCharacteristics && (
-                              <div className="bg-gray-50 rounded-lg p-3.5">
-                                <div className="text-[15px] font-medium text-black mb-1">Horn Features</div>
-                                <div className="text-[14px] text-gray-600">{characteristics.hornCharacteristics}</div>
-                              </div>
-                            )}
-                            
-                            {characteristics.humpPresence && (
-                              <div className="bg-gray-50 rounded-lg p-3.5">
-                                <div className="text-[15px] font-medium text-black mb-1">Hump Features</div>
-                                <div className="text-[14px] text-gray-600">{characteristics.humpPresence}</div>
-                              </div>
-                            )}
+                            ))}
                           </div>
+
+                          <div className="mt-4 bg-emerald-50 rounded-lg p-3.5">
+                            <div className="text-[15px] font-medium text-emerald-900 mb-1">BPA Registration Notes</div>
+                            <div className="text-[14px] text-emerald-800">{characteristics.bpaRegistrationNotes}</div>
+                          </div>
+
+                          {breed.metadata?.alternativePossibleBreeds && breed.metadata.alternativePossibleBreeds.length > 0 && (
+                            <p className="mt-3 text-[15px] text-gray-600">
+                              <span className="font-medium text-black">Also possible: </span>
+                              {breed.metadata.alternativePossibleBreeds.map((alternative, altIndex) => (
+                                <React.Fragment key={alternative}>
+                                  {altIndex > 0 && ', '}
+                                  <BreedLibraryLink name={alternative} className="text-blue-600" />
+                                </React.Fragment>
+                              ))}
+                            </p>
+                          )}
                         </div>
                       );
                     })()}
@@ -280,6 +312,12 @@ const Results: React.FC<ResultsProps> = ({
                         </div>
                       )}
                     </div>
+
+                    <AnimalRegistrationDialog
+                      breed={breed}
+                      photo={{ source: imageUrl, fileName: 'analysis.jpg' }}
+                      triggerClassName="w-full rounded-full"
+                    />
                   </div>
                 </motion.div>
               ))}
@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { SignedIn, SignedOut, SignInButton } from '@/components/AuthControls';
+import {
+  Search,
+  Upload,
+  BookOpen,
+  Info,
+  Home as HomeIcon,
+  History as HistoryIcon,
+  ClipboardCheck,
+  Clock,
+  UserCheck
+} from 'lucide-react';
+import { NavBar } from '@/components/ui/tubelight-navbar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BreedReviewForm } from '@/components/BreedReviewForm';
+import { useAuthContext } from '@/hooks/use-auth-context';
+import { useAnalysisHistory } from '@/hooks/use-analysis-history';
+import {
+  BREED_REVIEW_DECISION_LABELS,
+  getReviewConfidenceThreshold,
+  getReviewQueue
+} from '@/lib/breedReview';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BreedReviewer } from '@/types/breedReview';
+import uploadBg from '@/assets/upload_bg.png';
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const RecordSummary: React.FC<{ record: AnalysisHistoryRecord }> = ({ record }) => (
+  <div className="flex gap-4 min-w-0">
+    <img
+      src={record.thumbnail}
+      alt={record.fileName}
+      className="w-28 h-28 object-cover rounded-xl shrink-0"
+    />
+    <div className="min-w-0">
+      <div className="flex flex-wrap gap-2 mb-2">
+        {record.result.breeds.map(breed => (
+          <Badge key={breed.species} variant="secondary">
+            {breed.commonName || breed.species} · {breed.confidence}%
+          </Badge>
+        ))}
+      </div>
+      <p className="text-white font-medium truncate">{record.fileName}</p>
+      <p className="flex items-center gap-1 mt-1 text-white/60 text-xs">
+        <Clock className="w-3 h-3" />
+        {formatTimestamp(record.createdAt)}
+      </p>
+    </div>
+  </div>
+);
+
+const Review: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthContext();
+  const { records, isLoading, error } = useAnalysisHistory();
+  const [view, setView] = useState<'pending' | 'reviewed'>('pending');
+
+  const pending = useMemo(() => getReviewQueue(records), [records]);
+  const reviewed = useMemo(
+    () => records
+      .filter(record => record.review)
+      .sort((a, b) => b.review.reviewedAt.localeCompare(a.review.reviewedAt)),
+    [records]
+  );
+
+  const reviewer: BreedReviewer | undefined = user && { id: user.id, name: user.name, email: user.email };
+
+  // Navigation items
+  const navItems = [
+    { name: 'Home', url: '#home', icon: HomeIcon },
+    { name: 'Identify', url: '#identify', icon: Search },
+    { name: 'Upload', url: '#upload', icon: Upload },
+    { name: 'Library', url: '#library', icon: BookOpen },
+    { name: 'History', url: '#history', icon: HistoryIcon },
+    { name: 'About', url: '#about', icon: Info }
+  ];
+
+  const handleNavClick = (item: { name: string }) => {
+    if (item.name === 'Upload' || item.name === 'Identify') {
+      navigate('/upload');
+    } else if (item.name === 'Home') {
+      navigate('/');
+    } else if (item.name === 'About') {
+      navigate('/about');
+    } else if (item.name === 'Library') {
+      navigate('/library');
+    } else if (item.name === 'History') {
+      navigate('/history');
+    }
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Background image */}
+      <div
+        className="absolute inset-0 bg-cover bg-center bg-no-repeat scale-105"
+        style={{
+          backgroundImage: `url(${uploadBg})`,
+          willChange: 'auto'
+        }}
+      />
+
+      {/* Enhanced overlay */}
+      <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-black/30 to-black/50 backdrop-blur-[1px] backdrop-saturate-150">
+        <div className="absolute inset-0 bg-black/20" />
+      </div>
+
+      {/* Navigation */}
+      <NavBar items={navItems} onItemClick={handleNavClick} currentPage="History" />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 pt-24 max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-bold text-white mb-4 drop-shadow-2xl shadow-black/80">
+            Review Queue
+          </h1>
+          <p className="text-lg text-white/90 max-w-3xl mx-auto drop-shadow-lg">
+            Identifications below {getReviewConfidenceThreshold()}% confidence wait here for a veterinary officer
+            to accept them, pick another breed or mark the animal as crossbred or non-descript.
+          </p>
+        </motion.div>
+
+        <SignedOut>
+          <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+            <UserCheck className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+            <p className="text-white/80 mb-4">Reviews are recorded under your name. Sign in to review results.</p>
+            <SignInButton mode="modal">
+              <Button>Sign In</Button>
+            </SignInButton>
+          </div>
+        </SignedOut>
+
+        <SignedIn>
+          <div className="flex gap-2 mb-6">
+            <Button variant={view === 'pending' ? 'default' : 'outline'} onClick={() => setView('pending')}>
+              Pending ({pending.length})
+            </Button>
+            <Button variant={view === 'reviewed' ? 'default' : 'outline'} onClick={() => setView('reviewed')}>
+              Reviewed ({reviewed.length})
+            </Button>
+          </div>
+
+          {error ? (
+            <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+              <p className="text-white/80">The review queue is unavailable in this browser because local storage is disabled.</p>
+            </div>
+          ) : isLoading ? (
+            <p className="text-center text-white/70">Loading review queue...</p>
+          ) : view === 'pending' ? (
+            pending.length === 0 ? (
+              <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+                <ClipboardCheck className="w-12 h-12 text-white mx-auto mb-4 opacity-80" />
+                <p className="text-white/80">Nothing to review. Low-confidence results will appear here after analysis.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {pending.map((record, index) => (
+                  <motion.div
+                    key={record.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(index * 0.03, 0.3) }}
+                    className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20"
+                  >
+                    <RecordSummary record={record} />
+                    {reviewer && <BreedReviewForm record={record} reviewer={reviewer} />}
+                  </motion.div>
+                ))}
+              </div>
+            )
+          ) : reviewed.length === 0 ? (
+            <div className="p-8 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 text-center">
+              <p className="text-white/80">No reviews yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {reviewed.map(record => (
+                <div
+                  key={record.id}
+                  className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-white/10 backdrop-blur-md rounded-2xl border border-white/20"
+                >
+                  <RecordSummary record={record} />
+                  <div className="text-sm text-white/80 space-y-1">
+                    <p className="text-white font-medium">
+                      {BREED_REVIEW_DECISION_LABELS[record.review.decision]}
+                      {record.review.breedName && ` - ${record.review.breedName}`}
+                    </p>
+                    {record.review.comment && <p>"{record.review.comment}"</p>}
+                    <p className="flex items-center gap-1 text-white/60 text-xs">
+                      <UserCheck className="w-3 h-3" />
+                      {record.review.reviewer.name} · {formatTimestamp(record.review.reviewedAt)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </SignedIn>
+      </div>
+    </div>
+  );
+};
+
+export default Review;
@@ -1,34 +1,40 @@
-import React, { useState, memo, useCallback } from 'react';
+import React, { useState, memo, useCallback, useEffect, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
+import { useSaveToHistory } from '@/hooks/use-analysis-history';
+import { useCaptureQueue } from '@/hooks/use-capture-queue';
+import { useBatchJob } from '@/hooks/use-batch-job';
+import { useOnlineStatus } from '@/hooks/use-online-status';
 import { Button } from '@/components/ui/button';
-import { X, Upload, ImageIcon, Brain, Zap, Search, Plus, ArrowRight, Check, Images } from 'lucide-react';
+import { X, Upload, ImageIcon, Brain, Zap, Search, Plus, ArrowRight, Check, Images, CloudOff, Camera, Square, RotateCcw, FolderOpen, FileArchive } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { identifyMultipleSpecies, MultiImageAnalysisResult, BatchAnalysisResult } from '@/services/multiImageGeminiApi';
+import { assessImageFileQuality, identifyAnimalFromViews, identifyBreedsBatch, MAX_BATCH_IMAGES } from '@/services/breedAnalysis';
+import { describeImageQualityIssues } from '@/lib/imageQuality';
+import { getBatchJobName, readZipImages, selectImageFiles } from '@/services/batchImport';
+import { BatchJobSource } from '@/types/batchJob';
+import { BatchBreedAnalysisResult, MultiImageBreedResult, UploadedImage } from '@/types/breedIdentification';
+import { CapturedView } from '@/types/guidedCapture';
+import { GuidedCapture } from '@/components/GuidedCapture';
+import { AnalysisCacheDialog } from '@/components/AnalysisCacheDialog';
 import { LiquidGlassUploadDemo } from '@/components/ui/liquid-glass-upload-demo';
 import { WebGLShader } from '@/components/ui/web-gl-shader';
 import { SharedLayout } from '@/components/SharedLayout';
-import { SignedIn, SignedOut, SignInButton, SignUpButton } from '@clerk/clerk-react';
+import { SignedIn, SignedOut, SignInButton, SignUpButton } from '@/components/AuthControls';
 import uploadBg from '@/assets/upload_bg.png';
 import MultiImageResultsUnified from '@/components/MultiImageResults';
 
-interface UploadedImage {
-  id: string;
-  file: File;
-  url: string;
-  status: 'pending' | 'uploading' | 'analyzing' | 'complete' | 'error';
-  progress?: number;
-  results?: MultiImageAnalysisResult;
-  error?: string;
-}
-
 interface UploadUltimateProps {
   onShowResults?: (images: UploadedImage[]) => void;
 }
 
+const toFinishedImage = (image: UploadedImage, result: MultiImageBreedResult): UploadedImage =>
+  result.error
+    ? { ...image, status: 'error', error: result.error, progress: 100 }
+    : { ...image, status: 'complete', progress: 100, results: result };
+
 // Premium single image analyzing container with full-screen integration
-const SingleImageAnalyzingContainer = memo(({ image }: { image: UploadedImage }) => (
+const SingleImageAnalyzingContainer = memo(({ image, onCancel }: { image: UploadedImage; onCancel: () => void }) => (
   <motion.div 
     initial={{ opacity: 0 }}
     animate={{ opacity: 1 }}
@@ -135,6 +141,11 @@ const SingleImageAnalyzingContainer = memo(({ image }: { image: UploadedImage })
           <span className="text-white/85 text-sm font-medium drop-shadow-lg">identifying</span>
         </motion.div>
       </div>
+
+      <Button onClick={onCancel} variant="outline" size="sm">
+        <Square className="w-4 h-4 mr-2" />
+        Cancel
+      </Button>
     </motion.div>
   </motion.div>
 ));
@@ -254,10 +265,20 @@ ImageUploadCard.displayName = 'ImageUploadCard';
 const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [isDragActive, setIsDragActive] = useState(false);
+  const [isGuidedCaptureOpen, setIsGuidedCaptureOpen] = useState(false);
   const [showResults, setShowResults] = useState(false);
-  const [batchSummary, setBatchSummary] = useState<BatchAnalysisResult['summary'] | null>(null);
+  const [batchSummary, setBatchSummary] = useState<BatchBreedAnalysisResult['summary'] | null>(null);
+  const [batchMetadata, setBatchMetadata] = useState<BatchBreedAnalysisResult['analysisMetadata'] | null>(null);
   const { state, setLoading } = useAppContext();
   const { toast } = useToast();
+  const saveToHistory = useSaveToHistory();
+  const isOnline = useOnlineStatus();
+  const { queuedCaptures, enqueue } = useCaptureQueue();
+  const { snapshot: batchJob, start: startBatchJob } = useBatchJob();
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the page stops the request instead of letting it finish unseen
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
   
   const isProcessing = uploadedImages.some(img => 
     img.status === 'uploading' || img.status === 'analyzing'
@@ -267,6 +288,60 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
   const isSingleImage = uploadedImages.length === 1;
   const isAnalyzing = isProcessing && uploadedImages.length > 0;
 
+  // More images than one batch allows become a batch job that runs in the background
+  const handleBatchJobStart = useCallback(async (files: File[], name: string, source: BatchJobSource) => {
+    const maxSize = 10 * 1024 * 1024;
+    const accepted = files.filter(file => file.size <= maxSize);
+    const skipped = files.length - accepted.length;
+
+    if (accepted.length === 0) {
+      toast({
+        title: "No images to analyze",
+        description: files.length > 0 ? "Every image is larger than 10MB." : "No JPEG, PNG, WebP or HEIC images were found.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await startBatchJob(accepted, name, source);
+      toast({
+        title: "Batch job started",
+        description: `${accepted.length} images will be analyzed in the background and saved to History.` +
+          (skipped > 0 ? ` ${skipped} image${skipped === 1 ? '' : 's'} over 10MB skipped.` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: "Could not start batch job",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [startBatchJob, toast]);
+
+  const handleFolderInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = selectImageFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+    handleBatchJobStart(files, getBatchJobName(files), 'folder');
+  }, [handleBatchJobStart]);
+
+  const handleZipInput = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive) return;
+
+    try {
+      const files = await readZipImages(archive);
+      await handleBatchJobStart(files, getBatchJobName(files, archive), 'zip');
+    } catch (error) {
+      toast({
+        title: "Could not import ZIP",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [handleBatchJobStart, toast]);
+
   // File selection handler with advanced validation
   const handleFilesSelect = useCallback(async (files: File[]) => {
     // Validate files
@@ -299,17 +374,48 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
       });
     }
     
-    // Check total limit (max 10 images including existing)
+    if (uploadedImages.length === 0 && validFiles.length > MAX_BATCH_IMAGES) {
+      handleBatchJobStart(validFiles, `${validFiles.length} images`, 'files');
+      return;
+    }
+
+    // Check total limit (including existing)
     const totalImages = uploadedImages.length + validFiles.length;
-    if (totalImages > 10) {
-      const allowedCount = Math.max(0, 10 - uploadedImages.length);
+    if (totalImages > MAX_BATCH_IMAGES) {
+      const allowedCount = Math.max(0, MAX_BATCH_IMAGES - uploadedImages.length);
       toast({
         title: "Too many images",
-        description: `Maximum 10 images allowed. Only first ${allowedCount} images will be processed.`,
+        description: `Maximum ${MAX_BATCH_IMAGES} images allowed. Only first ${allowedCount} images will be processed.`,
         variant: "destructive",
       });
       validFiles.splice(allowedCount);
     }
+
+    // Catch unusable photos while the animal is still in front of the camera
+    const qualityRejections: string[] = [];
+    const qualityWarnings: string[] = [];
+    for (const file of [...validFiles]) {
+      try {
+        const report = await assessImageFileQuality(file);
+        if (report.blocked) {
+          qualityRejections.push(`"${file.name}": ${describeImageQualityIssues(report, 'blocking')}`);
+          validFiles.splice(validFiles.indexOf(file), 1);
+        } else if (report.issues.length > 0) {
+          qualityWarnings.push(`"${file.name}": ${describeImageQualityIssues(report, 'warning')}`);
+        }
+      } catch (qualityError) {
+        // Files that can't be decoded here fail with a clearer message during analysis
+        console.warn('Image quality check failed:', qualityError);
+      }
+    }
+
+    if (qualityRejections.length > 0) {
+      toast({
+        title: "Image quality too poor",
+        description: qualityRejections.slice(0, 2).join(' ') + (qualityRejections.length > 2 ? ` ...and ${qualityRejections.length - 2} more.` : ''),
+        variant: "destructive",
+      });
+    }
     
     if (validFiles.length === 0) return;
     
@@ -324,16 +430,23 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
     
     setUploadedImages(prev => [...prev, ...newImages]);
     
+    if (qualityWarnings.length > 0 && qualityRejections.length === 0) {
+      toast({
+        title: "Check image quality",
+        description: qualityWarnings.slice(0, 2).join(' ') + (qualityWarnings.length > 2 ? ` ...and ${qualityWarnings.length - 2} more.` : ''),
+      });
+    }
+
     // Auto-start analysis for single image uploads
     if (newImages.length === 1 && uploadedImages.length === 0) {
       setTimeout(() => handleStartAnalysis([...uploadedImages, ...newImages]), 500);
-    } else {
+    } else if (qualityWarnings.length === 0 && qualityRejections.length === 0) {
       toast({
         title: "Images Added",
         description: `${validFiles.length} image${validFiles.length === 1 ? '' : 's'} ready for analysis.`,
       });
     }
-  }, [uploadedImages.length, toast]);
+  }, [uploadedImages.length, toast, handleBatchJobStart]);
 
   // Remove image handler
   const handleRemoveImage = useCallback((id: string) => {
@@ -347,12 +460,36 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
   }, []);
 
   // Start analysis for all pending images
-  const handleStartAnalysis = useCallback(async (imagesToAnalyze?: UploadedImage[]) => {
+  const handleStartAnalysis = useCallback(async (imagesToAnalyze?: UploadedImage[], { forceReanalyze = false } = {}) => {
     const targetImages = imagesToAnalyze || uploadedImages;
     const pendingImages = targetImages.filter(img => img.status === 'pending');
     if (pendingImages.length === 0) return;
+
+    // No connection - park the images in the capture queue; they're analyzed on reconnect
+    if (!navigator.onLine) {
+      try {
+        await enqueue(pendingImages.map(img => img.file));
+        const queuedIds = new Set(pendingImages.map(img => img.id));
+        pendingImages.forEach(img => URL.revokeObjectURL(img.url));
+        setUploadedImages(prev => prev.filter(img => !queuedIds.has(img.id)));
+        toast({
+          title: "Saved for later",
+          description: `You're offline. ${pendingImages.length} image${pendingImages.length === 1 ? '' : 's'} will be analyzed automatically when you're back online.`,
+        });
+      } catch (error) {
+        console.error('Failed to queue offline captures:', error);
+        toast({
+          title: "Could not save images",
+          description: "You're offline and the images could not be stored on this device. Please try again when connected.",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
     
     setLoading(true);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
     
     // Update all pending images to analyzing status
     setUploadedImages(prev => 
@@ -364,9 +501,10 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
     );
     
     try {
-      // Use the robust multi-image API for everything
+      // Images are analyzed a few at a time; each card flips as soon as its own result lands
       const files = pendingImages.map(img => img.file);
-      const batchResult = await identifyMultipleSpecies(files, (progress, message) => {
+      const finishedIndexes = new Set<number>();
+      const batchResult = await identifyBreedsBatch(files, (progress, message) => {
         // Update progress for all analyzing images
         setUploadedImages(prev => 
           prev.map(img => 
@@ -375,42 +513,64 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
               : img
           )
         );
+      }, {
+        signal: controller.signal,
+        forceReanalyze,
+        onImageResult: result => {
+          finishedIndexes.add(result.imageIndex);
+          const imageId = pendingImages[result.imageIndex]?.id;
+          setUploadedImages(prev => prev.map(img => img.id === imageId ? toFinishedImage(img, result) : img));
+        }
       });
+
+      // Finished images keep their results; the rest go back to pending so they can be analyzed again
+      if (batchResult.cancelled) {
+        const cancelledCount = pendingImages.length - finishedIndexes.size;
+        setUploadedImages(prev =>
+          prev.map(img => img.status === 'analyzing' ? { ...img, status: 'pending' as const, progress: 0 } : img)
+        );
+        if (batchResult.success) {
+          saveToHistory(files, batchResult).catch(error => {
+            console.warn('Could not save analysis to history:', error);
+          });
+        }
+        toast({
+          title: "Analysis cancelled",
+          description: `${cancelledCount} image${cancelledCount === 1 ? '' : 's'} ready to analyze again.`,
+        });
+        return;
+      }
       
-      // Update results for each image
+      // Update results for any image whose result wasn't reported as it landed
       setUploadedImages(prev => 
         prev.map(img => {
-          if (img.status === 'analyzing') {
-            const result = batchResult.results.find(r => r.fileName === img.file.name);
-            if (result) {
-              if (result.error) {
-                return { ...img, status: 'error' as const, error: result.error, progress: 100 };
-              } else {
-                return { 
-                  ...img, 
-                  status: 'complete' as const, 
-                  progress: 100,
-                  results: result
-                };
-              }
-            }
-          }
-          return img;
+          if (img.status !== 'analyzing') return img;
+          const imageIndex = pendingImages.findIndex(pending => pending.id === img.id);
+          const result = batchResult.results.find(r => r.imageIndex === imageIndex);
+          return result ? toFinishedImage(img, result) : img;
         })
       );
       
       if (batchResult.success) {
         // Store the enhanced summary for the results component
         setBatchSummary(batchResult.summary);
+        setBatchMetadata(batchResult.analysisMetadata);
+
+        // History is best-effort; a storage failure must not hide the results
+        saveToHistory(files, batchResult).catch(error => {
+          console.warn('Could not save analysis to history:', error);
+        });
         
         const successCount = batchResult.summary.successfulAnalyses;
         const totalCount = batchResult.summary.totalImages;
+        const cachedCount = batchResult.results.filter(result => result.cached).length;
         
         toast({
           title: "Analysis Complete!",
-          description: successCount === 1 && totalCount === 1 
+          description: (successCount === 1 && totalCount === 1 
             ? "Successfully identified potential breed matches in your image."
-            : `Successfully analyzed ${successCount} of ${totalCount} images. Found ${batchResult.summary.totalBreedsIdentified} breed matches.`,
+            : `Successfully analyzed ${successCount} of ${totalCount} images. Found ${batchResult.summary.totalBreedsIdentified} breed matches.`)
+            + (cachedCount > 0 ? ` ${cachedCount === totalCount ? 'Reused' : `${cachedCount} reused`} from an earlier analysis of the same photo.` : ''),
         });
         
         // Auto-navigate to results for single image
@@ -419,6 +579,7 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
         }
       } else {
         setBatchSummary(null);
+        setBatchMetadata(null);
         toast({
           title: "Analysis Failed",
           description: batchResult.error || "Some images could not be analyzed.",
@@ -443,9 +604,25 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
         variant: "destructive",
       });
     } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
       setLoading(false);
     }
-  }, [uploadedImages, setLoading, toast]);
+  }, [uploadedImages, setLoading, toast, saveToHistory, enqueue]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+  }, []);
+
+  // Sends finished images to the model again, ignoring any cached result
+  const handleReanalyze = useCallback(() => {
+    const images = uploadedImages.map(img =>
+      img.status === 'complete' || img.status === 'error'
+        ? { ...img, status: 'pending' as const, progress: 0, results: undefined, error: undefined }
+        : img
+    );
+    setUploadedImages(images);
+    handleStartAnalysis(images, { forceReanalyze: true });
+  }, [uploadedImages, handleStartAnalysis]);
 
   // Drag handlers
   const handleDragEnter = useCallback((e: React.DragEvent) => {
@@ -485,13 +662,84 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
     }
   }, [uploadedImages, onShowResults]);
 
+  // Guided capture views describe one animal, so they come back as a single result card
+  const handleGuidedCapture = useCallback(async (views: CapturedView[]) => {
+    if (!navigator.onLine) {
+      toast({
+        title: "You're offline",
+        description: "Guided capture needs a connection to analyze the views together. Try again when you're back online.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const primaryFile = views[0].file;
+    const image: UploadedImage = {
+      id: Math.random().toString(36).substring(7),
+      file: primaryFile,
+      url: URL.createObjectURL(primaryFile),
+      status: 'analyzing',
+      progress: 0,
+    };
+    setUploadedImages([image]);
+    setLoading(true);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+
+    try {
+      const batchResult = await identifyAnimalFromViews(views, progress => {
+        setUploadedImages(prev => prev.map(img => img.id === image.id ? { ...img, progress } : img));
+      }, { signal: controller.signal });
+
+      // The card stands for all the views, which can't be re-sent as a plain upload, so it is dropped
+      if (batchResult.cancelled) {
+        URL.revokeObjectURL(image.url);
+        setUploadedImages([]);
+        toast({ title: "Analysis cancelled", description: "Capture the views again to identify the animal." });
+        return;
+      }
+
+      const [result] = batchResult.results;
+
+      setUploadedImages([
+        result.error
+          ? { ...image, status: 'error' as const, error: result.error, progress: 100 }
+          : { ...image, status: 'complete' as const, progress: 100, results: result }
+      ]);
+
+      if (batchResult.success) {
+        setBatchSummary(batchResult.summary);
+        setBatchMetadata(batchResult.analysisMetadata);
+        saveToHistory([primaryFile], batchResult).catch(error => {
+          console.warn('Could not save analysis to history:', error);
+        });
+        toast({
+          title: "Analysis Complete!",
+          description: `Identified the animal from ${views.length} views.`,
+        });
+        setTimeout(() => handleViewResults(), 1000);
+      } else {
+        toast({
+          title: "Analysis Failed",
+          description: batchResult.error || "The views could not be analyzed.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
+      setLoading(false);
+    }
+  }, [setLoading, toast, saveToHistory, handleViewResults]);
+
   // Reset handler
   const handleReset = useCallback(() => {
+    analysisControllerRef.current?.abort();
     // Clean up object URLs
     uploadedImages.forEach(img => URL.revokeObjectURL(img.url));
     setUploadedImages([]);
     setShowResults(false);
     setBatchSummary(null);
+    setBatchMetadata(null);
     setLoading(false);
   }, [uploadedImages, setLoading]);
 
@@ -506,11 +754,17 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
   return (
     <>
       <SignedIn>
+        <GuidedCapture
+          open={isGuidedCaptureOpen}
+          onOpenChange={setIsGuidedCaptureOpen}
+          onComplete={handleGuidedCapture}
+        />
         {showResults ? (
           <MultiImageResultsUnified 
             images={uploadedImages} 
             onNewUpload={handleReset}
             summary={batchSummary || undefined}
+            analysisMetadata={batchMetadata || undefined}
             showEnhancedView={true}
           />
         ) : (
@@ -566,6 +820,13 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
                         <p className="text-lg sm:text-xl text-white/90 drop-shadow-lg max-w-2xl mx-auto">
                           Upload single or multiple images for AI-powered breed identification
                         </p>
+                        {(!isOnline || queuedCaptures.length > 0) && (
+                          <p className="inline-flex items-center gap-2 mt-4 px-3 py-1 rounded-full bg-amber-500/20 border border-amber-400/40 text-amber-100 text-sm">
+                            <CloudOff className="w-4 h-4" />
+                            {!isOnline ? "You're offline - images will be queued and analyzed on reconnect" : 'Waiting to analyze'}
+                            {queuedCaptures.length > 0 && ` (${queuedCaptures.length} queued)`}
+                          </p>
+                        )}
                       </motion.div>
 
                       {/* Upload Component */}
@@ -582,10 +843,62 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
                           multiple={true}
                         />
                       </div>
+
+                      <div className="flex flex-col items-center gap-2 mt-6">
+                        <Button
+                          variant="outline"
+                          onClick={() => setIsGuidedCaptureOpen(true)}
+                          className="bg-white/90 hover:bg-white"
+                        >
+                          <Camera className="w-4 h-4 mr-2" />
+                          Guided capture
+                        </Button>
+                        <p className="text-sm text-white/80 text-center max-w-md">
+                          Photograph one animal from the side, front, rear and head for a single, more reliable identification.
+                        </p>
+                      </div>
+
+                      <div className="flex flex-col items-center gap-2 mt-6">
+                        <div className="flex flex-wrap justify-center gap-2">
+                          <label>
+                            <input
+                              type="file"
+                              ref={input => input?.setAttribute('webkitdirectory', '')}
+                              onChange={handleFolderInput}
+                              disabled={batchJob?.job.status === 'running'}
+                              className="sr-only"
+                            />
+                            <Button asChild variant="outline" className="bg-white/90 hover:bg-white cursor-pointer">
+                              <span>
+                                <FolderOpen className="w-4 h-4 mr-2" />
+                                Import folder
+                              </span>
+                            </Button>
+                          </label>
+                          <label>
+                            <input
+                              type="file"
+                              accept=".zip,application/zip"
+                              onChange={handleZipInput}
+                              disabled={batchJob?.job.status === 'running'}
+                              className="sr-only"
+                            />
+                            <Button asChild variant="outline" className="bg-white/90 hover:bg-white cursor-pointer">
+                              <span>
+                                <FileArchive className="w-4 h-4 mr-2" />
+                                Import ZIP
+                              </span>
+                            </Button>
+                          </label>
+                        </div>
+                        <p className="text-sm text-white/80 text-center max-w-md">
+                          Analyze hundreds of photos as a batch job that keeps running while you use the rest of the app.
+                        </p>
+                      </div>
                     </div>
                   ) : isSingleImage && isAnalyzing ? (
                     /* Single image analyzing */
-                    <SingleImageAnalyzingContainer image={uploadedImages[0]} />
+                    <SingleImageAnalyzingContainer image={uploadedImages[0]} onCancel={handleCancelAnalysis} />
                   ) : (
                     /* Multiple images or completed single image */
                     <div className="w-full space-y-6 sm:space-y-8">
@@ -666,6 +979,19 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
                               </Button>
                             )}
                             
+                            {/* Cancel Button */}
+                            {isProcessing && (
+                              <Button
+                                onClick={handleCancelAnalysis}
+                                size="sm"
+                                variant="outline"
+                                className="text-xs sm:text-sm"
+                              >
+                                <Square className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                                Cancel
+                              </Button>
+                            )}
+
                             {/* View Results Button */}
                             {completedImages.length > 0 && (
                               <Button
@@ -680,6 +1006,22 @@ const UploadUltimate = memo<UploadUltimateProps>(({ onShowResults }) => {
                               </Button>
                             )}
 
+                            {/* Re-analyze Button */}
+                            {!isProcessing && (completedImages.length > 0 || hasErrors) && (
+                              <Button
+                                onClick={handleReanalyze}
+                                size="sm"
+                                variant="outline"
+                                className="text-xs sm:text-sm"
+                                title="Analyze again without reusing cached results"
+                              >
+                                <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                                Re-analyze
+                              </Button>
+                            )}
+
+                            <AnalysisCacheDialog triggerClassName="text-xs sm:text-sm" />
+
                             {/* Reset Button */}
                             <Button
                               onClick={handleReset}
@@ -0,0 +1,89 @@
+// Analysis result cache - results are stored in IndexedDB by image content hash, model and prompt version
+// so re-uploading a photo doesn't cost another model call
+import { AnalysisCacheEntry, AnalysisCacheStats, CachedImageResult } from '@/types/analysisCache';
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+import {
+  STORES,
+  clearStore,
+  countRecords,
+  deleteRecord,
+  deleteRecordsByIndexRange,
+  getRecord,
+  putRecord
+} from '@/lib/localDatabase';
+import {
+  createAnalysisCacheEntry,
+  getAnalysisCacheKey,
+  getAnalysisCacheTtlMs,
+  isAnalysisCacheEntryFresh,
+  isCacheableResult
+} from '@/lib/analysisCache';
+
+const STATS_STORAGE_KEY = 'pashudhan-lens:analysis-cache-stats';
+
+const emptyStats = (): AnalysisCacheStats => ({ hits: 0, misses: 0, since: new Date().toISOString() });
+
+const readStats = (): AnalysisCacheStats => {
+  try {
+    const stored = localStorage.getItem(STATS_STORAGE_KEY);
+    return stored ? { ...emptyStats(), ...JSON.parse(stored) } : emptyStats();
+  } catch {
+    return emptyStats();
+  }
+};
+
+export const isAnalysisCacheEnabled = (): boolean => getAnalysisCacheTtlMs() > 0;
+
+export const getCachedAnalysis = async (
+  contentHash: string,
+  model: string,
+  promptVersion: string
+): Promise<CachedImageResult | undefined> => {
+  const key = getAnalysisCacheKey(contentHash, model, promptVersion);
+  const entry = await getRecord<AnalysisCacheEntry>(STORES.analysisCache, key);
+  if (!entry) return undefined;
+
+  if (!isAnalysisCacheEntryFresh(entry)) {
+    await deleteRecord(STORES.analysisCache, key);
+    return undefined;
+  }
+  return entry.result;
+};
+
+// Results that failed or found no breed are skipped; returns whether the result was stored
+export const cacheAnalysisResult = async (
+  contentHash: string,
+  model: string,
+  promptVersion: string,
+  result: MultiImageBreedResult
+): Promise<boolean> => {
+  if (!isAnalysisCacheEnabled() || !isCacheableResult(result)) return false;
+
+  await putRecord(STORES.analysisCache, createAnalysisCacheEntry(contentHash, model, promptVersion, result, getAnalysisCacheTtlMs()));
+  return true;
+};
+
+export const recordAnalysisCacheLookups = (hits: number, misses: number) => {
+  if (hits === 0 && misses === 0) return;
+
+  const stats = readStats();
+  try {
+    localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify({ ...stats, hits: stats.hits + hits, misses: stats.misses + misses }));
+  } catch (error) {
+    console.warn('Could not save analysis cache stats:', error);
+  }
+};
+
+export const pruneExpiredAnalyses = (): Promise<number> =>
+  deleteRecordsByIndexRange(STORES.analysisCache, 'expiresAt', IDBKeyRange.upperBound(Date.now()));
+
+export const getAnalysisCacheStats = async (): Promise<AnalysisCacheStats & { entries: number }> => {
+  await pruneExpiredAnalyses();
+  return { ...readStats(), entries: await countRecords(STORES.analysisCache) };
+};
+
+// Drops every stored result and starts the hit/miss counts over
+export const clearAnalysisCache = async (): Promise<void> => {
+  await clearStore(STORES.analysisCache);
+  localStorage.removeItem(STATS_STORAGE_KEY);
+};
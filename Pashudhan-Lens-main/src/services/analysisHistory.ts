@@ -0,0 +1,115 @@
+// Local analysis history - every successfully analyzed image is kept in IndexedDB
+import { BatchBreedAnalysisResult, FusedBreedAnalysisResult, MultiImageBreedResult } from '@/types/breedIdentification';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { fusedResultRequiresReview, toFusedImageResult } from '@/lib/breedFusion';
+import { requiresReview } from '@/lib/breedReview';
+import { computeSha256 } from '@/lib/fileHash';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from '@/lib/localDatabase';
+import { ImageProcessingOptions, processImageFile } from '@/services/breedAnalysis';
+
+// Large enough to reopen in the Results view, small enough to keep hundreds of records
+const THUMBNAIL_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 480,
+  maxEncodedSize: 96 * 1024,
+  initialQuality: 0.7
+};
+
+const createHistoryId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+export const createThumbnail = async (file: File): Promise<string> => {
+  const { base64, mimeType } = await processImageFile(file, THUMBNAIL_PROCESSING);
+  return `data:${mimeType};base64,${base64}`;
+};
+
+const collectBreedNames = (result: MultiImageBreedResult): string[] =>
+  Array.from(new Set(result.breeds.flatMap(breed => [breed.species, breed.commonName].filter(Boolean))));
+
+// Save one record per image that produced breeds; failed images have nothing worth reopening
+export const saveBatchToHistory = async (
+  files: File[],
+  batch: BatchBreedAnalysisResult,
+  capturedAt: (string | undefined)[] = []
+): Promise<AnalysisHistoryRecord[]> => {
+  const createdAt = new Date().toISOString();
+  const saved: AnalysisHistoryRecord[] = [];
+
+  for (const result of batch.results) {
+    const file = files[result.imageIndex];
+    if (!file || result.error || result.breeds.length === 0) continue;
+
+    const record: AnalysisHistoryRecord = {
+      id: createHistoryId(),
+      createdAt,
+      capturedAt: capturedAt[result.imageIndex],
+      fileName: file.name,
+      imageSha256: await computeSha256(file),
+      thumbnail: await createThumbnail(file),
+      result,
+      breedNames: collectBreedNames(result),
+      model: batch.analysisMetadata.model ?? 'unknown',
+      promptVersion: batch.analysisMetadata.promptVersion,
+      processingTime: result.processingTime ?? batch.summary.processingTime,
+      needsReview: requiresReview(result)
+    };
+
+    await putRecord(STORES.analysisHistory, record);
+    saved.push(record);
+  }
+
+  return saved;
+};
+
+// One record for the whole animal; the first photo supplies the thumbnail and the primary hash
+export const saveFusedResultToHistory = async (
+  fused: FusedBreedAnalysisResult,
+  files: File[]
+): Promise<AnalysisHistoryRecord> => {
+  if (!fused.success || files.length === 0) {
+    throw new Error('Only a successful merge of selected photos can be saved.');
+  }
+
+  const fusedFrom = await Promise.all(files.map(async file => ({
+    fileName: file.name,
+    imageSha256: await computeSha256(file)
+  })));
+  const fileName = files.map(file => file.name).join(' + ');
+  const result = toFusedImageResult(fused, fileName);
+
+  const record: AnalysisHistoryRecord = {
+    id: createHistoryId(),
+    createdAt: new Date().toISOString(),
+    fileName,
+    imageSha256: fusedFrom[0].imageSha256,
+    thumbnail: await createThumbnail(files[0]),
+    result,
+    breedNames: collectBreedNames(result),
+    model: fused.analysisMetadata.model ?? 'unknown',
+    promptVersion: fused.analysisMetadata.promptVersion ?? 'unknown',
+    processingTime: 0, // Merging makes no model call
+    needsReview: fusedResultRequiresReview(fused),
+    fusedFrom
+  };
+
+  await putRecord(STORES.analysisHistory, record);
+  return record;
+};
+
+// Newest first
+export const listAnalysisHistory = async (): Promise<AnalysisHistoryRecord[]> => {
+  const records = await getAllRecords<AnalysisHistoryRecord>(STORES.analysisHistory);
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getAnalysisHistoryRecord = (id: string): Promise<AnalysisHistoryRecord | undefined> =>
+  getRecord<AnalysisHistoryRecord>(STORES.analysisHistory, id);
+
+export const deleteAnalysisHistoryRecord = (id: string): Promise<void> =>
+  deleteRecord(STORES.analysisHistory, id);
+
+// Case-insensitive match against any identified breed's official or local name
+export const filterHistoryByBreed = (records: AnalysisHistoryRecord[], query: string): AnalysisHistoryRecord[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return records;
+  return records.filter(record => record.breedNames.some(name => name.toLowerCase().includes(needle)));
+};
@@ -0,0 +1,67 @@
+// Animal records linked to their INAPH/UID ear tag, stored locally until BPA export
+import { AnimalAiSuggestions, AnimalPhoto, AnimalRecord } from '@/types/animalRecord';
+import { AnimalRecordFormValues } from '@/lib/animalRecordSchema';
+import { findBreed } from '@/lib/breedRegistry';
+import { STORES, getAllRecords, getRecord, getRecordByIndex, putRecord } from '@/lib/localDatabase';
+import { createThumbnail } from '@/services/analysisHistory';
+import { toImageFile } from '@/services/breedAnalysis';
+
+const createAnimalId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Object URLs die with the page, so photos are stored as thumbnails
+export const createAnimalPhoto = async (
+  source: File | string,
+  fileName: string,
+  historyRecordId?: string
+): Promise<AnimalPhoto> => {
+  if (typeof source === 'string' && source.startsWith('data:')) {
+    return { thumbnail: source, fileName, historyRecordId };
+  }
+
+  const file = await toImageFile(source, fileName);
+  return { thumbnail: await createThumbnail(file), fileName, historyRecordId };
+};
+
+export const findAnimalByEarTag = (earTagId: string): Promise<AnimalRecord | undefined> =>
+  getRecordByIndex<AnimalRecord>(STORES.animals, 'earTagId', earTagId);
+
+export const saveAnimalRecord = async (
+  values: AnimalRecordFormValues,
+  options: { suggestions: AnimalAiSuggestions; photos: AnimalPhoto[] }
+): Promise<AnimalRecord> => {
+  const existing = await findAnimalByEarTag(values.earTagId);
+  if (existing) {
+    throw new Error(`Ear tag ${values.earTagId} is already registered to an animal owned by ${existing.ownerName}.`);
+  }
+
+  const now = new Date().toISOString();
+  const record: AnimalRecord = {
+    id: createAnimalId(),
+    earTagId: values.earTagId,
+    ownerName: values.ownerName,
+    village: values.village,
+    sex: values.sex,
+    dateOfBirth: values.dateOfBirth,
+    ageClass: values.ageClass,
+    breedId: findBreed(values.breedName)?.id,
+    breedName: values.breedName,
+    sizeClass: values.sizeClass,
+    photos: options.photos,
+    aiSuggestions: options.suggestions,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await putRecord(STORES.animals, record);
+  return record;
+};
+
+export const getAnimalRecord = (id: string): Promise<AnimalRecord | undefined> =>
+  getRecord<AnimalRecord>(STORES.animals, id);
+
+// Newest first
+export const listAnimalRecords = async (): Promise<AnimalRecord[]> => {
+  const records = await getAllRecords<AnimalRecord>(STORES.animals);
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
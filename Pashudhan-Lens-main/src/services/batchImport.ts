@@ -0,0 +1,37 @@
+// Reads the images out of a picked folder or a ZIP archive for a batch job
+import { unzip } from 'fflate';
+import { getImageMimeType } from '@/lib/batchJob';
+
+// Imported files are named by their path inside the folder or archive, so farmA/cow1.jpg and farmB/cow1.jpg
+// stay apart in the job, History and the export. webkitRelativePath doesn't survive IndexedDB, the name does
+const toImportedFile = (data: BlobPart, path: string, lastModified?: number): File =>
+  new File([data], path, { type: getImageMimeType(path), lastModified });
+
+// Folder picks include every file in the tree; keep images, in path order, with a MIME type the pipeline accepts
+export const selectImageFiles = (files: File[]): File[] =>
+  files
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .filter(({ path }) => getImageMimeType(path))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(({ file, path }) => file.type && file.name === path ? file : toImportedFile(file, path, file.lastModified));
+
+export const readZipImages = async (archive: File): Promise<File[]> => {
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, { filter: entry => !!getImageMimeType(entry.name) }, (error, result) => {
+      if (error) reject(new Error(`Could not read ${archive.name}. Make sure it is a valid ZIP archive.`));
+      else resolve(result);
+    });
+  });
+
+  return Object.keys(entries)
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => toImportedFile(entries[path], path));
+};
+
+// The top-level folder of a directory pick, or the archive name without its extension
+export const getBatchJobName = (files: File[], archive?: File): string => {
+  if (archive) return archive.name.replace(/\.zip$/i, '');
+  const [folder, ...rest] = files[0]?.name.split('/') ?? [];
+  return rest.length > 0 ? folder : `${files.length} images`;
+};
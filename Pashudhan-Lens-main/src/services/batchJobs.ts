@@ -0,0 +1,220 @@
+// Batch jobs - hundreds of images stored in IndexedDB and analyzed chunk by chunk in the background.
+// The run lives in this module, not a component, so it keeps going while the user moves around the app
+import { BatchJob, BatchJobItem, BatchJobSnapshot, BatchJobSource } from '@/types/batchJob';
+import {
+  STORES,
+  deleteRecord,
+  getAllRecords,
+  getAllRecordsByIndex,
+  putRecord
+} from '@/lib/localDatabase';
+import {
+  getBatchJobBackoff,
+  getBatchJobChunkSize,
+  getBatchJobItemOutcome,
+  getBatchJobPacingDelay,
+  getBatchJobRateLimit,
+  summarizeBatchJobItems
+} from '@/lib/batchJob';
+import { isAbortError, sleep } from '@/lib/retry';
+import { identifyBreedsBatch } from '@/services/breedAnalysis';
+import { saveBatchToHistory } from '@/services/analysisHistory';
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+
+type BatchJobListener = (snapshot: BatchJobSnapshot | null) => void;
+
+const listeners = new Set<BatchJobListener>();
+let activeRun: Promise<void> | null = null;
+let runController: AbortController | null = null;
+
+// When this tab's batch requests reached the proxy; kept across pause and resume so resuming can't burst
+let requestTimes: number[] = [];
+
+const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+const listBatchJobItems = async (jobId: string): Promise<BatchJobItem[]> => {
+  const items = await getAllRecordsByIndex<BatchJobItem>(STORES.batchJobItems, 'jobId', jobId);
+  return items.sort((a, b) => a.position - b.position);
+};
+
+// Only one job exists at a time; a finished one stays until the next replaces it
+export const getCurrentBatchJob = async (): Promise<BatchJob | undefined> => {
+  const jobs = await getAllRecords<BatchJob>(STORES.batchJobs);
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
+
+export const getBatchJobSnapshot = async (): Promise<BatchJobSnapshot | null> => {
+  const job = await getCurrentBatchJob();
+  if (!job) return null;
+
+  // A job saved as running with no run in this tab was interrupted by a reload
+  const status = job.status === 'running' && !activeRun ? 'paused' : job.status;
+  return { job: { ...job, status }, progress: summarizeBatchJobItems(await listBatchJobItems(job.id)) };
+};
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const snapshot = await getBatchJobSnapshot();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeToBatchJob = (listener: BatchJobListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateJob = async (job: BatchJob, changes: Partial<BatchJob>): Promise<BatchJob> => {
+  const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  await putRecord(STORES.batchJobs, updated);
+  await notify();
+  return updated;
+};
+
+const deleteJob = async (jobId: string) => {
+  for (const item of await listBatchJobItems(jobId)) {
+    await deleteRecord(STORES.batchJobItems, item.id);
+  }
+  await deleteRecord(STORES.batchJobs, jobId);
+};
+
+export const createBatchJob = async (files: File[], name: string, source: BatchJobSource): Promise<BatchJob> => {
+  if (files.length === 0) throw new Error('No images found to analyze');
+
+  const current = await getCurrentBatchJob();
+  if (current && current.status !== 'completed') {
+    throw new Error('Finish or discard the current batch job before starting another');
+  }
+  if (current) await deleteJob(current.id);
+
+  const now = new Date().toISOString();
+  const job: BatchJob = { id: createId(), name, source, createdAt: now, updatedAt: now, status: 'paused', total: files.length };
+
+  for (const [position, file] of files.entries()) {
+    const item: BatchJobItem = { id: createId(), jobId: job.id, position, fileName: file.name, file, status: 'pending', attempts: 0 };
+    await putRecord(STORES.batchJobItems, item);
+  }
+  await putRecord(STORES.batchJobs, job);
+  await notify();
+  return job;
+};
+
+const recordItemResult = async (item: BatchJobItem, result: MultiImageBreedResult) => {
+  const { status, attempts } = getBatchJobItemOutcome(item, result);
+  const topBreed = result.breeds[0];
+  await putRecord(STORES.batchJobItems, {
+    ...item,
+    status,
+    attempts,
+    error: result.error,
+    topBreed: topBreed?.species,
+    confidence: topBreed?.confidence,
+    // Finished items drop their image; History keeps a thumbnail of identified ones
+    file: status === 'pending' ? item.file : undefined
+  });
+  await notify();
+};
+
+// Shows the wait in the panel; the job stays running throughout
+const waitBeforeChunk = async (job: BatchJob, delayMs: number, signal: AbortSignal): Promise<BatchJob> => {
+  if (delayMs <= 0) return job;
+  job = await updateJob(job, { waitingUntil: new Date(Date.now() + delayMs).toISOString() });
+  await sleep(delayMs, signal);
+  return updateJob(job, { waitingUntil: undefined });
+};
+
+const runBatchJob = async (signal: AbortSignal) => {
+  let job = await getCurrentBatchJob();
+  if (!job || job.status === 'completed') return;
+  job = await updateJob(job, { status: 'running', lastError: undefined, waitingUntil: undefined });
+
+  const rateLimit = getBatchJobRateLimit();
+  let backoffMs = 0;
+
+  try {
+    for (;;) {
+      const pending = (await listBatchJobItems(job.id)).filter(item => item.status === 'pending');
+      if (pending.length === 0) {
+        await updateJob(job, { status: 'completed' });
+        return;
+      }
+      if (!navigator.onLine) {
+        await updateJob(job, { status: 'paused', lastError: 'Connection lost. Resume when you are back online.' });
+        return;
+      }
+
+      const chunk = pending.slice(0, getBatchJobChunkSize(rateLimit));
+      requestTimes = requestTimes.filter(time => time > Date.now() - rateLimit.windowMs);
+      job = await waitBeforeChunk(
+        job,
+        Math.max(backoffMs, getBatchJobPacingDelay(requestTimes, chunk.length, rateLimit)),
+        signal
+      );
+
+      const files = chunk.map(item => item.file);
+      const updates: Promise<void>[] = [];
+      const batch = await identifyBreedsBatch(files, undefined, {
+        signal,
+        onImageResult: result => {
+          if (!result.cached) requestTimes.push(Date.now());
+          updates.push(recordItemResult(chunk[result.imageIndex], result));
+        }
+      });
+      await Promise.all(updates);
+
+      // History is best-effort; a storage failure must not stop the job
+      await saveBatchToHistory(files, batch).catch(error => {
+        console.warn('Could not save batch job results to history:', error);
+      });
+
+      if (batch.cancelled) {
+        await updateJob(job, { status: 'paused' });
+        return;
+      }
+
+      // Any failed request pauses the whole job before the next chunk, for as long as Retry-After asks
+      backoffMs = getBatchJobBackoff(batch.results);
+    }
+  } catch (error) {
+    const current = await getCurrentBatchJob();
+    if (current?.id !== job.id) return; // Discarded while running
+    if (isAbortError(error)) {
+      await updateJob(job, { status: 'paused', waitingUntil: undefined });
+    } else {
+      console.error('Batch job stopped:', error);
+      await updateJob(job, {
+        status: 'paused',
+        waitingUntil: undefined,
+        lastError: error instanceof Error ? error.message : 'Batch job stopped'
+      });
+    }
+  }
+};
+
+// Starts or resumes the current job; calls while it is already running share the same run
+export const startBatchJob = (): Promise<void> => {
+  if (!activeRun) {
+    runController = new AbortController();
+    activeRun = runBatchJob(runController.signal).finally(() => {
+      activeRun = null;
+      runController = null;
+      notify();
+    });
+  }
+  return activeRun;
+};
+
+// Images being analyzed when the job pauses go back to pending and are picked up on resume
+export const pauseBatchJob = async (): Promise<void> => {
+  runController?.abort();
+  await activeRun;
+};
+
+export const discardBatchJob = async (): Promise<void> => {
+  await pauseBatchJob();
+  const job = await getCurrentBatchJob();
+  if (job) await deleteJob(job.id);
+  await notify();
+};
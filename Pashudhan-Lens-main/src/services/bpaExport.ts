@@ -0,0 +1,76 @@
+// Collects analyzed images from the results view or history and downloads them as a BPA payload
+import { BatchBreedAnalysisResult, StandardizedBreedIdentification, UploadedImage } from '@/types/breedIdentification';
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BpaExportFileType } from '@/types/bpaExport';
+import { BpaExportSource, createBpaExportPayload, toBpaCsv, toBpaJson } from '@/lib/bpaExport';
+import { computeSha256 } from '@/lib/fileHash';
+import { toImageFile } from '@/services/breedAnalysis';
+
+export const createBatchExportSources = async (
+  images: UploadedImage[],
+  metadata?: BatchBreedAnalysisResult['analysisMetadata']
+): Promise<BpaExportSource[]> => {
+  const analyzed = images.filter(image => image.status === 'complete' && image.results);
+
+  return Promise.all(analyzed.map(async image => ({
+    result: image.results,
+    fileName: image.file.name,
+    imageSha256: await computeSha256(image.file),
+    analyzedAt: metadata?.timestamp ?? new Date().toISOString(),
+    model: metadata?.model,
+    promptVersion: metadata?.promptVersion
+  })));
+};
+
+// Single-image views only hold an object or data URL, so the image is re-read to hash it
+export const createImageExportSource = async (
+  imageUrl: string,
+  breeds: StandardizedBreedIdentification[],
+  fileName: string
+): Promise<BpaExportSource> => ({
+  result: { imageIndex: 0, fileName, breeds },
+  fileName,
+  imageSha256: await computeSha256(await toImageFile(imageUrl, fileName)),
+  analyzedAt: new Date().toISOString()
+});
+
+// Oldest first, so record numbers follow the order animals were seen
+export const createHistoryExportSources = (records: AnalysisHistoryRecord[]): BpaExportSource[] =>
+  [...records]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(record => ({
+      result: record.result,
+      fileName: record.fileName,
+      imageSha256: record.imageSha256,
+      analyzedAt: record.createdAt,
+      model: record.model,
+      promptVersion: record.promptVersion,
+      review: record.review
+    }));
+
+const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Returns the number of rows written
+export const downloadBpaExport = (sources: BpaExportSource[], fileType: BpaExportFileType): number => {
+  const payload = createBpaExportPayload(sources);
+  const stamp = payload.generatedAt.slice(0, 19).replace(/[:T]/g, '-');
+  const fileName = `bpa-registration-v${payload.version}-${stamp}.${fileType}`;
+
+  if (fileType === 'csv') {
+    downloadTextFile(toBpaCsv(payload), fileName, 'text/csv;charset=utf-8');
+  } else {
+    downloadTextFile(toBpaJson(payload), fileName, 'application/json');
+  }
+
+  return payload.rowCount;
+};
@@ -0,0 +1,793 @@
+// Unified breed analysis service for single and multi-image identification
+// Standardized for BPA (Bharat Pashudhan App) integration
+import {
+  SingleImageBreedResult,
+  MultiImageBreedResult,
+  StandardizedBreedIdentification,
+  BatchBreedAnalysisResult,
+  BREED_ERROR_CODES,
+  BreedValidationReport
+} from '@/types/breedIdentification';
+import {
+  ValidatedImageAnalysis,
+  analysisResponseSchema,
+  validateAnalysisResponse
+} from '@/lib/breedResponseSchema';
+import {
+  QUALITY_SAMPLE_DIMENSION,
+  assessImageQuality,
+  computeImageQualityScores,
+  describeImageQualityIssues,
+  formatImageQualityNotes
+} from '@/lib/imageQuality';
+import { getCaptureView } from '@/lib/captureViews';
+import { BREED_RANKING_SIZE, rankBreeds } from '@/lib/breedRanking';
+import { getTopBreed } from '@/lib/breedReview';
+import { isAbortError } from '@/lib/retry';
+import { MAX_BATCH_IMAGES } from '@/lib/validation';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { computeSha256Base64 } from '@/lib/fileHash';
+import { ImageQualityReport } from '@/types/imageQuality';
+import { CachedImageResult } from '@/types/analysisCache';
+import { CapturedView } from '@/types/guidedCapture';
+import {
+  BreedProviderError,
+  ProviderResponseSchema,
+  getBreedIdentificationProvider,
+  zodToResponseSchema
+} from '@/services/providers';
+import {
+  cacheAnalysisResult,
+  getCachedAnalysis,
+  isAnalysisCacheEnabled,
+  recordAnalysisCacheLookups
+} from '@/services/analysisCache';
+
+export { MAX_BATCH_IMAGES };
+// Per-image requests in flight at once during batch analysis
+export const BATCH_CONCURRENCY = 3;
+// Bump whenever the prompt or response schema changes so stored results can be traced to it
+export const BREED_ANALYSIS_PROMPT_VERSION = '5';
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_REQUEST_SIZE = 20 * 1024 * 1024; // 20MB Gemini inline data limit
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+export interface ImageProcessingOptions {
+  maxDimension: number; // Max width/height in pixels
+  maxEncodedSize: number; // Max base64 data URL length
+  initialQuality: number; // Starting JPEG quality
+}
+
+// A single image gets more pixels; batches compress harder to stay under request limits
+export const SINGLE_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 1024,
+  maxEncodedSize: 1024 * 1024,
+  initialQuality: 0.8
+};
+
+export const BATCH_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 768,
+  maxEncodedSize: 800 * 1024,
+  initialQuality: 0.7
+};
+
+export interface ProcessedImage {
+  base64: string;
+  mimeType: string;
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+const USER_FACING_ERRORS: Record<string, string> = {
+  [BREED_ERROR_CODES.NOT_CATTLE_BUFFALO]: 'This image does not contain cattle or buffalo. Please upload an image of cattle or buffalo for breed identification.',
+  [BREED_ERROR_CODES.NON_INDIAN_BREED]: 'The animals in this image appear to be a foreign breed that is not kept in Indian herds. Please upload an image of cattle or buffalo registered in India for BPA registration.',
+  [BREED_ERROR_CODES.POOR_IMAGE_QUALITY]: 'The image quality is too poor or animals are not clearly visible. Please upload a clearer, well-lit image showing the animals\' distinctive features.',
+  [BREED_ERROR_CODES.NO_ANIMALS_VISIBLE]: 'No animals are clearly visible in this image. Please upload an image that clearly shows cattle or buffalo.'
+};
+
+// Validate file size and type before any processing
+export const validateImageFile = (file: File): void => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`Image ${file.name} is too large. Please upload an image smaller than 10MB.`);
+  }
+
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type.toLowerCase())) {
+    throw new Error(`Unsupported file format for ${file.name}. Please upload a JPEG, PNG, WEBP, or HEIC image.`);
+  }
+};
+
+// Views that only hold an object or data URL re-read the image into a File for processing
+export const toImageFile = async (source: File | string, fileName: string): Promise<File> => {
+  if (typeof source !== 'string') return source;
+  const blob = await (await fetch(source)).blob();
+  return new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+};
+
+// Resize and compress an image on a canvas so it fits the model's request limits
+export const processImageFile = (
+  file: File,
+  options: ImageProcessingOptions = SINGLE_IMAGE_PROCESSING
+): Promise<ProcessedImage> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Canvas context not available. Please try again or use a different browser.'));
+        return;
+      }
+
+      const img = new Image();
+
+      img.onload = () => {
+        try {
+          // Validate image dimensions
+          if (img.width < 50 || img.height < 50) {
+            reject(new Error(`Image ${file.name} is too small. Please upload an image that is at least 50x50 pixels.`));
+            return;
+          }
+
+          if (img.width > 10000 || img.height > 10000) {
+            reject(new Error(`Image ${file.name} dimensions are too large. Please upload a smaller image.`));
+            return;
+          }
+
+          // Calculate optimal dimensions while maintaining aspect ratio
+          let { width, height } = img;
+
+          if (width > height) {
+            if (width > options.maxDimension) {
+              height = (height * options.maxDimension) / width;
+              width = options.maxDimension;
+            }
+          } else {
+            if (height > options.maxDimension) {
+              width = (width * options.maxDimension) / height;
+              height = options.maxDimension;
+            }
+          }
+
+          canvas.width = width;
+          canvas.height = height;
+
+          // Draw and compress
+          ctx.drawImage(img, 0, 0, width, height);
+
+          // Start with high quality and reduce until under size limit
+          let quality = options.initialQuality;
+          let result = canvas.toDataURL('image/jpeg', quality);
+
+          while (result.length > options.maxEncodedSize && quality > 0.1) {
+            quality -= 0.1;
+            result = canvas.toDataURL('image/jpeg', quality);
+          }
+
+          if (result.length > options.maxEncodedSize) {
+            reject(new Error(`Unable to compress ${file.name} to an acceptable size. Please use a smaller or simpler image.`));
+            return;
+          }
+
+          const base64 = result.split(',')[1];
+          if (!base64) {
+            reject(new Error(`Failed to process image data for ${file.name}. Please try with a different image.`));
+            return;
+          }
+
+          resolve({
+            base64,
+            mimeType: 'image/jpeg',
+            fileName: file.name,
+            width: Math.round(width),
+            height: Math.round(height)
+          });
+        } catch (processingError) {
+          reject(new Error(`Error processing ${file.name}. Please try with a different image.`));
+        }
+      };
+
+      img.onerror = () => {
+        reject(new Error(`Failed to load image: ${file.name}. Please ensure the file is a valid image format.`));
+      };
+
+      const objectUrl = URL.createObjectURL(file);
+      img.src = objectUrl;
+
+      // Clean up object URL after some time to prevent memory leaks
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 10000);
+    } catch (error) {
+      reject(new Error(`Image processing failed for ${file.name}. Please try again with a different image.`));
+    }
+  });
+};
+
+interface ImageSample {
+  pixels: ImageData; // Downscaled to QUALITY_SAMPLE_DIMENSION
+  width: number; // Original dimensions
+  height: number;
+}
+
+// Decode once into a small canvas; quality scoring and content hashing both read these pixels
+const loadImageSample = (file: File): Promise<ImageSample> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!ctx) {
+      reject(new Error('Canvas context not available. Please try again or use a different browser.'));
+      return;
+    }
+
+    const img = new Image();
+    const objectUrl = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      try {
+        const scale = Math.min(1, QUALITY_SAMPLE_DIMENSION / Math.max(img.width, img.height));
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+        resolve({ pixels: ctx.getImageData(0, 0, canvas.width, canvas.height), width: img.width, height: img.height });
+      } catch (assessError) {
+        reject(new Error(`Could not check the quality of ${file.name}. Please try with a different image.`));
+      }
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error(`Failed to load image: ${file.name}. Please ensure the file is a valid image format.`));
+    };
+
+    img.src = objectUrl;
+  });
+};
+
+const assessImageSample = ({ pixels, width, height }: ImageSample): ImageQualityReport =>
+  assessImageQuality(computeImageQualityScores(pixels, { width, height }));
+
+// Score blur, exposure, resolution and aspect on a downscaled copy, without encoding anything
+export const assessImageFileQuality = async (file: File): Promise<ImageQualityReport> =>
+  assessImageSample(await loadImageSample(file));
+
+// Process several images, at most 3 at a time to avoid memory spikes on low-end devices
+export const processImageFiles = async (
+  files: File[],
+  options: ImageProcessingOptions = BATCH_IMAGE_PROCESSING
+): Promise<ProcessedImage[]> => {
+  const maxConcurrent = 3;
+  const results: ProcessedImage[] = [];
+
+  for (let i = 0; i < files.length; i += maxConcurrent) {
+    const batch = files.slice(i, i + maxConcurrent);
+    results.push(...await Promise.all(batch.map(file => processImageFile(file, options))));
+  }
+
+  return results;
+};
+
+export const BREED_ANALYSIS_RESPONSE_SCHEMA: ProviderResponseSchema = zodToResponseSchema(analysisResponseSchema);
+
+// Domain guidance only - the output shape is enforced by BREED_ANALYSIS_RESPONSE_SCHEMA
+export const createBreedAnalysisPrompt = (imageCount: number): string => {
+  return `You are an expert veterinarian and animal breed specialist with extensive knowledge of Indian cattle and buffalo breeds. You are analyzing ${imageCount} image${imageCount === 1 ? '' : 's'} for breed identification to support the Bharat Pashudhan App (BPA) registration system.
+
+ANALYSIS REQUIREMENTS:
+1. Analyze each image separately and independently, returning one entry per image with image_index starting from 0
+2. Only identify if you can clearly see cattle or buffalo in the image
+3. Identify breeds found in Indian herds: indigenous breeds, Indian-developed breeds such as Karan Fries, and exotic dairy breeds such as Holstein Friesian and Jersey
+4. Focus on breed characteristics like body structure, color patterns, ear shape, horn structure, hump and facial features
+5. Describe characteristics as "Not clearly visible" when they cannot be seen
+
+BREED TYPE - set breedType for every breed entry:
+- purebred: the animal matches one supported breed; put that breed in species
+- crossbred: the animal mixes traits of identifiable breeds (e.g. an HF x Gir cross); set species to "Crossbred" and list each contributing breed in composition with an approximate percentage, largest first, summing to 100
+- nondescript: a local animal with no recognizable breed ancestry; set species to "Non-descript" and leave composition empty
+Most dairy animals in the field are exotic crosses or non-descript - do not force them into a purebred breed. Set isIndianBreed to false only for purebred exotic breeds.
+
+ERROR CASES - If no breed can be identified in an image, return an empty breeds list with the matching error code and a message explaining why:
+- ${BREED_ERROR_CODES.NOT_CATTLE_BUFFALO}: the image does not show cattle or buffalo
+- ${BREED_ERROR_CODES.NON_INDIAN_BREED}: the animals are purebred foreign breeds outside the supported list and not kept in India
+- ${BREED_ERROR_CODES.POOR_IMAGE_QUALITY}: the image is too blurry or dark to see distinctive features
+- ${BREED_ERROR_CODES.NO_ANIMALS_VISIBLE}: no animals are clearly visible
+
+RANKED CANDIDATES - breeds is a ranked list, not a list of animals:
+- Return up to ${BREED_RANKING_SIZE} candidate breeds for the animal, most likely first
+- Give each candidate the probability, from 0 to 100, that it is the animal's breed; the confidences of one image must add up to at most 100, leaving the rest for breeds you did not list
+- When two breeds are almost equally likely, give them close confidences rather than picking one at random
+
+GUIDANCE:
+- Focus on accuracy over speed - only list breeds the visible characteristics support
+- Use alternativePossibleBreeds for further breeds worth checking beyond the ranked candidates`;
+};
+
+// Guided capture sends several views of one animal and wants a single verdict back
+export const createAnimalViewsPrompt = (views: CapturedView['view'][]): string => {
+  return `${createBreedAnalysisPrompt(views.length)}
+
+SAME ANIMAL, SEVERAL VIEWS - this replaces requirement 1 above:
+All ${views.length} images show the same individual animal from different angles:
+${views.map((view, index) => `- Image ${index}: ${getCaptureView(view).modelDescription}`).join('\n')}
+
+Combine the evidence from every view into ONE identification and return exactly one entry with image_index 0. Judge each trait from the view that shows it best, and if the views point to different breeds, choose the breed most consistent with all of them and list the others as alternatives.`;
+};
+
+// Strip markdown fences, parse, and validate the per-image envelopes against the response schema
+export const parseAnalysisResponse = (responseText: string): { images: ValidatedImageAnalysis[]; report: BreedValidationReport } => {
+  const cleanedText = responseText.replace(/```json\n?|\n?```/g, '').trim();
+
+  try {
+    return validateAnalysisResponse(JSON.parse(cleanedText));
+  } catch (parseError) {
+    console.error('Failed to parse AI response:', responseText, parseError);
+    throw new Error('The AI service returned an unexpected response. Please try again or contact support if the issue persists.');
+  }
+};
+
+// Map a model-reported error code (or free text) to a user-facing message
+export const describeImageError = (error: string, message?: string): string => {
+  return USER_FACING_ERRORS[error] || message || error;
+};
+
+// Single error ladder for everything that can go wrong during an analysis
+export const toUserFacingError = (error: unknown): string => {
+  if (isAbortError(error)) {
+    return 'Analysis cancelled.';
+  }
+
+  if (error instanceof BreedProviderError) {
+    const errorText = error.details || '';
+    console.error('Breed provider error response:', errorText);
+
+    if (error.status === undefined) {
+      return 'The breed identification service is temporarily unavailable. Please try again in a few moments.';
+    } else if (error.status === 400) {
+      if (errorText.includes('quota')) {
+        return 'API quota exceeded. Please try again later.';
+      } else if (errorText.includes('safety')) {
+        return 'Content was blocked by safety filters. Please ensure images contain only cattle/buffalo.';
+      } else if (errorText.includes('size') || errorText.includes('limit')) {
+        return 'Request size too large. Please use fewer or smaller images.';
+      }
+      return 'Invalid request format. Please check your images and try again.';
+    } else if (error.status === 408) {
+      return 'The breed identification service took too long to respond. Please try again.';
+    } else if (error.status === 401) {
+      return 'Your session has expired. Please sign in again and retry.';
+    } else if (error.status === 403) {
+      return 'You do not have access to breed identification. Please contact your administrator.';
+    } else if (error.status === 429) {
+      return 'Rate limit exceeded. Please wait a moment and try again.';
+    } else if (error.status === 500) {
+      return 'The breed identification service is misconfigured. Please contact your administrator.';
+    } else if (error.status >= 500) {
+      return 'The breed identification service is temporarily unavailable. Please try again later.';
+    }
+    return `API request failed (${error.status}). Please try again.`;
+  }
+
+  // fetch rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError) {
+    return 'Network connection error. Please check your internet connection and try again.';
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'Unable to analyze the images for breed identification. Please ensure you have uploaded clear images of Indian cattle or buffalo and try again.';
+};
+
+// breeds is a ranked candidate list for one animal, so only each image's top candidate counts as an identification
+export const summarizeResults = (results: MultiImageBreedResult[], processingTime: number): BatchBreedAnalysisResult['summary'] => {
+  const breedCounts: Record<string, number> = {};
+  let totalConfidence = 0;
+  let confidenceCount = 0;
+
+  results.forEach(result => {
+    const breed = getTopBreed(result);
+    if (!breed) return;
+    breedCounts[breed.species] = (breedCounts[breed.species] || 0) + 1;
+    totalConfidence += breed.confidence;
+    confidenceCount++;
+  });
+
+  const successfulAnalyses = results.filter(r => !r.error && r.breeds.length > 0).length;
+
+  return {
+    totalImages: results.length,
+    successfulAnalyses,
+    failedAnalyses: results.length - successfulAnalyses,
+    totalBreedsIdentified: confidenceCount,
+    processingTime,
+    averageConfidence: confidenceCount > 0 ? Math.round(totalConfidence / confidenceCount) : 0,
+    mostCommonBreeds: Object.entries(breedCounts)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 3)
+      .map(([breed]) => breed)
+  };
+};
+
+// One at a time - each check decodes the full-size image
+const assessFilesQuality = async (files: File[]): Promise<ImageQualityReport[]> => {
+  const reports: ImageQualityReport[] = [];
+  for (const file of files) {
+    reports.push(await assessImageFileQuality(file));
+  }
+  return reports;
+};
+
+const withImageQualityNotes = (breed: StandardizedBreedIdentification, qualityNotes: string): StandardizedBreedIdentification => ({
+  ...breed,
+  metadata: {
+    ...breed.metadata,
+    imageQualityNotes: [breed.metadata?.imageQualityNotes, qualityNotes].filter(Boolean).join(' ')
+  }
+});
+
+// Map one validated model entry to the result shown for an image (or an animal, for guided views)
+const toImageResult = (
+  aiResult: ValidatedImageAnalysis | undefined,
+  imageIndex: number,
+  fileName: string,
+  qualityNotes: string
+): MultiImageBreedResult => {
+  if (!aiResult) {
+    return { imageIndex, fileName, breeds: [], error: 'No analysis result received for this image' };
+  }
+
+  const validation = aiResult.report;
+
+  if (aiResult.error) {
+    return { imageIndex, fileName, breeds: [], error: describeImageError(aiResult.error, aiResult.message), validation };
+  }
+
+  if (aiResult.breeds.length === 0) {
+    const error = validation.rejectedBreeds > 0
+      ? 'The AI returned breed results that failed validation. Please try again or use a clearer image.'
+      : 'Unable to confidently identify any Indian cattle or buffalo breeds in this image. Please try with a clearer image of Indian breeds.';
+    return { imageIndex, fileName, breeds: [], error, validation };
+  }
+
+  const breeds = aiResult.breeds.map(breed => withImageQualityNotes(breed, qualityNotes));
+  return { imageIndex, fileName, breeds, ranking: rankBreeds(breeds), validation };
+};
+
+// Compress images into the exact form sent to the model
+const prepareImages = async (
+  files: File[],
+  processingOptions: ImageProcessingOptions,
+  onProgress?: (progress: number, message?: string) => void,
+  signal?: AbortSignal
+): Promise<ProcessedImage[]> => {
+  onProgress?.(10, 'Processing images...');
+  const processedImages = await processImageFiles(files, processingOptions);
+  signal?.throwIfAborted();
+  onProgress?.(30, 'Images processed, analyzing breeds...');
+  return processedImages;
+};
+
+// Send one request and validate the response
+const requestAnalysis = async (
+  processedImages: ProcessedImage[],
+  prompt: string,
+  maxOutputTokens: number,
+  onProgress?: (progress: number, message?: string) => void,
+  signal?: AbortSignal
+): Promise<{ parsedResults: ValidatedImageAnalysis[]; model: string }> => {
+  const provider = getBreedIdentificationProvider();
+  const request = {
+    prompt,
+    images: processedImages.map(({ base64, mimeType, fileName }) => ({ base64, mimeType, fileName })),
+    responseSchema: BREED_ANALYSIS_RESPONSE_SCHEMA,
+    generationConfig: { maxOutputTokens },
+    signal
+  };
+
+  if (JSON.stringify(request).length > MAX_REQUEST_SIZE) {
+    throw new Error('Total request size exceeds API limit. Please use fewer or smaller images.');
+  }
+
+  onProgress?.(50, 'Sending to AI for analysis...');
+  const { text } = await provider.generateContent(request);
+
+  onProgress?.(80, 'Processing AI response...');
+  const { images: parsedResults, report } = parseAnalysisResponse(text);
+  if (report.issues.length > 0 || report.repairs.length > 0) {
+    console.warn('AI response needed validation fixes:', report);
+  }
+
+  return { parsedResults, model: provider.model };
+};
+
+export interface AnalysisRequestOptions {
+  signal?: AbortSignal;
+  forceReanalyze?: boolean; // Skip cached results and ask the model again
+}
+
+// The cache is best-effort: a storage failure just means a model call
+const findCachedResults = async (
+  contentHashes: (string | undefined)[],
+  model: string
+): Promise<(CachedImageResult | undefined)[]> => {
+  const results: (CachedImageResult | undefined)[] = [];
+  for (const contentHash of contentHashes) {
+    results.push(contentHash
+      ? await getCachedAnalysis(contentHash, model, BREED_ANALYSIS_PROMPT_VERSION).catch(error => {
+        console.warn('Could not read the analysis cache:', error);
+        return undefined;
+      })
+      : undefined);
+  }
+  return results;
+};
+
+// Core pipeline shared by single and batch analysis
+const analyzeImages = async (
+  files: File[],
+  processingOptions: ImageProcessingOptions,
+  onProgress?: (progress: number, message?: string) => void,
+  { signal, forceReanalyze = false }: AnalysisRequestOptions = {}
+): Promise<{ results: MultiImageBreedResult[]; processedImages: ProcessedImage[]; model?: string }> => {
+  signal?.throwIfAborted();
+  files.forEach(validateImageFile);
+
+  // Images that fail the local quality gate are never sent, so they don't cost a model call
+  onProgress?.(5, 'Checking image quality...');
+  const qualityReports = await assessFilesQuality(files);
+  const acceptedFiles = files.filter((_, index) => !qualityReports[index].blocked);
+
+  const blockedResult = (file: File, index: number): MultiImageBreedResult => ({
+    imageIndex: index,
+    fileName: file.name,
+    breeds: [],
+    error: `Image quality too poor to analyze. ${describeImageQualityIssues(qualityReports[index], 'blocking')}`
+  });
+
+  if (acceptedFiles.length === 0) {
+    return { results: files.map(blockedResult), processedImages: [], model: undefined };
+  }
+
+  // The cache key hashes the compressed upload itself, so only an identical request can reuse a result
+  const processedImages = await prepareImages(acceptedFiles, processingOptions, onProgress, signal);
+  const contentHashes = await Promise.all(processedImages.map(({ base64 }) => computeSha256Base64(base64)));
+  const getContentHash = (file: File) => contentHashes[acceptedFiles.indexOf(file)];
+
+  // Photos already analyzed with this model and prompt reuse the stored result
+  const provider = getBreedIdentificationProvider();
+  const useCache = !forceReanalyze && isAnalysisCacheEnabled();
+  const cachedResults = useCache
+    ? await findCachedResults(files.map((file, index) => qualityReports[index].blocked ? undefined : getContentHash(file)), provider.model)
+    : [];
+  const filesToAnalyze = acceptedFiles.filter(file => !cachedResults[files.indexOf(file)]);
+  if (useCache) recordAnalysisCacheLookups(acceptedFiles.length - filesToAnalyze.length, filesToAnalyze.length);
+
+  const { parsedResults, model } = filesToAnalyze.length > 0
+    ? await requestAnalysis(
+      filesToAnalyze.map(file => processedImages[acceptedFiles.indexOf(file)]),
+      createBreedAnalysisPrompt(filesToAnalyze.length),
+      filesToAnalyze.length === 1 ? 4096 : 12288,
+      onProgress,
+      signal
+    )
+    : { parsedResults: [], model: provider.model };
+
+  onProgress?.(90, 'Finalizing results...');
+  const results = files.map((file, index): MultiImageBreedResult => {
+    const quality = qualityReports[index];
+    if (quality.blocked) return blockedResult(file, index);
+
+    const cached = cachedResults[index];
+    if (cached) return { ...cached, imageIndex: index, fileName: file.name, cached: true };
+
+    // The model only saw the images that still needed analysis, so its indices skip the others
+    const aiResult = parsedResults.find(r => r.imageIndex === filesToAnalyze.indexOf(file));
+    return toImageResult(aiResult, index, file.name, formatImageQualityNotes(quality));
+  });
+
+  for (const file of filesToAnalyze) {
+    const index = files.indexOf(file);
+    await cacheAnalysisResult(getContentHash(file), model, BREED_ANALYSIS_PROMPT_VERSION, results[index]).catch(error => {
+      console.warn('Could not save to the analysis cache:', error);
+    });
+  }
+
+  return { results, processedImages, model };
+};
+
+// Identify breeds in a single image
+export const identifyBreeds = async (file: File, options: AnalysisRequestOptions = {}): Promise<SingleImageBreedResult> => {
+  const startTime = Date.now();
+  const analysisMetadata = (imageSize: string, model?: string): SingleImageBreedResult['analysisMetadata'] => ({
+    imageSize,
+    processingTime: Date.now() - startTime,
+    timestamp: new Date().toISOString(),
+    analysisType: "single-image",
+    model,
+    promptVersion: BREED_ANALYSIS_PROMPT_VERSION
+  });
+
+  try {
+    const { results: [result], processedImages: [image], model } = await analyzeImages([file], SINGLE_IMAGE_PROCESSING, undefined, options);
+    return {
+      success: !result.error,
+      breeds: result.breeds,
+      ranking: result.ranking,
+      validation: result.validation,
+      analysisMetadata: analysisMetadata(image ? `${image.width}x${image.height}` : 'unknown', model),
+      error: result.error
+    };
+  } catch (error) {
+    console.error('Error identifying breed:', error);
+    return {
+      success: false,
+      breeds: [],
+      analysisMetadata: analysisMetadata('unknown'),
+      error: toUserFacingError(error)
+    };
+  }
+};
+
+export interface BatchAnalysisOptions extends AnalysisRequestOptions {
+  onImageResult?: (result: MultiImageBreedResult) => void; // Called as each image finishes; not for cancelled images
+}
+
+// A failed request gets the same message on every image it covered; a shared message is the batch error
+const getCommonError = (results: MultiImageBreedResult[]): string | undefined => {
+  const errors = new Set(results.map(result => result.error));
+  return errors.size === 1 ? results[0].error : undefined;
+};
+
+// Identify breeds in several images, one model call per image with a few in flight at once,
+// so a bad image or a failed request only costs that image
+export const identifyBreedsBatch = async (
+  files: File[],
+  onProgress?: (progress: number, message?: string) => void,
+  { onImageResult, ...options }: BatchAnalysisOptions = {}
+): Promise<BatchBreedAnalysisResult> => {
+  const startTime = Date.now();
+  const analysisMetadata: BatchBreedAnalysisResult['analysisMetadata'] = {
+    timestamp: new Date().toISOString(),
+    analysisType: "multi-image",
+    batchSize: files.length,
+    promptVersion: BREED_ANALYSIS_PROMPT_VERSION
+  };
+
+  if (files.length === 0 || files.length > MAX_BATCH_IMAGES) {
+    const errorMessage = files.length === 0
+      ? 'No images provided for analysis'
+      : `Maximum ${MAX_BATCH_IMAGES} images allowed per batch analysis`;
+    const results = files.map((file, index) => ({ imageIndex: index, fileName: file.name, breeds: [], error: errorMessage }));
+    return {
+      success: false,
+      results,
+      summary: summarizeResults(results, Date.now() - startTime),
+      analysisMetadata,
+      error: errorMessage
+    };
+  }
+
+  let completed = 0;
+  let model: string | undefined;
+  onProgress?.(0, `Analyzing ${files.length} image${files.length === 1 ? '' : 's'}...`);
+
+  const results = await mapWithConcurrency(files, BATCH_CONCURRENCY, async (file, index): Promise<MultiImageBreedResult> => {
+    let result: MultiImageBreedResult;
+    const imageStartTime = Date.now();
+    try {
+      // A lone image reports its own stages; in a batch, progress counts finished images
+      const imageProgress = files.length === 1 ? onProgress : undefined;
+      const analysis = await analyzeImages([file], SINGLE_IMAGE_PROCESSING, imageProgress, options);
+      model = model ?? analysis.model;
+      result = { ...analysis.results[0], imageIndex: index, processingTime: Date.now() - imageStartTime };
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { imageIndex: index, fileName: file.name, breeds: [], error: toUserFacingError(error) };
+      }
+      console.error(`Analysis failed for ${file.name}:`, error);
+      result = {
+        imageIndex: index,
+        fileName: file.name,
+        breeds: [],
+        error: toUserFacingError(error),
+        ...((error instanceof BreedProviderError || error instanceof TypeError) && { requestFailed: true }),
+        ...(error instanceof BreedProviderError && error.status === 429 && { rateLimited: true }),
+        ...(error instanceof BreedProviderError && error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs })
+      };
+    }
+
+    completed++;
+    onImageResult?.(result);
+    onProgress?.(Math.round((completed / files.length) * 100), `Analyzed ${completed} of ${files.length} images`);
+    return result;
+  });
+
+  const cancelled = !!options.signal?.aborted;
+  const summary = summarizeResults(results, Date.now() - startTime);
+  if (!cancelled) onProgress?.(100, 'Analysis complete!');
+
+  return {
+    success: summary.successfulAnalyses > 0,
+    results,
+    summary,
+    analysisMetadata: { ...analysisMetadata, model },
+    ...(summary.successfulAnalyses === 0 && { error: getCommonError(results) }),
+    ...(cancelled && { cancelled })
+  };
+};
+
+// Identify one animal from its guided capture views with a single model call
+export const identifyAnimalFromViews = async (
+  views: CapturedView[],
+  onProgress?: (progress: number, message?: string) => void,
+  { signal }: Pick<AnalysisRequestOptions, 'signal'> = {}
+): Promise<BatchBreedAnalysisResult> => {
+  const startTime = Date.now();
+  const analysisMetadata: BatchBreedAnalysisResult['analysisMetadata'] = {
+    timestamp: new Date().toISOString(),
+    analysisType: "multi-view",
+    batchSize: views.length,
+    promptVersion: BREED_ANALYSIS_PROMPT_VERSION
+  };
+  // The first view (the side profile, in capture order) stands for the animal
+  const fileName = views[0]?.file.name ?? 'animal.jpg';
+
+  try {
+    if (views.length === 0) {
+      throw new Error('No views provided for analysis');
+    }
+
+    const files = views.map(({ file }) => file);
+    files.forEach(validateImageFile);
+
+    // Every view was chosen on purpose, so any unusable one is retaken rather than dropped
+    onProgress?.(5, 'Checking image quality...');
+    const qualityReports = await assessFilesQuality(files);
+    const blockedIndex = qualityReports.findIndex(report => report.blocked);
+    if (blockedIndex !== -1) {
+      throw new Error(`Retake the ${getCaptureView(views[blockedIndex].view).label.toLowerCase()} photo. ${describeImageQualityIssues(qualityReports[blockedIndex], 'blocking')}`);
+    }
+
+    const { parsedResults, model } = await requestAnalysis(
+      await prepareImages(files, BATCH_IMAGE_PROCESSING, onProgress, signal),
+      createAnimalViewsPrompt(views.map(({ view }) => view)),
+      4096,
+      onProgress,
+      signal
+    );
+
+    onProgress?.(90, 'Finalizing results...');
+    const qualityNotes = views
+      .map(({ view }, index) => `${getCaptureView(view).label}: ${formatImageQualityNotes(qualityReports[index])}`)
+      .join(' ');
+    const aiResult = parsedResults.find(r => r.imageIndex === 0) ?? parsedResults[0];
+    const result = { ...toImageResult(aiResult, 0, fileName, qualityNotes), views: views.map(({ view }) => view) };
+    const summary = summarizeResults([result], Date.now() - startTime);
+
+    onProgress?.(100, 'Analysis complete!');
+
+    return {
+      success: !result.error,
+      results: [result],
+      summary,
+      analysisMetadata: { ...analysisMetadata, model },
+      error: result.error
+    };
+  } catch (error) {
+    const cancelled = isAbortError(error);
+    if (!cancelled) console.error('Guided capture analysis error:', error);
+    const errorMessage = toUserFacingError(error);
+    const results = [{ imageIndex: 0, fileName, breeds: [], error: errorMessage }];
+
+    return {
+      success: false,
+      results,
+      summary: summarizeResults(results, Date.now() - startTime),
+      analysisMetadata,
+      error: errorMessage,
+      ...(cancelled && { cancelled })
+    };
+  }
+};
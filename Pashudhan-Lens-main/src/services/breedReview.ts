@@ -0,0 +1,16 @@
+// Stores reviewer decisions on the history record that holds the AI result
+import { AnalysisHistoryRecord } from '@/types/analysisHistory';
+import { BreedReview } from '@/types/breedReview';
+import { STORES, putRecord } from '@/lib/localDatabase';
+import { getAnalysisHistoryRecord } from '@/services/analysisHistory';
+
+export const submitBreedReview = async (recordId: string, review: BreedReview): Promise<AnalysisHistoryRecord> => {
+  const record = await getAnalysisHistoryRecord(recordId);
+  if (!record) {
+    throw new Error('This analysis is no longer in history.');
+  }
+
+  const reviewed: AnalysisHistoryRecord = { ...record, review };
+  await putRecord(STORES.analysisHistory, reviewed);
+  return reviewed;
+};
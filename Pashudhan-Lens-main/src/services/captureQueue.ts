@@ -0,0 +1,93 @@
+// Offline capture queue - images taken without connectivity are stored in IndexedDB
+// and analyzed in batches once the device is back online
+import { CaptureQueueRunResult, QueuedCapture } from '@/types/captureQueue';
+import { STORES, deleteRecord, getAllRecords, putRecord } from '@/lib/localDatabase';
+import { MAX_BATCH_IMAGES, identifyBreedsBatch } from '@/services/breedAnalysis';
+import { saveBatchToHistory } from '@/services/analysisHistory';
+
+const createCaptureId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Oldest first, so captures are analyzed in the order they were taken
+export const listQueuedCaptures = async (): Promise<QueuedCapture[]> => {
+  const captures = await getAllRecords<QueuedCapture>(STORES.captureQueue);
+  return captures.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+};
+
+export const enqueueCaptures = async (files: File[]): Promise<QueuedCapture[]> => {
+  const capturedAt = new Date().toISOString();
+  const captures = files.map((file): QueuedCapture => ({
+    id: createCaptureId(),
+    capturedAt,
+    file,
+    attempts: 0
+  }));
+
+  for (const capture of captures) {
+    await putRecord(STORES.captureQueue, capture);
+  }
+
+  return captures;
+};
+
+export const removeQueuedCapture = (id: string): Promise<void> => deleteRecord(STORES.captureQueue, id);
+
+const analyzeQueuedBatch = async (captures: QueuedCapture[]): Promise<{ analyzed: number; unidentified: number }> => {
+  const files = captures.map(capture => capture.file);
+  const batch = await identifyBreedsBatch(files);
+
+  // Images whose request failed never reached the model; keep them for the next run
+  const failed = batch.results.filter(result => result.requestFailed);
+  await Promise.all(failed.map(result => putRecord(STORES.captureQueue, {
+    ...captures[result.imageIndex],
+    attempts: captures[result.imageIndex].attempts + 1,
+    lastError: result.error
+  })));
+
+  if (failed.length === captures.length) {
+    throw new Error(batch.error || failed[0]?.error || 'Analysis failed');
+  }
+
+  const saved = await saveBatchToHistory(files, batch, captures.map(capture => capture.capturedAt));
+  const finished = captures.filter((_, index) => !batch.results[index].requestFailed);
+  await Promise.all(finished.map(capture => removeQueuedCapture(capture.id)));
+
+  return { analyzed: saved.length, unidentified: finished.length - saved.length };
+};
+
+let activeRun: Promise<CaptureQueueRunResult> | null = null;
+
+const runCaptureQueue = async (): Promise<CaptureQueueRunResult> => {
+  const captures = await listQueuedCaptures();
+  const result: CaptureQueueRunResult = { analyzed: 0, unidentified: 0, remaining: captures.length };
+
+  for (let i = 0; i < captures.length; i += MAX_BATCH_IMAGES) {
+    if (!navigator.onLine) {
+      result.error = 'Connection lost before the queue finished';
+      break;
+    }
+
+    const batch = captures.slice(i, i + MAX_BATCH_IMAGES);
+    try {
+      const { analyzed, unidentified } = await analyzeQueuedBatch(batch);
+      result.analyzed += analyzed;
+      result.unidentified += unidentified;
+      result.remaining -= analyzed + unidentified;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Analysis failed';
+      break;
+    }
+  }
+
+  return result;
+};
+
+// Background sync and the online event can fire together; both share a single run
+export const processCaptureQueue = (): Promise<CaptureQueueRunResult> => {
+  if (!activeRun) {
+    activeRun = runCaptureQueue().finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+};
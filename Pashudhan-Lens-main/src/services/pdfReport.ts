@@ -0,0 +1,308 @@
+// Printable PDF reports for field officers, one page per animal plus an optional batch summary
+import type { jsPDF } from 'jspdf';
+import {
+  BatchBreedAnalysisResult,
+  StandardizedBreedIdentification,
+  UploadedImage
+} from '@/types/breedIdentification';
+import {
+  BPA_VERIFICATION_STATUS_LABELS,
+  BpaExportSource,
+  createBpaExportPayload,
+  getBpaVerificationStatus
+} from '@/lib/bpaExport';
+import { BREED_TYPE_LABELS, formatBreedComposition, getBreedType } from '@/lib/breedComposition';
+import { getTopBreed } from '@/lib/breedReview';
+import { computeSha256 } from '@/lib/fileHash';
+import { ImageProcessingOptions, processImageFile, toImageFile } from '@/services/breedAnalysis';
+import { resolveBreedCharacteristics } from '@/utils/breedCharacteristicsExtractor';
+
+// Sharp enough to print at half-page width without bloating a multi-animal report
+const REPORT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 1024,
+  maxEncodedSize: 400 * 1024,
+  initialQuality: 0.8
+};
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+const QR_SIZE = 32;
+
+export interface PdfReportOptions {
+  includeQrCode: boolean;
+}
+
+export interface AnimalReportInput {
+  image: File | string;
+  fileName: string;
+  breeds: StandardizedBreedIdentification[];
+  analyzedAt?: string;
+  model?: string;
+  promptVersion?: string;
+}
+
+interface PreparedAnimal {
+  input: AnimalReportInput;
+  photo: { dataUrl: string; width: number; height: number };
+  source: BpaExportSource;
+}
+
+// Mutable write position shared by the layout helpers
+interface ReportCursor {
+  doc: jsPDF;
+  y: number;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const getContentWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+
+const ensureSpace = (cursor: ReportCursor, height: number) => {
+  if (cursor.y + height > cursor.doc.internal.pageSize.getHeight() - PAGE_MARGIN) {
+    cursor.doc.addPage();
+    cursor.y = PAGE_MARGIN;
+  }
+};
+
+const writeHeading = (cursor: ReportCursor, text: string, size = 13) => {
+  ensureSpace(cursor, size / 2 + LINE_HEIGHT);
+  cursor.doc.setFont('helvetica', 'bold').setFontSize(size).setTextColor(17, 24, 39);
+  cursor.doc.text(text, PAGE_MARGIN, cursor.y + size / 3);
+  cursor.y += size / 2 + 2;
+};
+
+const writeParagraph = (cursor: ReportCursor, text: string, width = getContentWidth(cursor.doc)) => {
+  cursor.doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(55, 65, 81);
+  const lines: string[] = cursor.doc.splitTextToSize(text, width);
+  lines.forEach(line => {
+    ensureSpace(cursor, LINE_HEIGHT);
+    cursor.doc.text(line, PAGE_MARGIN, cursor.y + 3.5);
+    cursor.y += LINE_HEIGHT;
+  });
+  cursor.y += 1;
+};
+
+// Two-column label/value list; long values wrap within their column
+const writeFields = (cursor: ReportCursor, fields: [string, string][]) => {
+  const labelWidth = 48;
+  const valueWidth = getContentWidth(cursor.doc) - labelWidth;
+
+  fields.filter(([, value]) => value).forEach(([label, value]) => {
+    const lines: string[] = cursor.doc.splitTextToSize(value, valueWidth);
+    ensureSpace(cursor, lines.length * LINE_HEIGHT);
+    cursor.doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(17, 24, 39);
+    cursor.doc.text(label, PAGE_MARGIN, cursor.y + 3.5);
+    cursor.doc.setFont('helvetica', 'normal').setTextColor(55, 65, 81);
+    cursor.doc.text(lines, PAGE_MARGIN + labelWidth, cursor.y + 3.5);
+    cursor.y += lines.length * LINE_HEIGHT;
+  });
+  cursor.y += 2;
+};
+
+const writeFooter = (doc: jsPDF, generatedAt: string) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(107, 114, 128);
+    doc.text(
+      `Pashudhan Lens - generated ${formatTimestamp(generatedAt)} - page ${page} of ${pageCount}`,
+      PAGE_MARGIN,
+      doc.internal.pageSize.getHeight() - 8
+    );
+  }
+};
+
+// The QR code holds the same versioned row as the BPA export, so a scan can be imported directly
+const createRecordQrCode = async (source: BpaExportSource): Promise<string> => {
+  const QRCode = await import('qrcode');
+  const { format, version, rows } = createBpaExportPayload([source]);
+  return QRCode.toDataURL(JSON.stringify({ format, version, record: rows[0] }), {
+    errorCorrectionLevel: 'M',
+    margin: 1,
+    width: 256
+  });
+};
+
+const prepareAnimal = async (input: AnimalReportInput): Promise<PreparedAnimal> => {
+  const file = await toImageFile(input.image, input.fileName);
+  const [processed, imageSha256] = await Promise.all([
+    processImageFile(file, REPORT_IMAGE_PROCESSING),
+    computeSha256(file)
+  ]);
+
+  return {
+    input,
+    photo: {
+      dataUrl: `data:${processed.mimeType};base64,${processed.base64}`,
+      width: processed.width,
+      height: processed.height
+    },
+    source: {
+      result: { imageIndex: 0, fileName: input.fileName, breeds: input.breeds },
+      fileName: input.fileName,
+      imageSha256,
+      analyzedAt: input.analyzedAt ?? new Date().toISOString(),
+      model: input.model,
+      promptVersion: input.promptVersion
+    }
+  };
+};
+
+const writeAnimalPage = async (cursor: ReportCursor, animal: PreparedAnimal, options: PdfReportOptions) => {
+  const { doc } = cursor;
+  const breed = getTopBreed(animal.source.result);
+  const contentWidth = getContentWidth(doc);
+
+  // The QR code sits top right, so the header text wraps short of it
+  const pageTop = cursor.y;
+  const headerWidth = options.includeQrCode ? contentWidth - QR_SIZE - 4 : contentWidth;
+  writeHeading(cursor, 'Breed Analysis Report', 16);
+  writeParagraph(cursor, `${animal.input.fileName} - analyzed ${formatTimestamp(animal.source.analyzedAt)}`, headerWidth);
+
+  if (options.includeQrCode) {
+    const qrCode = await createRecordQrCode(animal.source);
+    doc.addImage(qrCode, 'PNG', PAGE_MARGIN + contentWidth - QR_SIZE, pageTop, QR_SIZE, QR_SIZE);
+    cursor.y = Math.max(cursor.y, pageTop + QR_SIZE + 4);
+  }
+
+  // Photo keeps its aspect ratio within a box two thirds of the page wide
+  const maxWidth = contentWidth * 0.66;
+  const maxHeight = 90;
+  const scale = Math.min(maxWidth / animal.photo.width, maxHeight / animal.photo.height);
+  const photoWidth = animal.photo.width * scale;
+  const photoHeight = animal.photo.height * scale;
+  ensureSpace(cursor, photoHeight);
+  doc.addImage(animal.photo.dataUrl, 'JPEG', PAGE_MARGIN, cursor.y, photoWidth, photoHeight);
+  cursor.y += photoHeight + 6;
+
+  if (!breed) {
+    writeHeading(cursor, 'No breed identified');
+    writeParagraph(cursor, 'The analysis did not identify an Indian cattle or buffalo breed in this image.');
+    return;
+  }
+
+  const characteristics = resolveBreedCharacteristics(breed);
+  const candidates = animal.source.result.breeds
+    .filter(other => other !== breed && other.species && !other.error)
+    .sort((a, b) => b.confidence - a.confidence);
+  const alternatives = (breed.metadata?.alternativePossibleBreeds ?? [])
+    .filter(name => name !== breed.species && !candidates.some(candidate => candidate.species === name));
+
+  writeHeading(cursor, `${breed.commonName || breed.species} - ${breed.confidence}%`, 14);
+  writeFields(cursor, [
+    ['Breed', breed.species],
+    ['Breed type', BREED_TYPE_LABELS[getBreedType(breed)]],
+    ['Composition', formatBreedComposition(breed.composition)],
+    ['Registry ID', breed.breedId ?? ''],
+    ['Status', BPA_VERIFICATION_STATUS_LABELS[getBpaVerificationStatus(breed)]],
+    ['Origin', breed.habitat],
+    ['Breed status', breed.conservation]
+  ]);
+
+  if (candidates.length > 0 || alternatives.length > 0) {
+    writeHeading(cursor, 'Alternatives', 12);
+    writeFields(cursor, [
+      ...candidates.map((candidate): [string, string] => [candidate.species, `${candidate.confidence}%`]),
+      ...alternatives.map((name): [string, string] => [name, 'Also possible'])
+    ]);
+  }
+
+  writeHeading(cursor, 'Characteristics', 12);
+  writeFields(cursor, [
+    ['Color pattern', characteristics.colorPattern],
+    ['Body structure', characteristics.bodyStructure],
+    ['Horns', characteristics.hornCharacteristics],
+    ['Hump', characteristics.humpPresence],
+    ['Ears', characteristics.earShape],
+    ['Face', characteristics.facialFeatures],
+    ['Conformation', characteristics.overallConformation],
+    ['Estimated age', characteristics.estimatedAge],
+    ['Estimated size', characteristics.estimatedSize],
+    ['Image quality', characteristics.imageQualityNotes]
+  ]);
+
+  writeHeading(cursor, 'BPA Registration Notes', 12);
+  writeParagraph(cursor, characteristics.bpaRegistrationNotes);
+};
+
+const createDocument = async () => {
+  const { jsPDF } = await import('jspdf');
+  return new jsPDF({ unit: 'mm', format: 'a4' });
+};
+
+const saveDocument = (doc: jsPDF, fileName: string, generatedAt: string) => {
+  writeFooter(doc, generatedAt);
+  doc.save(fileName);
+};
+
+const toReportStamp = (iso: string) => iso.slice(0, 19).replace(/[:T]/g, '-');
+
+export const downloadAnimalReport = async (input: AnimalReportInput, options: PdfReportOptions): Promise<void> => {
+  const generatedAt = new Date().toISOString();
+  const [doc, animal] = await Promise.all([createDocument(), prepareAnimal(input)]);
+
+  await writeAnimalPage({ doc, y: PAGE_MARGIN }, animal, options);
+  saveDocument(doc, `breed-report-${toReportStamp(generatedAt)}.pdf`, generatedAt);
+};
+
+// Summary page with the batch statistics and an index, then one page per analyzed animal
+export const downloadBatchReport = async (
+  images: UploadedImage[],
+  summary: BatchBreedAnalysisResult['summary'] | undefined,
+  metadata: BatchBreedAnalysisResult['analysisMetadata'] | undefined,
+  options: PdfReportOptions
+): Promise<void> => {
+  const generatedAt = new Date().toISOString();
+  const doc = await createDocument();
+  const analyzed = images.filter(image => image.status === 'complete' && image.results);
+
+  // Sequential to keep only one full-size canvas in memory at a time
+  const animals: PreparedAnimal[] = [];
+  for (const image of analyzed) {
+    animals.push(await prepareAnimal({
+      image: image.file,
+      fileName: image.file.name,
+      breeds: image.results.breeds,
+      analyzedAt: metadata?.timestamp,
+      model: metadata?.model,
+      promptVersion: metadata?.promptVersion
+    }));
+  }
+
+  const cursor: ReportCursor = { doc, y: PAGE_MARGIN };
+  writeHeading(cursor, 'Batch Analysis Report', 16);
+  writeParagraph(cursor, `${images.length} images - analyzed ${formatTimestamp(metadata?.timestamp ?? generatedAt)}`);
+
+  if (summary) {
+    writeHeading(cursor, 'Summary', 12);
+    writeFields(cursor, [
+      ['Images analyzed', `${summary.successfulAnalyses} of ${summary.totalImages}`],
+      ['Failed', String(summary.failedAnalyses)],
+      ['Breed matches', String(summary.totalBreedsIdentified)],
+      ['Average confidence', `${summary.averageConfidence}%`],
+      ['Most common breeds', summary.mostCommonBreeds.join(', ') || 'None'],
+      ['Processing time', `${(summary.processingTime / 1000).toFixed(1)} s`],
+      ['Model', metadata?.model ?? 'unknown'],
+      ['Prompt version', metadata?.promptVersion ?? '']
+    ]);
+  }
+
+  writeHeading(cursor, 'Animals', 12);
+  writeFields(cursor, animals.map((animal, index): [string, string] => {
+    const breed = getTopBreed(animal.source.result);
+    return [
+      `${index + 1}. ${animal.input.fileName}`,
+      breed
+        ? `${breed.species} (${breed.confidence}%) - ${BPA_VERIFICATION_STATUS_LABELS[getBpaVerificationStatus(breed)]}`
+        : 'No breed identified'
+    ];
+  }));
+
+  for (const animal of animals) {
+    doc.addPage();
+    await writeAnimalPage({ doc, y: PAGE_MARGIN }, animal, options);
+  }
+
+  saveDocument(doc, `batch-report-${toReportStamp(generatedAt)}.pdf`, generatedAt);
+};
@@ -0,0 +1,63 @@
+// Shared request layer for providers: per-attempt timeout, retries with backoff, and caller cancellation
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, isRetryableStatus, parseRetryAfter, RetryOptions, sleep } from '@/lib/retry';
+import { BreedProviderError } from './types';
+
+// Statuses whose Response must be built without a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Reads the body while the attempt's timeout and the caller's cancel still apply, so a slow body can't outlive them
+const readResponse = async (response: Response): Promise<Response> => {
+  const body = await response.arrayBuffer();
+  return new Response(NULL_BODY_STATUSES.has(response.status) ? null : body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+};
+
+// Returns the last response once retries run out, so callers still map its status to a message. The body is
+// already read. Cancelling init.signal rejects with an AbortError at any point, including while waiting to retry
+export const fetchWithRetry = async (
+  input: string,
+  init: RequestInit = {},
+  options: Partial<RetryOptions> = {}
+): Promise<Response> => {
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const callerSignal = init.signal ?? undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    callerSignal?.throwIfAborted();
+    const isLastAttempt = attempt >= policy.maxAttempts - 1;
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(callerSignal.reason);
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+
+    let retryAfterMs: number | undefined;
+    try {
+      const response = await fetch(input, { ...init, signal: controller.signal });
+      if (isLastAttempt || !isRetryableStatus(response.status)) return await readResponse(response);
+
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) return await readResponse(response);
+      await response.body?.cancel().catch(() => undefined);
+    } catch (error) {
+      if (callerSignal?.aborted) throw error;
+
+      // Our own abort is the timeout; a TypeError is fetch failing to reach the server
+      const timedOut = controller.signal.aborted;
+      if (!timedOut && !(error instanceof TypeError)) throw error;
+      if (isLastAttempt) {
+        throw timedOut ? new BreedProviderError('Request timed out', { status: 408 }) : error;
+      }
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+
+    const delayMs = getRetryDelay(attempt, policy, retryAfterMs);
+    console.warn(`AI request failed, retrying in ${delayMs}ms (attempt ${attempt + 2} of ${policy.maxAttempts})`);
+    await sleep(delayMs, callerSignal);
+  }
+};
@@ -0,0 +1,98 @@
+// Google Gemini implementation of the breed identification provider
+// Requests go through the breed proxy (server/), which adds the API key - the browser never sees it
+import { parseRetryAfter } from '@/lib/retry';
+import {
+  BreedIdentificationProvider,
+  BreedProviderError,
+  ProviderAuthTokenGetter,
+  ProviderRequest,
+  ProviderResponse
+} from './types';
+import { fetchWithRetry } from './fetchWithRetry';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiProviderOptions {
+  proxyUrl: string;
+  getAuthToken: ProviderAuthTokenGetter;
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: {
+        text?: string;
+      }[];
+    };
+  }[];
+}
+
+const SAFETY_SETTINGS = [
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" }
+];
+
+export const createGeminiProvider = ({ proxyUrl, getAuthToken }: GeminiProviderOptions): BreedIdentificationProvider => ({
+  id: 'gemini',
+  model: GEMINI_MODEL,
+
+  async generateContent(request: ProviderRequest): Promise<ProviderResponse> {
+    const token = await getAuthToken();
+    if (!token) {
+      throw new BreedProviderError('Not signed in', { status: 401 });
+    }
+
+    const parts = [
+      { text: request.prompt },
+      ...request.images.map(image => ({
+        inlineData: {
+          mimeType: image.mimeType,
+          data: image.base64
+        }
+      }))
+    ];
+
+    const requestBody = {
+      contents: [{ parts }],
+      generationConfig: {
+        temperature: 0.1,
+        topK: 32,
+        topP: 0.95,
+        ...request.generationConfig,
+        responseMimeType: "application/json",
+        ...(request.responseSchema && { responseSchema: request.responseSchema })
+      },
+      safetySettings: SAFETY_SETTINGS
+    };
+
+    const response = await fetchWithRetry(`${proxyUrl.replace(/\/$/, '')}/v1beta/models/${GEMINI_MODEL}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new BreedProviderError(`Gemini API error: ${response.status} ${response.statusText}`, {
+        status: response.status,
+        details,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+      });
+    }
+
+    const data: GeminiResponse = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      throw new BreedProviderError('No response from Gemini API');
+    }
+
+    return { text };
+  }
+});
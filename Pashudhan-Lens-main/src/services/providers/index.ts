@@ -0,0 +1,45 @@
+// Provider selection - VITE_BREED_PROVIDER picks the backend ("gemini" by default, "mock" for offline fixtures)
+import { validateEnv } from '@/lib/validation';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { BreedIdentificationProvider, ProviderAuthTokenGetter } from './types';
+
+let activeProvider: BreedIdentificationProvider | null = null;
+let authTokenGetter: ProviderAuthTokenGetter = async () => null;
+
+export const getBreedIdentificationProvider = (): BreedIdentificationProvider => {
+  if (activeProvider) return activeProvider;
+
+  const env = validateEnv();
+  activeProvider = env.VITE_BREED_PROVIDER === 'mock'
+    ? createMockProvider({ latencyMs: env.VITE_MOCK_PROVIDER_LATENCY_MS })
+    : createGeminiProvider({ proxyUrl: env.VITE_BREED_PROXY_URL, getAuthToken: () => authTokenGetter() });
+
+  return activeProvider;
+};
+
+// Lets tests and demos swap the backend without touching env vars; pass null to reset
+export const setBreedIdentificationProvider = (provider: BreedIdentificationProvider | null) => {
+  activeProvider = provider;
+};
+
+// Registered by the auth provider so proxy requests carry the current session token
+export const setProviderAuthTokenGetter = (getter: ProviderAuthTokenGetter) => {
+  authTokenGetter = getter;
+};
+
+export type {
+  BreedIdentificationProvider,
+  BreedProviderId,
+  ProviderGenerationConfig,
+  ProviderAuthTokenGetter,
+  ProviderImagePart,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderResponseSchema
+} from './types';
+export { BreedProviderError } from './types';
+export { createGeminiProvider } from './geminiProvider';
+export { fetchWithRetry } from './fetchWithRetry';
+export { createMockProvider } from './mockProvider';
+export { zodToResponseSchema } from './responseSchema';
@@ -0,0 +1,219 @@
+// Deterministic fixtures served by the mock breed identification provider
+import { BREED_ERROR_CODES, StandardizedBreedIdentification } from '@/types/breedIdentification';
+
+export interface MockBreedFixture {
+  // Lower-case tokens matched against the uploaded file name
+  keywords: string[];
+  breeds: StandardizedBreedIdentification[];
+}
+
+export interface MockErrorFixture {
+  keywords: string[];
+  error: keyof typeof BREED_ERROR_CODES;
+  message: string;
+}
+
+export const MOCK_BREED_FIXTURES: MockBreedFixture[] = [
+  {
+    keywords: ['gir'],
+    breeds: [
+      {
+        species: "Gir",
+        commonName: "Gir",
+        confidence: 91,
+        description: "Red and white mottled coat with a prominent convex forehead, long pendulous ears curled at the tip and horns curving backwards.",
+        breedCharacteristics: {
+          bodyStructure: "Medium to large frame with a deep body",
+          colorPattern: "Red with white patches, mottled",
+          hornCharacteristics: "Horns emerge downward and backward, curving up at the tips",
+          earShape: "Long, pendulous, folded like a leaf",
+          facialFeatures: "Prominent bulging forehead",
+          humpPresence: "Prominent",
+          overallConformation: "Dairy type zebu with well-sprung ribs"
+        },
+        habitat: "Gir forests of Saurashtra, Gujarat; widely distributed across western India",
+        conservation: "Indigenous",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Typical Gir conformation; confirm forehead and ear shape in the field.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "large",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture",
+          alternativePossibleBreeds: ["Kankrej", "Sahiwal"]
+        }
+      }
+    ]
+  },
+  {
+    keywords: ['sahiwal'],
+    breeds: [
+      {
+        species: "Sahiwal",
+        commonName: "Sahiwal",
+        confidence: 87,
+        description: "Reddish dun coat, loose skin with a heavy dewlap, short stubby horns and a well-developed hump.",
+        breedCharacteristics: {
+          bodyStructure: "Medium, heavy and symmetrical body",
+          colorPattern: "Reddish dun with occasional white markings",
+          hornCharacteristics: "Short and stumpy",
+          earShape: "Medium, slightly drooping",
+          facialFeatures: "Broad head with a short face",
+          humpPresence: "Prominent",
+          overallConformation: "Dairy zebu with loose skin and a large udder"
+        },
+        habitat: "Punjab and Haryana; originally from Montgomery district",
+        conservation: "Indigenous",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Good dairy type; verify dewlap and horn size.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "medium",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture",
+          alternativePossibleBreeds: ["Red Sindhi", "Gir"]
+        }
+      }
+    ]
+  },
+  {
+    keywords: ['murrah', 'buffalo'],
+    breeds: [
+      {
+        species: "Murrah",
+        commonName: "Murrah",
+        confidence: 93,
+        description: "Jet black massive buffalo with short, tightly curled horns and a wedge-shaped body.",
+        breedCharacteristics: {
+          bodyStructure: "Massive, deep and wedge shaped",
+          colorPattern: "Jet black, occasional white marks on face or tail switch",
+          hornCharacteristics: "Short, tightly curled spiral horns",
+          earShape: "Small and thin",
+          facialFeatures: "Relatively small head with a broad forehead",
+          humpPresence: "Absent",
+          overallConformation: "Heavy dairy buffalo with a well-developed udder"
+        },
+        habitat: "Haryana (Rohtak, Hisar, Jind) and neighbouring states",
+        conservation: "Indigenous",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Distinctive curled horns support the identification.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "large",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture",
+          alternativePossibleBreeds: ["Nili-Ravi"]
+        }
+      }
+    ]
+  },
+  {
+    keywords: ['ongole'],
+    breeds: [
+      {
+        species: "Ongole",
+        commonName: "Nellore",
+        confidence: 84,
+        description: "Large white animal with a long body, short stumpy horns and a well-developed hump.",
+        breedCharacteristics: {
+          bodyStructure: "Large, long and muscular frame",
+          colorPattern: "Glossy white with grey on the hump in males",
+          hornCharacteristics: "Short, stumpy, growing outward and backward",
+          earShape: "Moderately long, slightly drooping",
+          facialFeatures: "Long face with a broad forehead",
+          humpPresence: "Prominent",
+          overallConformation: "Draught type with a long body and long legs"
+        },
+        habitat: "Prakasam and Guntur districts, Andhra Pradesh",
+        conservation: "Indigenous",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Verify hump and coat colour in person.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "large",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture",
+          alternativePossibleBreeds: ["Kankrej", "Hariana"]
+        }
+      }
+    ]
+  },
+  {
+    keywords: ['crossbred', 'cross', 'hf-'],
+    breeds: [
+      {
+        species: "Crossbred",
+        breedType: "crossbred",
+        composition: [
+          { breedName: "Holstein Friesian", breedId: "holstein-friesian", percentage: 75 },
+          { breedName: "Gir", breedId: "gir", percentage: 25 }
+        ],
+        confidence: 78,
+        description: "Black and white patched coat with a dairy wedge shape, a small hump and slightly drooping ears.",
+        breedCharacteristics: {
+          bodyStructure: "Large, angular dairy frame",
+          colorPattern: "Black and white patches",
+          hornCharacteristics: "Short, curving forward",
+          earShape: "Medium, slightly drooping",
+          facialFeatures: "Straight face with a slightly convex forehead",
+          humpPresence: "Small",
+          overallConformation: "Dairy type with a well-attached udder"
+        },
+        habitat: "Dairy belts across India",
+        conservation: "Crossbred",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Record as crossbred; exotic inheritance estimated from coat and frame.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "large",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture",
+          crossbreedingIndicators: "Holstein coat pattern with a zebu hump and ear set",
+          alternativePossibleBreeds: ["Holstein Friesian", "Frieswal"]
+        }
+      }
+    ]
+  },
+  {
+    keywords: ['nondescript', 'desi'],
+    breeds: [
+      {
+        species: "Non-descript",
+        breedType: "nondescript",
+        confidence: 82,
+        description: "Small brown animal with short horns and a moderate hump, without the defining traits of any recognized breed.",
+        breedCharacteristics: {
+          bodyStructure: "Small, compact frame",
+          colorPattern: "Solid brown",
+          hornCharacteristics: "Short, upright",
+          earShape: "Small, horizontal",
+          humpPresence: "Moderate",
+          overallConformation: "Local zebu type"
+        },
+        habitat: "Village herds across India",
+        conservation: "Non-descript",
+        isIndianBreed: true,
+        bpaRegistrationNotes: "Register as non-descript.",
+        metadata: {
+          estimatedAge: "adult",
+          estimatedSize: "small",
+          imageQualityNotes: "Mock fixture - no real image analysis performed",
+          environmentalContext: "Mock fixture"
+        }
+      }
+    ]
+  }
+];
+
+export const MOCK_ERROR_FIXTURES: MockErrorFixture[] = [
+  {
+    keywords: ['not-cattle', 'dog', 'cat'],
+    error: 'NOT_CATTLE_BUFFALO',
+    message: "This image does not contain cattle or buffalo. Please upload an image of cattle or buffalo for breed identification."
+  },
+  {
+    keywords: ['blurry', 'poor-quality'],
+    error: 'POOR_IMAGE_QUALITY',
+    message: "The image quality is too poor or animals are not clearly visible. Please upload a clearer, well-lit image of the animals."
+  }
+];
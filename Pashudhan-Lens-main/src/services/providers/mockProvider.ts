@@ -0,0 +1,66 @@
+// Offline, fixture-driven provider for tests, demos and development without API quota
+import {
+  BreedIdentificationProvider,
+  ProviderImagePart,
+  ProviderRequest,
+  ProviderResponse
+} from './types';
+import { sleep } from '@/lib/retry';
+import {
+  MOCK_BREED_FIXTURES,
+  MOCK_ERROR_FIXTURES,
+  MockBreedFixture,
+  MockErrorFixture
+} from './mockFixtures';
+
+export interface MockProviderOptions {
+  latencyMs?: number;
+}
+
+// FNV-1a over the image data so the same photo always maps to the same fixture
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const matchesKeywords = (fileName: string, keywords: string[]) =>
+  keywords.some(keyword => fileName.includes(keyword));
+
+export const selectMockFixture = (image: ProviderImagePart): MockBreedFixture | MockErrorFixture => {
+  const fileName = (image.fileName || '').toLowerCase();
+
+  const errorFixture = MOCK_ERROR_FIXTURES.find(fixture => matchesKeywords(fileName, fixture.keywords));
+  if (errorFixture) return errorFixture;
+
+  const breedFixture = MOCK_BREED_FIXTURES.find(fixture => matchesKeywords(fileName, fixture.keywords));
+  if (breedFixture) return breedFixture;
+
+  return MOCK_BREED_FIXTURES[hashString(image.base64) % MOCK_BREED_FIXTURES.length];
+};
+
+const isErrorFixture = (fixture: MockBreedFixture | MockErrorFixture): fixture is MockErrorFixture =>
+  'error' in fixture;
+
+export const createMockProvider = (options: MockProviderOptions = {}): BreedIdentificationProvider => ({
+  id: 'mock',
+  model: 'mock-fixtures',
+
+  async generateContent(request: ProviderRequest): Promise<ProviderResponse> {
+    request.signal?.throwIfAborted();
+    if (options.latencyMs) {
+      await sleep(options.latencyMs, request.signal);
+    }
+
+    const payload = request.images.map((image, index) => {
+      const fixture = selectMockFixture(image);
+      return isErrorFixture(fixture)
+        ? { image_index: index, fileName: image.fileName, breeds: [], error: fixture.error, message: fixture.message }
+        : { image_index: index, fileName: image.fileName, breeds: fixture.breeds };
+    });
+    return { text: JSON.stringify(payload) };
+  }
+});
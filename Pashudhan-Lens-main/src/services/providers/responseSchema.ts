@@ -0,0 +1,64 @@
+// Converts zod schemas into the OpenAPI subset Gemini accepts as a structured-output responseSchema
+import { z } from 'zod';
+import { ProviderResponseSchema } from './types';
+
+// Preprocess and transform wrappers only change how values are parsed, not their wire shape
+const unwrapEffects = (schema: z.ZodTypeAny): z.ZodTypeAny =>
+  schema instanceof z.ZodEffects ? unwrapEffects(schema.innerType()) : schema;
+
+const isOptionalField = (schema: z.ZodTypeAny): boolean => {
+  const inner = unwrapEffects(schema);
+  return inner instanceof z.ZodOptional || inner instanceof z.ZodDefault || inner instanceof z.ZodNullable;
+};
+
+export const zodToResponseSchema = (schema: z.ZodTypeAny): ProviderResponseSchema => {
+  const description = schema.description;
+  const inner = unwrapEffects(schema);
+  const withDescription = (converted: ProviderResponseSchema): ProviderResponseSchema =>
+    description ? { ...converted, description } : converted;
+
+  if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+    return withDescription(zodToResponseSchema(inner.unwrap()));
+  }
+  if (inner instanceof z.ZodDefault) {
+    return withDescription(zodToResponseSchema(inner.removeDefault()));
+  }
+
+  if (inner instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = inner.shape;
+    const keys = Object.keys(shape);
+    const properties = Object.fromEntries(keys.map(key => [key, zodToResponseSchema(shape[key])]));
+    return withDescription({
+      type: 'OBJECT',
+      properties,
+      required: keys.filter(key => !isOptionalField(shape[key])),
+      propertyOrdering: keys
+    });
+  }
+
+  if (inner instanceof z.ZodArray) {
+    return withDescription({ type: 'ARRAY', items: zodToResponseSchema(inner.element) });
+  }
+
+  if (inner instanceof z.ZodEnum) {
+    return withDescription({ type: 'STRING', format: 'enum', enum: [...inner.options] });
+  }
+
+  if (inner instanceof z.ZodString) {
+    return withDescription({ type: 'STRING' });
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    return withDescription({
+      type: inner.isInt ? 'INTEGER' : 'NUMBER',
+      ...(Number.isFinite(inner.minValue) && { minimum: inner.minValue }),
+      ...(Number.isFinite(inner.maxValue) && { maximum: inner.maxValue })
+    });
+  }
+
+  if (inner instanceof z.ZodBoolean || (inner instanceof z.ZodLiteral && typeof inner.value === 'boolean')) {
+    return withDescription({ type: 'BOOLEAN' });
+  }
+
+  throw new Error(`Unsupported schema type for structured output: ${inner.constructor.name}`);
+};
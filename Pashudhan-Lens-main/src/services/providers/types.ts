@@ -0,0 +1,67 @@
+// Provider abstraction for breed identification backends
+// Services build the prompt and images; providers only move them to a model and return its text
+
+export type BreedProviderId = 'gemini' | 'mock';
+
+export interface ProviderImagePart {
+  base64: string;
+  mimeType: string;
+  fileName?: string;
+}
+
+export interface ProviderGenerationConfig {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+// OpenAPI-style schema the model's JSON output must conform to
+export interface ProviderResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+  description?: string;
+  format?: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  items?: ProviderResponseSchema;
+  properties?: Record<string, ProviderResponseSchema>;
+  required?: string[];
+  propertyOrdering?: string[];
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  images: ProviderImagePart[];
+  generationConfig?: ProviderGenerationConfig;
+  responseSchema?: ProviderResponseSchema; // Providers without structured output ignore this
+  signal?: AbortSignal; // Aborting rejects generateContent with an AbortError
+}
+
+export interface ProviderResponse {
+  text: string;
+}
+
+// Supplies the signed-in user's session token; null when signed out
+export type ProviderAuthTokenGetter = () => Promise<string | null>;
+
+export interface BreedIdentificationProvider {
+  readonly id: BreedProviderId;
+  readonly model: string;
+  generateContent(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+// Raised for transport-level failures so services can map status codes to user-facing messages
+export class BreedProviderError extends Error {
+  readonly status?: number;
+  readonly details?: string;
+  readonly retryAfterMs?: number; // From the response's Retry-After header
+
+  constructor(message: string, options: { status?: number; details?: string; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'BreedProviderError';
+    this.status = options.status;
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
@@ -0,0 +1,62 @@
+import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryRouter } from 'react-router-dom'
+import { RoleGuard } from '@/components/RoleGuard'
+import { hasPermission, ROUTE_PERMISSIONS } from '@/lib/roles'
+import { UserRole } from '@/types/auth'
+
+const auth = vi.hoisted(() => ({ current: {} as Record<string, unknown> }))
+
+vi.mock('@/hooks/use-auth-context', () => ({
+  useAuthContext: () => auth.current,
+}))
+
+const signedInAs = (role: UserRole) => ({
+  mode: 'clerk',
+  isLoaded: true,
+  isSignedIn: true,
+  user: { id: 'user_1', name: 'Asha', role },
+  can: (permission: Parameters<typeof hasPermission>[1]) => hasPermission(role, permission),
+  redirectToSignIn: vi.fn(),
+})
+
+const renderAt = (path: string, permission: keyof typeof ROUTE_PERMISSIONS) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <RoleGuard permission={ROUTE_PERMISSIONS[permission]}>
+        <p>Protected page</p>
+      </RoleGuard>
+    </MemoryRouter>
+  )
+
+describe('RoleGuard', () => {
+  it('sends signed-out visitors to sign-in and back to the page they asked for', () => {
+    const redirectToSignIn = vi.fn()
+    auth.current = { mode: 'mock', isLoaded: true, isSignedIn: false, user: null, can: () => false, signIn: vi.fn(), redirectToSignIn }
+
+    renderAt('/history?breed=gir', 'history')
+
+    expect(screen.queryByText('Protected page')).toBeNull()
+    expect(screen.getByText('Sign in required')).toBeTruthy()
+    expect(redirectToSignIn).toHaveBeenCalledWith(`${window.location.origin}/history?breed=gir`)
+  })
+
+  it('opens History for reviewers but keeps them out of Results', () => {
+    auth.current = signedInAs('vet-reviewer')
+    renderAt('/history', 'history')
+    expect(screen.getByText('Protected page')).toBeTruthy()
+
+    auth.current = signedInAs('vet-reviewer')
+    renderAt('/results', 'results')
+    expect(screen.getByText('Access restricted')).toBeTruthy()
+  })
+
+  it('opens Results for field workers', () => {
+    const fieldWorker = signedInAs('field-worker')
+    auth.current = fieldWorker
+    renderAt('/results', 'results')
+
+    expect(screen.getByText('Protected page')).toBeTruthy()
+    expect(fieldWorker.redirectToSignIn).not.toHaveBeenCalled()
+  })
+})
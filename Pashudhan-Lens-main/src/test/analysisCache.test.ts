@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createAnalysisCacheEntry,
+  getAnalysisCacheHitRate,
+  getAnalysisCacheKey,
+  isAnalysisCacheEntryFresh,
+  isCacheableResult
+} from '@/lib/analysisCache'
+import { result } from '@/test/fixtures'
+
+describe('analysis cache', () => {
+  it('keys entries by content hash, model and prompt version', () => {
+    expect(getAnalysisCacheKey('abc', 'gemini-2.5-flash', '5')).toBe('abc:gemini-2.5-flash:5')
+    expect(getAnalysisCacheKey('abc', 'gemini-2.5-flash', '6')).not.toBe(getAnalysisCacheKey('abc', 'gemini-2.5-flash', '5'))
+  })
+
+  it('stores the result without its position in the batch and expires it after the TTL', () => {
+    const entry = createAnalysisCacheEntry('abc', 'mock-fixtures', '5', result({ cached: true }), 1000, 5000)
+
+    expect(entry.result).not.toHaveProperty('imageIndex')
+    expect(entry.result).not.toHaveProperty('fileName')
+    expect(entry.result).not.toHaveProperty('cached')
+    expect(isAnalysisCacheEntryFresh(entry, 5999)).toBe(true)
+    expect(isAnalysisCacheEntryFresh(entry, 6000)).toBe(false)
+  })
+
+  it('only caches identified breeds', () => {
+    expect(isCacheableResult(result())).toBe(true)
+    expect(isCacheableResult(result({ breeds: [] }))).toBe(false)
+    expect(isCacheableResult(result({ error: 'Network connection error.' }))).toBe(false)
+  })
+
+  it('reports no hit rate before the first lookup', () => {
+    expect(getAnalysisCacheHitRate({ hits: 0, misses: 0 })).toBeUndefined()
+    expect(getAnalysisCacheHitRate({ hits: 3, misses: 1 })).toBe(0.75)
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi } from 'vitest'
+import { saveBatchToHistory } from '@/services/analysisHistory'
+import { batchResult, result } from '@/test/fixtures'
+
+vi.mock('@/lib/localDatabase', () => ({
+  STORES: { analysisHistory: 'analysisHistory' },
+  putRecord: vi.fn(async () => undefined),
+}))
+vi.mock('@/lib/fileHash', () => ({ computeSha256: vi.fn(async () => 'abc123') }))
+vi.mock('@/services/breedAnalysis', () => ({
+  processImageFile: vi.fn(async () => ({ base64: 'AAAA', mimeType: 'image/jpeg' })),
+}))
+
+describe('analysis history', () => {
+  it('records how long each image of a batch took on its own', async () => {
+    const files = ['gir_01.jpg', 'gir_02.jpg'].map(name => new File(['image'], name, { type: 'image/jpeg' }))
+    const batch = batchResult([
+      result({ fileName: 'gir_01.jpg', processingTime: 1200 }),
+      result({ imageIndex: 1, fileName: 'gir_02.jpg', processingTime: 3400 }),
+    ])
+    batch.summary.processingTime = 9000
+
+    const saved = await saveBatchToHistory(files, batch)
+    expect(saved.map(record => record.processingTime)).toEqual([1200, 3400])
+
+    // Guided capture sends every view in one request, so its result has no time of its own
+    const [guided] = await saveBatchToHistory(files.slice(0, 1), { ...batch, results: [result()] })
+    expect(guided.processingTime).toBe(9000)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createAnimalRecordFormDefaults,
+  createAnimalRecordFormSchema,
+  normalizeEarTag,
+  suggestAnimalFields
+} from '@/lib/animalRecordSchema'
+import { breed } from '@/test/fixtures'
+
+const sahiwal = breed('Sahiwal cattle', 88, {
+  breedCharacteristics: { bodyStructure: 'medium', colorPattern: 'reddish brown', overallConformation: '' },
+  metadata: { estimatedAge: 'Adult, around 5 years', estimatedSize: 'Medium-large frame' }
+})
+
+const validInput = {
+  ...createAnimalRecordFormDefaults({}),
+  earTagId: '1234 5678-9012',
+  ownerName: 'Ramesh',
+  village: 'Kheri',
+  sex: 'female' as const,
+  breedName: 'Sahiwal',
+  ageClass: 'adult' as const
+}
+
+describe('animal record form', () => {
+  it('normalizes and validates ear tags', () => {
+    expect(normalizeEarTag('1234 5678-9012')).toBe('123456789012')
+
+    const schema = createAnimalRecordFormSchema({})
+    expect(schema.parse(validInput).earTagId).toBe('123456789012')
+    expect(schema.safeParse({ ...validInput, earTagId: '12345' }).success).toBe(false)
+  })
+
+  it('maps model estimates onto form classes', () => {
+    expect(suggestAnimalFields(sahiwal)).toEqual({ breedName: 'Sahiwal', ageClass: 'adult', sizeClass: 'large' })
+    expect(suggestAnimalFields({ ...sahiwal, metadata: { estimatedAge: 'Cannot determine' } }).ageClass).toBeUndefined()
+  })
+
+  it('requires a date of birth or an age estimate', () => {
+    const schema = createAnimalRecordFormSchema({})
+    expect(schema.safeParse({ ...validInput, ageClass: '' }).success).toBe(false)
+    expect(schema.safeParse({ ...validInput, ageClass: '', dateOfBirth: '2020-01-15' }).success).toBe(true)
+  })
+
+  it('requires every AI suggestion to be confirmed', () => {
+    const suggestions = suggestAnimalFields(sahiwal)
+    const schema = createAnimalRecordFormSchema(suggestions)
+    const input = { ...createAnimalRecordFormDefaults(suggestions), ...validInput, confirmed: { breedName: true, ageClass: true, sizeClass: false } }
+
+    const result = schema.safeParse(input)
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual(['confirmed.sizeClass'])
+
+    expect(schema.safeParse({ ...input, confirmed: { breedName: true, ageClass: true, sizeClass: true } }).success).toBe(true)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { zipSync } from 'fflate'
+import { getBatchJobName, readZipImages, selectImageFiles } from '@/services/batchImport'
+
+const image = () => new Uint8Array([0xff, 0xd8, 0xff])
+
+const pickedFile = (path: string) => {
+  const file = new File([image()], path.split('/').pop(), { type: '' })
+  Object.defineProperty(file, 'webkitRelativePath', { value: path })
+  return file
+}
+
+// jsdom's File has no arrayBuffer()
+const zipFile = (name: string, entries: Record<string, Uint8Array>) => {
+  const data = zipSync(entries)
+  return Object.assign(new File([data], name), { arrayBuffer: async () => data.buffer })
+}
+
+describe('batch import', () => {
+  it('keeps folder paths for images with the same name in a ZIP archive', async () => {
+    const archive = zipFile('herd.zip', {
+      'farmB/cow1.jpg': image(),
+      'farmA/cow1.jpg': image(),
+      'farmA/notes.txt': new Uint8Array([1])
+    })
+
+    const files = await readZipImages(archive)
+
+    expect(files.map(file => file.name)).toEqual(['farmA/cow1.jpg', 'farmB/cow1.jpg'])
+    expect(files.every(file => file.type === 'image/jpeg')).toBe(true)
+    expect(getBatchJobName(files, archive)).toBe('herd')
+  })
+
+  it('names picked folder images by their path inside the folder', () => {
+    const files = selectImageFiles([
+      pickedFile('herd/farmB/cow1.jpg'),
+      pickedFile('herd/farmA/cow1.jpg'),
+      pickedFile('herd/readme.md')
+    ])
+
+    expect(files.map(file => file.name)).toEqual(['herd/farmA/cow1.jpg', 'herd/farmB/cow1.jpg'])
+    expect(files.every(file => file.type === 'image/jpeg')).toBe(true)
+    expect(getBatchJobName(files)).toBe('herd')
+  })
+
+  it('falls back to a count for loose files', () => {
+    expect(getBatchJobName([new File([image()], 'cow1.jpg')])).toBe('1 images')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BATCH_JOB_FAILURE_BACKOFF_MS,
+  BATCH_JOB_MAX_ATTEMPTS,
+  getBatchJobBackoff,
+  getBatchJobChunkSize,
+  getBatchJobItemOutcome,
+  getBatchJobPacingDelay,
+  getBatchJobPercent,
+  getImageMimeType,
+  summarizeBatchJobItems
+} from '@/lib/batchJob'
+import { result } from '@/test/fixtures'
+
+describe('batch jobs', () => {
+  it('imports images and skips archive and system files', () => {
+    expect(getImageMimeType('herd/gir_01.JPG')).toBe('image/jpeg')
+    expect(getImageMimeType('herd/murrah.heic')).toBe('image/heic')
+    expect(getImageMimeType('herd/notes.txt')).toBeUndefined()
+    expect(getImageMimeType('herd/.DS_Store')).toBeUndefined()
+    expect(getImageMimeType('__MACOSX/herd/._gir_01.jpg')).toBeUndefined()
+    expect(getImageMimeType('herd/')).toBeUndefined()
+  })
+
+  it('keeps failed requests pending until the attempt limit', () => {
+    const failed = result({ breeds: [], error: 'Network connection error.', requestFailed: true })
+
+    expect(getBatchJobItemOutcome({ attempts: 0 }, failed)).toEqual({ status: 'pending', attempts: 1 })
+    expect(getBatchJobItemOutcome({ attempts: BATCH_JOB_MAX_ATTEMPTS - 1 }, failed))
+      .toEqual({ status: 'error', attempts: BATCH_JOB_MAX_ATTEMPTS })
+  })
+
+  it('keeps rate-limited items pending without using up an attempt', () => {
+    const limited = result({ breeds: [], requestFailed: true, rateLimited: true, retryAfterMs: 45_000 })
+    expect(getBatchJobItemOutcome({ attempts: BATCH_JOB_MAX_ATTEMPTS - 1 }, limited))
+      .toEqual({ status: 'pending', attempts: BATCH_JOB_MAX_ATTEMPTS - 1 })
+  })
+
+  it('paces chunks to the proxy rate limit', () => {
+    const rateLimit = { limit: 20, windowMs: 60_000 }
+    const sent = Array.from({ length: 15 }, (_, index) => 1_000 + index * 1_000)
+
+    expect(getBatchJobChunkSize({ limit: 4, windowMs: 60_000 })).toBe(4)
+    expect(getBatchJobPacingDelay(sent.slice(0, 10), 10, rateLimit, 20_000)).toBe(0)
+    // 5 of the 15 must leave the window first; the 5th was sent at 5s
+    expect(getBatchJobPacingDelay(sent, 10, rateLimit, 20_000)).toBe(45_000)
+    expect(getBatchJobPacingDelay(sent, 10, rateLimit, 70_000)).toBe(0)
+  })
+
+  it('waits as long as the service asks after a failed request', () => {
+    expect(getBatchJobBackoff([result(), result()])).toBe(0)
+    expect(getBatchJobBackoff([result(), result({ breeds: [], requestFailed: true })])).toBe(BATCH_JOB_FAILURE_BACKOFF_MS)
+    expect(getBatchJobBackoff([
+      result({ breeds: [], requestFailed: true, rateLimited: true, retryAfterMs: 45_000 }),
+      result({ breeds: [], requestFailed: true, rateLimited: true, retryAfterMs: 50_000 })
+    ])).toBe(50_000)
+  })
+
+  it('finishes items the model answered, identified or not', () => {
+    expect(getBatchJobItemOutcome({ attempts: 1 }, result()).status).toBe('complete')
+    expect(getBatchJobItemOutcome({ attempts: 0 }, result({ breeds: [] })).status).toBe('unidentified')
+    expect(getBatchJobItemOutcome({ attempts: 0 }, result({ breeds: [], error: 'No cattle detected' })).status).toBe('unidentified')
+  })
+
+  it('counts every finished item towards progress', () => {
+    const progress = summarizeBatchJobItems([
+      { status: 'complete' }, { status: 'unidentified' }, { status: 'error' }, { status: 'pending' }
+    ])
+
+    expect(progress).toEqual({ total: 4, pending: 1, complete: 1, unidentified: 1, error: 1 })
+    expect(getBatchJobPercent(progress)).toBe(75)
+    expect(getBatchJobPercent(summarizeBatchJobItems([]))).toBe(100)
+  })
+})
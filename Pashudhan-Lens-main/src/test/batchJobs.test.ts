@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createBatchJob, getBatchJobSnapshot, startBatchJob } from '@/services/batchJobs'
+import { identifyBreedsBatch } from '@/services/breedAnalysis'
+import { sleep } from '@/lib/retry'
+import { batchResult, result } from '@/test/fixtures'
+import { BatchBreedAnalysisResult, MultiImageBreedResult } from '@/types/breedIdentification'
+
+const stores = vi.hoisted(() => new Map<string, Map<string, { id: string; attempts?: number }>>())
+
+vi.mock('@/lib/localDatabase', () => {
+  const store = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map())
+    return stores.get(name)
+  }
+  return {
+    STORES: { batchJobs: 'batchJobs', batchJobItems: 'batchJobItems' },
+    getAllRecords: async (name: string) => [...store(name).values()],
+    getAllRecordsByIndex: async (name: string, index: string, key: string) =>
+      [...store(name).values()].filter(record => record[index as keyof typeof record] === key),
+    putRecord: async (name: string, record: { id: string }) => {
+      store(name).set(record.id, record)
+    },
+    deleteRecord: async (name: string, key: string) => {
+      store(name).delete(key)
+    },
+  }
+})
+
+vi.mock('@/lib/retry', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/retry')>(),
+  sleep: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/services/breedAnalysis', () => ({ identifyBreedsBatch: vi.fn() }))
+vi.mock('@/services/analysisHistory', () => ({ saveBatchToHistory: vi.fn(async () => []) }))
+
+// Answers each image with the result built for it and reports it the way the real pipeline does
+const answer = (build: (file: File, imageIndex: number) => MultiImageBreedResult) =>
+  async (
+    files: File[],
+    _onProgress: unknown,
+    { onImageResult }: { onImageResult?: (item: MultiImageBreedResult) => void }
+  ): Promise<BatchBreedAnalysisResult> => {
+    const results = files.map((file, imageIndex) => build(file, imageIndex))
+    results.forEach(item => onImageResult?.(item))
+    return batchResult(results)
+  }
+
+const identified = (file: File, imageIndex: number): MultiImageBreedResult =>
+  result({ imageIndex, fileName: file.name })
+
+describe('batch job runs', () => {
+  it('waits out a rate limit and finishes the rate-limited images', async () => {
+    vi.mocked(identifyBreedsBatch)
+      .mockImplementationOnce(answer((file, imageIndex) => imageIndex === 0
+        ? identified(file, imageIndex)
+        : result({ imageIndex, fileName: file.name, breeds: [], requestFailed: true, rateLimited: true, retryAfterMs: 45_000 })))
+      .mockImplementationOnce(answer(identified))
+
+    const files = ['gir_01.jpg', 'gir_02.jpg', 'gir_03.jpg'].map(name => new File(['image'], name, { type: 'image/jpeg' }))
+    await createBatchJob(files, 'herd', 'files')
+    await startBatchJob()
+
+    expect(sleep).toHaveBeenCalledWith(45_000, expect.any(AbortSignal))
+    expect(vi.mocked(identifyBreedsBatch).mock.calls[1][0].map(file => file.name)).toEqual(['gir_02.jpg', 'gir_03.jpg'])
+
+    const snapshot = await getBatchJobSnapshot()
+    expect(snapshot.job).toMatchObject({ status: 'completed', waitingUntil: undefined })
+    expect(snapshot.progress).toMatchObject({ complete: 3, pending: 0, error: 0 })
+    expect([...stores.get('batchJobItems').values()].map(item => item.attempts)).toEqual([0, 0, 0])
+  })
+})
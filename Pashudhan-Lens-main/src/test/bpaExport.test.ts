@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { BPA_EXPORT_VERSION, createBpaExportPayload, toBpaCsv } from '@/lib/bpaExport'
+import { breed, exportSource, review } from '@/test/fixtures'
+
+describe('BPA export', () => {
+  it('builds one row per image from the top breed', () => {
+    const payload = createBpaExportPayload([
+      exportSource('gir.jpg', [breed('Sahiwal', 40), breed('Gir cattle', 91, { metadata: { alternativePossibleBreeds: ['Kankrej'] } })]),
+      exportSource('murrah.jpg', [breed('Murrah', 70)]),
+      exportSource('blank.jpg', [])
+    ], new Date('2025-01-11T00:00:00.000Z'))
+
+    expect(payload.version).toBe(BPA_EXPORT_VERSION)
+    expect(payload.rowCount).toBe(3)
+    expect(payload.rows[0]).toMatchObject({
+      recordNumber: 1,
+      breedId: 'gir',
+      breedName: 'Gir',
+      species: 'cattle',
+      confidence: 91,
+      verificationStatus: 'auto-verified',
+      alternativeBreeds: ['Sahiwal', 'Kankrej']
+    })
+    expect(payload.rows[1]).toMatchObject({ breedId: 'murrah', species: 'buffalo', verificationStatus: 'needs-review' })
+    expect(payload.rows[2]).toMatchObject({ breedId: '', confidence: 0, verificationStatus: 'unidentified' })
+  })
+
+  it('keeps unknown breeds without a registry ID', () => {
+    const [row] = createBpaExportPayload([exportSource('x.jpg', [breed('Unlisted local', 90)])]).rows
+    expect(row.breedId).toBe('')
+    expect(row.breedName).toBe('Unlisted local')
+  })
+
+  it('uses the reviewer decision over the AI result', () => {
+    const crossbred = review({ decision: 'crossbred', comment: 'HF cross, patchy coat' })
+    const [row] = createBpaExportPayload([exportSource('x.jpg', [breed('Gir', 60)], { review: crossbred })]).rows
+
+    expect(row).toMatchObject({
+      breedId: '',
+      breedName: 'Crossbred',
+      breedType: 'crossbred',
+      breedComposition: [],
+      species: 'cattle',
+      confidence: 60,
+      verificationStatus: 'crossbred',
+      reviewDecision: 'crossbred',
+      reviewerName: 'Dr. Meena'
+    })
+  })
+
+  it('exports AI-identified crossbreds with their composition', () => {
+    const crossbred = breed('Crossbred', 90, {
+      breedType: 'crossbred',
+      composition: [
+        { breedName: 'Holstein Friesian', breedId: 'holstein-friesian', percentage: 75 },
+        { breedName: 'Gir', breedId: 'gir', percentage: 25 },
+      ],
+    })
+    const payload = createBpaExportPayload([exportSource('x.jpg', [crossbred])])
+
+    expect(payload.rows[0]).toMatchObject({
+      species: 'cattle',
+      breedId: '',
+      breedName: 'Crossbred',
+      breedType: 'crossbred',
+      verificationStatus: 'auto-verified',
+    })
+    expect(toBpaCsv(payload)).toContain(',cattle,,Crossbred,crossbred,Holstein Friesian 75%; Gir 25%,90,')
+  })
+
+  it('writes a versioned, quoted CSV', () => {
+    const payload = createBpaExportPayload([exportSource('cow, "front".jpg', [breed('Gir', 90, { metadata: { alternativePossibleBreeds: ['Sahiwal', 'Kankrej'] } })])])
+    const [header, row] = toBpaCsv(payload).trim().split('\r\n')
+
+    expect(header.split(',').slice(0, 3)).toEqual(['format_version', 'record_number', 'image_file_name'])
+    expect(row).toContain(`${BPA_EXPORT_VERSION},1,"cow, ""front"".jpg",abc123,cattle,gir,Gir,purebred,,90,auto-verified,Sahiwal; Kankrej,`)
+  })
+
+  it('keeps formula-like text from running in spreadsheets', () => {
+    const payload = createBpaExportPayload([exportSource('=HYPERLINK("http://x")', [breed('Gir', 90)])])
+    const [, row] = toBpaCsv(payload).trim().split('\r\n')
+
+    expect(row).toContain(`,"'=HYPERLINK(""http://x"")",`)
+    expect(row).toContain(',90,')
+  })
+})
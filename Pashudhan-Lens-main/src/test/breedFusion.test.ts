@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { fuseBreedResults, fusedResultRequiresReview, toFusedImageResult } from '@/lib/breedFusion'
+import { breed, result } from '@/test/fixtures'
+
+// What the model writes for a trait it couldn't see
+const unseen = {
+  bodyStructure: 'Not clearly visible',
+  colorPattern: 'Not clearly visible',
+  overallConformation: 'Not clearly visible'
+}
+
+describe('breed fusion', () => {
+  it('averages confidence over views and counts missing breeds as zero', () => {
+    const fused = fuseBreedResults([
+      result({
+        imageIndex: 0,
+        breeds: [breed('Gir cattle', 90, { description: 'Gir cattle description' }), breed('Kankrej', 40)]
+      }),
+      result({ imageIndex: 1, breeds: [breed('Gir', 70)] }),
+      result({ imageIndex: 2, breeds: [breed('Kankrej', 95)] })
+    ], undefined, new Date('2025-01-10T08:00:00.000Z'))
+
+    expect(fused.success).toBe(true)
+    expect(fused.candidates.map(({ species, confidence }) => [species, confidence]))
+      .toEqual([['Gir', 53], ['Kankrej', 45]])
+    expect(fused.candidates[0].viewConfidences).toEqual([{ imageIndex: 0, confidence: 90 }, { imageIndex: 1, confidence: 70 }])
+    expect(fused.agreement).toBe('majority')
+    expect(fused.breed).toMatchObject({ species: 'Gir', breedId: 'gir', confidence: 53, description: 'Gir cattle description' })
+    expect(fused.breed.metadata.alternativePossibleBreeds).toEqual(['Kankrej'])
+  })
+
+  it('takes each trait from the view that actually shows it', () => {
+    const fused = fuseBreedResults([
+      result({
+        imageIndex: 0,
+        breeds: [breed('Gir', 80, { breedCharacteristics: { ...unseen, bodyStructure: 'Medium, deep body', humpPresence: 'Prominent' } })]
+      }),
+      result({
+        imageIndex: 1,
+        breeds: [breed('Gir', 60, { breedCharacteristics: { ...unseen, hornCharacteristics: 'Curved back and down', bodyStructure: 'Large' } })]
+      })
+    ])
+
+    expect(fused.agreement).toBe('unanimous')
+    expect(fused.breed.breedCharacteristics).toMatchObject({
+      bodyStructure: 'Medium, deep body',
+      humpPresence: 'Prominent',
+      hornCharacteristics: 'Curved back and down',
+      colorPattern: 'Not clearly visible'
+    })
+    expect(fused.traitSources.map(({ trait, imageIndex }) => [trait, imageIndex])).toEqual([
+      ['bodyStructure', 0],
+      ['hornCharacteristics', 1],
+      ['humpPresence', 0]
+    ])
+  })
+
+  it('ignores failed views and fails when none are usable', () => {
+    const fused = fuseBreedResults([
+      result({ imageIndex: 0, breeds: [breed('Murrah', 80)] }),
+      result({ imageIndex: 1, breeds: [], error: 'Too dark' })
+    ])
+    expect(fused.analysisMetadata).toMatchObject({ viewCount: 2, usableViewCount: 1 })
+    expect(fused.breed.confidence).toBe(80)
+
+    const failed = fuseBreedResults([
+      result({ imageIndex: 0, breeds: [], error: 'Too dark' }),
+      result({ imageIndex: 1, breeds: [], error: 'Blurry' })
+    ])
+    expect(failed.success).toBe(false)
+    expect(failed.error).toBeTruthy()
+  })
+
+  it('turns the merged verdict into a one-breed result for history and review', () => {
+    const agreed = fuseBreedResults([
+      result({ imageIndex: 0, breeds: [breed('Gir', 96)] }),
+      result({ imageIndex: 1, breeds: [breed('Gir', 90)] })
+    ])
+    expect(toFusedImageResult(agreed, 'view-0.jpg + view-1.jpg')).toMatchObject({
+      imageIndex: 0,
+      fileName: 'view-0.jpg + view-1.jpg',
+      breeds: [{ species: 'Gir', confidence: 93 }]
+    })
+    expect(fusedResultRequiresReview(agreed)).toBe(false)
+
+    // Confident overall, but the photos' top calls disagree
+    const split = fuseBreedResults([
+      result({ imageIndex: 0, breeds: [breed('Gir', 96), breed('Sahiwal', 90)] }),
+      result({ imageIndex: 1, breeds: [breed('Sahiwal', 92), breed('Gir', 90)] })
+    ])
+    expect(split).toMatchObject({ agreement: 'split', breed: { species: 'Gir', confidence: 93 } })
+    expect(fusedResultRequiresReview(split)).toBe(true)
+
+    const unsure = fuseBreedResults([
+      result({ imageIndex: 0, breeds: [breed('Gir', 70)] }),
+      result({ imageIndex: 1, breeds: [breed('Gir', 60)] })
+    ])
+    expect(fusedResultRequiresReview(unsure)).toBe(true)
+  })
+})
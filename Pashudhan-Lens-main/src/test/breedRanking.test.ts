@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { getBreedRanking, rankBreeds } from '@/lib/breedRanking'
+import { summarizeResults } from '@/services/breedAnalysis'
+import { StandardizedBreedIdentification } from '@/types/breedIdentification'
+import { breed, result } from '@/test/fixtures'
+
+const probabilities = (breeds: StandardizedBreedIdentification[]) =>
+  rankBreeds(breeds).candidates.map(candidate => Math.round(candidate.probability * 100))
+
+describe('breed ranking', () => {
+  it('keeps the top three, most likely first, with duplicates merged', () => {
+    const ranking = rankBreeds([
+      breed('Sahiwal', 20), breed('Gir cattle', 50), breed('Kankrej', 10), breed('Gir', 55), breed('Red Sindhi', 5)
+    ])
+
+    expect(ranking.candidates.map(candidate => candidate.species)).toEqual(['Gir', 'Sahiwal', 'Kankrej'])
+    expect(ranking.candidates[0]).toMatchObject({ breedId: 'gir', confidence: 55 })
+  })
+
+  it('leaves unclaimed confidence to other breeds and scales down lists over 100', () => {
+    const lone = rankBreeds([breed('Gir', 60)])
+    expect(lone.candidates[0].probability).toBeCloseTo(0.6)
+    expect(lone.otherProbability).toBeCloseTo(0.4)
+
+    expect(probabilities([breed('Gir', 90), breed('Sahiwal', 60)])).toEqual([60, 40])
+    expect(rankBreeds([breed('Gir', 90), breed('Sahiwal', 60)]).otherProbability).toBe(0)
+  })
+
+  it('flags close top two candidates as uncertain', () => {
+    expect(rankBreeds([breed('Gir', 45), breed('Sahiwal', 40)]).uncertain).toBe(true)
+    expect(rankBreeds([breed('Gir', 70), breed('Sahiwal', 20)]).uncertain).toBe(false)
+    expect(rankBreeds([breed('Gir', 30)]).uncertain).toBe(false)
+  })
+
+  it('prefers a stored ranking over recomputing one', () => {
+    const stored = { candidates: [], otherProbability: 1, margin: 0, uncertain: false }
+    expect(getBreedRanking({ breeds: [breed('Gir', 90)], ranking: stored })).toBe(stored)
+    expect(getBreedRanking({ breeds: [breed('Gir', 90)] }).candidates).toHaveLength(1)
+  })
+
+  it('summarizes a batch by the top candidate of each image', () => {
+    const summary = summarizeResults([
+      result({ breeds: [breed('Gir', 60), breed('Sahiwal', 25), breed('Kankrej', 10)] }),
+      result({ imageIndex: 1, breeds: [breed('Sahiwal', 80), breed('Red Sindhi', 15)] }),
+      result({ imageIndex: 2, breeds: [], error: 'No cattle detected' })
+    ], 1200)
+
+    expect(summary).toMatchObject({
+      totalImages: 3,
+      successfulAnalyses: 2,
+      totalBreedsIdentified: 2,
+      averageConfidence: 70,
+      mostCommonBreeds: ['Gir', 'Sahiwal']
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { BREED_REGISTRY, findBreed, normalizeBreedName, searchBreeds, toBreedKey } from '@/lib/breedRegistry'
+import { getBreedProfile } from '@/lib/breedProfiles'
+import { INDIAN_CATTLE_BREEDS, INDIAN_BUFFALO_BREEDS } from '@/types/breedIdentification'
+
+describe('breed registry', () => {
+  it('resolves spellings and synonyms to the same record', () => {
+    expect(findBreed('Nili Ravi')?.id).toBe('nili-ravi')
+    expect(findBreed('nili-ravi')?.id).toBe('nili-ravi')
+    expect(findBreed('Wadhiyar')?.id).toBe('kankrej')
+    expect(findBreed('Murrah buffalo')?.id).toBe('murrah')
+    expect(findBreed('Gir Buffalo')?.id).toBe('jaffarabadi')
+    expect(normalizeBreedName('HF')).toBe('Holstein Friesian')
+    expect(normalizeBreedName('Angus')).toBe('Angus')
+  })
+
+  it('filters by species', () => {
+    expect(findBreed('Toda', 'buffalo')?.name).toBe('Toda')
+    expect(findBreed('Toda', 'cattle')).toBeUndefined()
+  })
+
+  it('keeps ids, names and synonyms unique', () => {
+    const ids = BREED_REGISTRY.map(breed => breed.id)
+    expect(new Set(ids).size).toBe(ids.length)
+
+    const keys = BREED_REGISTRY.flatMap(breed =>
+      Array.from(new Set([breed.name, breed.id, ...breed.synonyms].map(toBreedKey))))
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+
+  it('lists each breed under exactly one species', () => {
+    const shared = INDIAN_CATTLE_BREEDS.filter(name => INDIAN_BUFFALO_BREEDS.includes(name))
+    expect(shared).toEqual([])
+  })
+
+  it('has a library profile for every breed', () => {
+    const missing = BREED_REGISTRY.filter(breed => !getBreedProfile(breed.id)).map(breed => breed.id)
+    expect(missing).toEqual([])
+  })
+
+  it('searches names, synonyms and states within the active filters', () => {
+    expect(searchBreeds('wadhiyar').map(breed => breed.id)).toEqual(['kankrej'])
+    expect(searchBreeds('odisha', { species: 'buffalo' }).map(breed => breed.id))
+      .toEqual(['kalahandi', 'sambalpuri', 'chilika'])
+    expect(searchBreeds('', { origin: 'crossbred' })).toHaveLength(4)
+  })
+})
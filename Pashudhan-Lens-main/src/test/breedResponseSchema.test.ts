@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { coerceConfidence, validateAnalysisResponse } from '@/lib/breedResponseSchema'
+import { BREED_ANALYSIS_RESPONSE_SCHEMA } from '@/services/breedAnalysis'
+import { modelBreed } from '@/test/fixtures'
+
+describe('breed response schema', () => {
+  it('coerces decimal and string confidence values', () => {
+    expect(coerceConfidence(0.85)).toBe(85)
+    expect(coerceConfidence('72%')).toBe(72)
+    expect(coerceConfidence('91')).toBe(91)
+    expect(coerceConfidence(64)).toBe(64)
+    expect(coerceConfidence(1)).toBe(1)
+  })
+
+  it('decides the fractional scale once per response', () => {
+    const fractional = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ confidence: 0.85 }), modelBreed({ species: 'Sahiwal', confidence: 0.1 })] },
+    ])
+    expect(fractional.images[0].breeds.map(result => result.confidence)).toEqual([85, 10])
+
+    const percent = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ confidence: 80 }), modelBreed({ species: 'Sahiwal', confidence: 1 })] },
+    ])
+    expect(percent.images[0].breeds.map(result => result.confidence)).toEqual([80, 1])
+  })
+
+  it('scales fractional composition shares separately from confidence', () => {
+    const { images } = validateAnalysisResponse([
+      {
+        image_index: 0,
+        breeds: [modelBreed({
+          breedType: 'crossbred',
+          confidence: 70,
+          composition: [{ breedName: 'HF', percentage: 0.75 }, { breedName: 'Gir', percentage: 0.25 }],
+        })],
+      },
+    ])
+
+    expect(images[0].breeds[0].confidence).toBe(70)
+    expect(images[0].breeds[0].composition.map(share => share.percentage)).toEqual([75, 25])
+  })
+
+  it('repairs a single envelope that uses "results" and a single breed object', () => {
+    const { images, report } = validateAnalysisResponse({
+      image_index: 0,
+      results: modelBreed({ confidence: '0.9' }),
+    })
+
+    expect(images).toHaveLength(1)
+    expect(images[0].breeds[0].confidence).toBe(90)
+    expect(report.acceptedBreeds).toBe(1)
+    expect(report.repairs.map(repair => repair.message)).toEqual(expect.arrayContaining([
+      'Wrapped single object in an array',
+      'Used "results" field in place of "breeds"',
+      'Wrapped single breed object in an array',
+    ]))
+  })
+
+  it('reports rejected fields without dropping valid siblings', () => {
+    const { images, report } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed(), modelBreed({ confidence: 'very high', isIndianBreed: 'maybe' })] },
+    ])
+
+    expect(images[0].breeds).toHaveLength(1)
+    expect(images[0].report.rejectedBreeds).toBe(1)
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      '[0].breeds[1].confidence',
+      '[0].breeds[1].isIndianBreed',
+    ])
+  })
+
+  it('fills defaults for missing characteristics and metadata', () => {
+    const { images, report } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ breedCharacteristics: undefined, conservation: null })] },
+    ])
+
+    const [result] = images[0].breeds
+    expect(result.breedCharacteristics.bodyStructure).toBe('Not clearly visible')
+    expect(result.conservation).toBe('Status information not available')
+    expect(result.metadata).toEqual({ estimatedAge: 'adult' })
+    expect(report.issues).toEqual([])
+  })
+
+  it('rejects breed names outside the supported lists', () => {
+    const { images, report } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ species: 'Angus' })] },
+    ])
+
+    expect(images[0].breeds).toEqual([])
+    expect(report.issues[0].path).toBe('[0].breeds[0].species')
+  })
+
+  it('accepts exotic breeds and sets isIndianBreed from the registry', () => {
+    const { images } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ species: 'HF', isIndianBreed: true })] },
+    ])
+
+    expect(images[0].breeds[0]).toMatchObject({
+      species: 'Holstein Friesian',
+      breedType: 'purebred',
+      isIndianBreed: false,
+    })
+  })
+
+  it('returns crossbreds with a normalized composition', () => {
+    const { images, report } = validateAnalysisResponse([
+      {
+        image_index: 0,
+        breeds: [modelBreed({
+          species: 'Holstein Friesian',
+          breedType: 'Crossbred',
+          composition: [
+            { breedName: 'HF', percentage: '60%' },
+            { breedName: 'Gir', percentage: 30 },
+            { breedName: 'holstein', percentage: 10 },
+          ],
+        })],
+      },
+    ])
+
+    const [result] = images[0].breeds
+    expect(result.species).toBe('Crossbred')
+    expect(result.breedId).toBeUndefined()
+    expect(result.composition).toEqual([
+      { breedName: 'Holstein Friesian', breedId: 'holstein-friesian', percentage: 70 },
+      { breedName: 'Gir', breedId: 'gir', percentage: 30 },
+    ])
+    expect(report.repairs.map(repair => repair.path)).toEqual(expect.arrayContaining([
+      '[0].breeds[0].species',
+      '[0].breeds[0].composition',
+    ]))
+  })
+
+  it('infers the non-descript category from the breed name', () => {
+    const { images } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ species: 'Desi cow', composition: [{ breedName: 'Gir', percentage: 50 }] })] },
+    ])
+
+    const [result] = images[0].breeds
+    expect(result).toMatchObject({ species: 'Non-descript', breedType: 'nondescript' })
+    expect(result.composition).toBeUndefined()
+  })
+
+  it('normalizes breed names against the registry', () => {
+    const { images } = validateAnalysisResponse([
+      { image_index: 0, breeds: [modelBreed({ species: 'Wadhiyar', metadata: { alternativePossibleBreeds: ['Nili Ravi'] } })] },
+    ])
+
+    const [result] = images[0].breeds
+    expect(result.species).toBe('Kankrej')
+    expect(result.breedId).toBe('kankrej')
+    expect(result.metadata.alternativePossibleBreeds).toEqual(['Nili-Ravi'])
+  })
+})
+
+describe('structured output schema', () => {
+  const breedSchema = BREED_ANALYSIS_RESPONSE_SCHEMA.items.properties.breeds.items
+
+  it('constrains species to the supported breed lists', () => {
+    const species = breedSchema.properties.species
+    expect(species.enum).toContain('Gir')
+    expect(species.enum).toContain('Murrah')
+    expect(species.enum.filter(name => name === 'Toda')).toHaveLength(1)
+    expect(species.enum).toEqual(expect.arrayContaining(['Crossbred', 'Non-descript']))
+  })
+
+  it('marks the fields the app relies on as required', () => {
+    expect(breedSchema.required).toEqual(expect.arrayContaining([
+      'species', 'confidence', 'description', 'breedCharacteristics', 'habitat', 'conservation', 'isIndianBreed',
+    ]))
+    expect(breedSchema.required).not.toContain('metadata')
+    expect(breedSchema.properties.confidence).toMatchObject({ type: 'INTEGER', minimum: 0, maximum: 100 })
+    expect(BREED_ANALYSIS_RESPONSE_SCHEMA.items.required).toEqual(['image_index', 'breeds'])
+  })
+})
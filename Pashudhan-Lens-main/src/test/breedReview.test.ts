@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  breedReviewFormSchema,
+  createBreedReview,
+  getAlternativeBreeds,
+  getReviewQueue,
+  requiresReview
+} from '@/lib/breedReview'
+import { breed, historyRecord, result } from '@/test/fixtures'
+
+const reviewer = { id: 'user_1', name: 'Dr. Meena' }
+
+describe('breed review', () => {
+  it('flags results below the threshold', () => {
+    expect(requiresReview(result({ breeds: [breed('Gir', 72)] }), 85)).toBe(true)
+    expect(requiresReview(result({ breeds: [breed('Gir', 72), breed('Sahiwal', 90)] }), 85)).toBe(false)
+    expect(requiresReview(result({ breeds: [] }), 85)).toBe(false)
+  })
+
+  it('lists other candidates before stated alternatives', () => {
+    const gir = breed('Gir', 80, { metadata: { alternativePossibleBreeds: ['Kankrej', 'Sahiwal'] } })
+    expect(getAlternativeBreeds(result({ breeds: [gir, breed('Sahiwal', 40)] }))).toEqual(['Sahiwal', 'Kankrej'])
+  })
+
+  it('queues flagged, unreviewed records oldest first', () => {
+    const review = createBreedReview({ decision: 'accepted', comment: '' }, result({ breeds: [breed('Gir', 70)] }), reviewer)
+
+    const queue = getReviewQueue([
+      historyRecord({ id: 'new', createdAt: '2025-02-02T00:00:00Z', needsReview: true }),
+      historyRecord({ id: 'old', createdAt: '2025-01-01T00:00:00Z', needsReview: true }),
+      historyRecord({ id: 'done', createdAt: '2025-01-05T00:00:00Z', needsReview: true, review }),
+      historyRecord({ id: 'confident', createdAt: '2025-01-03T00:00:00Z', needsReview: false })
+    ])
+    expect(queue.map(item => item.id)).toEqual(['old', 'new'])
+  })
+
+  it('requires a breed for alternatives and a comment when overruling the AI', () => {
+    expect(breedReviewFormSchema.safeParse({ decision: 'accepted', comment: '' }).success).toBe(true)
+    expect(breedReviewFormSchema.safeParse({ decision: 'alternative', breedName: '', comment: 'Dewlap' }).success).toBe(false)
+    expect(breedReviewFormSchema.safeParse({ decision: 'crossbred', comment: '  ' }).success).toBe(false)
+  })
+
+  it('records the final breed with the reviewer', () => {
+    const aiResult = result({ breeds: [breed('Gir cattle', 70)] })
+    const at = new Date('2025-03-01T10:00:00Z')
+
+    expect(createBreedReview({ decision: 'accepted', comment: '' }, aiResult, reviewer, at)).toMatchObject({
+      breedName: 'Gir',
+      breedId: 'gir',
+      reviewer,
+      reviewedAt: '2025-03-01T10:00:00.000Z'
+    })
+    expect(createBreedReview({ decision: 'alternative', breedName: 'kankrej', comment: 'Lyre horns' }, aiResult, reviewer))
+      .toMatchObject({ breedName: 'Kankrej', breedId: 'kankrej' })
+    expect(createBreedReview({ decision: 'nondescript', breedName: 'Gir', comment: 'Mixed' }, aiResult, reviewer).breedName)
+      .toBeUndefined()
+  })
+})
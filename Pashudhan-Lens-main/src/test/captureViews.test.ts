@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { CAPTURE_VIEWS, getMissingRequiredViews, sortCapturedViews } from '@/lib/captureViews'
+
+describe('capture views', () => {
+  it('asks for the side profile first', () => {
+    expect(CAPTURE_VIEWS.map(view => view.id)).toEqual(['side', 'front', 'rear', 'head'])
+  })
+
+  it('lists required views that are still missing', () => {
+    expect(getMissingRequiredViews([]).map(view => view.id)).toEqual(['side', 'head'])
+    expect(getMissingRequiredViews(['head', 'rear']).map(view => view.id)).toEqual(['side'])
+    expect(getMissingRequiredViews(['side', 'head'])).toEqual([])
+  })
+
+  it('puts captured views back in capture order', () => {
+    const views = sortCapturedViews([{ view: 'head' as const }, { view: 'side' as const }, { view: 'rear' as const }])
+    expect(views.map(({ view }) => view)).toEqual(['side', 'rear', 'head'])
+  })
+})
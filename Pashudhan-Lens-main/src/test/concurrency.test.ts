@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { mapWithConcurrency } from '@/lib/concurrency'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps input order', async () => {
+    let running = 0
+    let peak = 0
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (value, index) => {
+      running++
+      peak = Math.max(peak, running)
+      for (let i = 0; i < value; i++) await tick()
+      running--
+      return `${index}:${value}`
+    })
+
+    expect(peak).toBe(2)
+    expect(results).toEqual(['0:5', '1:1', '2:4', '3:2', '4:3'])
+  })
+
+  it('starts the next item as soon as a slot frees up', async () => {
+    const events: string[] = []
+    await mapWithConcurrency([3, 1, 1], 2, async (value, index) => {
+      events.push(`start ${index}`)
+      for (let i = 0; i < value; i++) await tick()
+      events.push(`end ${index}`)
+    })
+
+    expect(events.indexOf('start 2')).toBeLessThan(events.indexOf('end 0'))
+  })
+
+  it('handles empty input and limits larger than the list', async () => {
+    expect(await mapWithConcurrency([], 3, async value => value)).toEqual([])
+    expect(await mapWithConcurrency([1, 2], 10, async value => value * 2)).toEqual([2, 4])
+  })
+})
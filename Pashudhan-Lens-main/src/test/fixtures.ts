@@ -0,0 +1,102 @@
+// Complete domain objects for tests; each test overrides only the fields it is about
+import { BpaExportSource } from '@/lib/bpaExport'
+import { AnalysisHistoryRecord } from '@/types/analysisHistory'
+import {
+  BatchBreedAnalysisResult,
+  MultiImageBreedResult,
+  StandardizedBreedIdentification
+} from '@/types/breedIdentification'
+import { BreedReview } from '@/types/breedReview'
+
+export const breed = (
+  species: string,
+  confidence: number,
+  overrides: Partial<StandardizedBreedIdentification> = {}
+): StandardizedBreedIdentification => ({
+  species,
+  confidence,
+  description: '',
+  breedCharacteristics: { bodyStructure: '', colorPattern: '', overallConformation: '' },
+  habitat: '',
+  conservation: '',
+  isIndianBreed: true,
+  ...overrides
+})
+
+// One breed entry as the model returns it, before validation; overrides may be any JSON value
+export const modelBreed = (overrides: Record<string, unknown> = {}) => ({
+  species: 'Gir',
+  confidence: 88,
+  description: 'Adult cow with domed forehead and long pendulous ears',
+  breedCharacteristics: {
+    bodyStructure: 'Medium frame',
+    colorPattern: 'Red with white patches',
+    overallConformation: 'Well balanced',
+  },
+  habitat: 'Gujarat',
+  conservation: 'Indigenous',
+  isIndianBreed: true,
+  ...overrides,
+})
+
+export const result = (overrides: Partial<MultiImageBreedResult> = {}): MultiImageBreedResult => ({
+  imageIndex: 0,
+  fileName: 'gir_01.jpg',
+  breeds: [breed('Gir', 90)],
+  ...overrides
+})
+
+export const batchResult = (results: MultiImageBreedResult[]): BatchBreedAnalysisResult => ({
+  success: results.some(item => !item.error && item.breeds.length > 0),
+  results,
+  summary: {
+    totalImages: results.length,
+    successfulAnalyses: 0,
+    failedAnalyses: 0,
+    totalBreedsIdentified: 0,
+    processingTime: 0,
+    averageConfidence: 0,
+    mostCommonBreeds: []
+  },
+  analysisMetadata: {
+    timestamp: '2025-01-10T08:00:00.000Z',
+    analysisType: 'multi-image',
+    batchSize: results.length,
+    promptVersion: '3'
+  }
+})
+
+export const review = (overrides: Partial<BreedReview> = {}): BreedReview => ({
+  decision: 'accepted',
+  comment: '',
+  reviewer: { id: 'user_1', name: 'Dr. Meena' },
+  reviewedAt: '2025-01-12T09:00:00.000Z',
+  ...overrides
+})
+
+export const historyRecord = (overrides: Partial<AnalysisHistoryRecord> = {}): AnalysisHistoryRecord => ({
+  id: 'record-1',
+  createdAt: '2025-01-10T08:00:00.000Z',
+  fileName: 'gir_01.jpg',
+  thumbnail: '',
+  result: result(),
+  breedNames: ['Gir'],
+  model: 'gemini-2.0-flash',
+  promptVersion: '3',
+  processingTime: 1000,
+  ...overrides
+})
+
+export const exportSource = (
+  fileName: string,
+  breeds: StandardizedBreedIdentification[],
+  overrides: Partial<BpaExportSource> = {}
+): BpaExportSource => ({
+  result: result({ fileName, breeds }),
+  fileName,
+  imageSha256: 'abc123',
+  analyzedAt: '2025-01-10T08:00:00.000Z',
+  model: 'gemini-2.0-flash',
+  promptVersion: '3',
+  ...overrides
+})
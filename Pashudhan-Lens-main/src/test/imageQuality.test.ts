@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { assessImageQuality, computeImageQualityScores, formatImageQualityNotes } from '@/lib/imageQuality'
+
+// RGBA pixels from a per-pixel colour function
+const image = (width: number, height: number, color: (x: number, y: number) => [number, number, number]) => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = color(x, y)
+      data.set([r, g, b, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+// Mid-grey texture with plenty of fine detail
+const textured = (x: number, y: number): [number, number, number] => {
+  const value = (x + y) % 2 ? 80 : 180
+  return [value, value, value]
+}
+
+const codes = (scores: ReturnType<typeof computeImageQualityScores>) =>
+  assessImageQuality(scores).issues.map(found => `${found.code}:${found.severity}`)
+
+describe('image quality', () => {
+  it('passes a sharp, well-exposed photo', () => {
+    const scores = computeImageQualityScores(image(64, 48, textured), { width: 1600, height: 1200 })
+    expect(scores.brightness).toBe(130)
+    expect(scores.aspectRatio).toBeCloseTo(1.33, 2)
+    expect(assessImageQuality(scores)).toMatchObject({ issues: [], blocked: false })
+  })
+
+  it('blocks a featureless, blurred image', () => {
+    const scores = computeImageQualityScores(image(64, 48, () => [120, 120, 120]), { width: 1600, height: 1200 })
+    expect(scores.sharpness).toBe(0)
+    expect(codes(scores)).toEqual(['motion-blur:blocking'])
+  })
+
+  it('flags dark and blown-out exposure', () => {
+    const dark = computeImageQualityScores(image(64, 48, (x, y) => textured(x, y).map(v => v / 4) as [number, number, number]), { width: 1600, height: 1200 })
+    expect(codes(dark)).toContain('too-dark:warning')
+
+    const white = computeImageQualityScores(image(64, 48, (x, y) => ((x + y) % 2 ? [255, 255, 255] : [200, 200, 200])), { width: 1600, height: 1200 })
+    expect(codes(white)).toContain('overexposed:warning')
+  })
+
+  it('flags clipped colour', () => {
+    const scores = computeImageQualityScores(image(64, 48, (x, y) => ((x + y) % 2 ? [255, 20, 20] : [120, 120, 120])), { width: 1600, height: 1200 })
+    expect(scores.oversaturated).toBeCloseTo(0.5, 1)
+    expect(codes(scores)).toContain('oversaturated:warning')
+  })
+
+  it('judges resolution and shape from the original size', () => {
+    expect(codes(computeImageQualityScores(image(64, 48, textured), { width: 400, height: 300 })))
+      .toEqual(['subject-too-small:warning'])
+    expect(codes(computeImageQualityScores(image(64, 48, textured), { width: 200, height: 150 })))
+      .toEqual(['subject-too-small:blocking'])
+    expect(codes(computeImageQualityScores(image(64, 16, textured), { width: 3000, height: 700 })))
+      .toEqual(['aspect-ratio:blocking'])
+  })
+
+  it('writes the scores and guidance into the notes', () => {
+    const report = assessImageQuality(computeImageQualityScores(image(64, 48, textured), { width: 400, height: 300 }))
+    const notes = formatImageQualityNotes(report)
+    expect(notes).toMatch(/^Local check: sharpness \d+, brightness 130\/255/)
+    expect(notes).toContain('400x300px')
+    expect(notes).toContain('Subject too small')
+  })
+})
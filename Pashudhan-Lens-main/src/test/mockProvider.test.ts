@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { createMockProvider } from '@/services/providers'
+
+const image = (fileName: string, base64 = 'aGVsbG8=') => ({ base64, mimeType: 'image/jpeg', fileName })
+
+describe('mock breed identification provider', () => {
+  it('selects fixtures by file name keyword', async () => {
+    const provider = createMockProvider()
+    const { text } = await provider.generateContent({
+      prompt: 'ignored',
+      images: [image('murrah_001.jpg')],
+    })
+
+    const [result] = JSON.parse(text)
+    expect(result.breeds[0].species).toBe('Murrah')
+  })
+
+  it('returns the same fixture for the same image data', async () => {
+    const provider = createMockProvider()
+    const request = {
+      prompt: 'ignored',
+      images: [image('IMG_2041.jpg', 'c29tZSBpbWFnZSBieXRlcw==')],
+    }
+
+    const first = await provider.generateContent(request)
+    const second = await provider.generateContent(request)
+    expect(first.text).toBe(second.text)
+  })
+
+  it('answers with one entry per image and reports error codes', async () => {
+    const provider = createMockProvider()
+    const { text } = await provider.generateContent({
+      prompt: 'ignored',
+      images: [image('gir.jpg'), image('not-cattle.jpg')],
+    })
+
+    const results = JSON.parse(text)
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ image_index: 0, fileName: 'gir.jpg' })
+    expect(results[0].breeds[0].species).toBe('Gir')
+    expect(results[1].breeds).toEqual([])
+    expect(results[1].error).toBe('NOT_CATTLE_BUFFALO')
+  })
+})
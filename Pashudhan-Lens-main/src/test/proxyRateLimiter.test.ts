@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { createRateLimiter } from '../../server/rateLimiter'
+
+describe('proxy rate limiter', () => {
+  it('allows up to the limit per user within the window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 })
+
+    expect(limiter.check('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 })
+    expect(limiter.check('a', 100).remaining).toBe(0)
+    expect(limiter.check('a', 200)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 800 })
+    expect(limiter.check('b', 200).allowed).toBe(true)
+  })
+
+  it('frees a slot once the oldest request leaves the window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 })
+    limiter.check('a', 0)
+    limiter.check('a', 500)
+
+    expect(limiter.check('a', 999).allowed).toBe(false)
+    expect(limiter.check('a', 1000).allowed).toBe(true)
+    expect(limiter.check('a', 1200)).toMatchObject({ allowed: false, retryAfterMs: 300 })
+  })
+
+  it('forgets users whose requests have all left the window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 })
+    limiter.check('a', 0)
+    limiter.check('b', 500)
+    expect(limiter.size()).toBe(2)
+
+    limiter.check('c', 1200)
+    expect(limiter.size()).toBe(2)
+
+    limiter.check('c', 2600)
+    expect(limiter.size()).toBe(1)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getRetryDelay, isAbortError, isRetryableStatus, parseRetryAfter } from '@/lib/retry'
+import { BreedProviderError, fetchWithRetry } from '@/services/providers'
+
+const noDelay = { baseDelayMs: 0, maxDelayMs: 1000 }
+
+describe('retry policy', () => {
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+    expect(parseRetryAfter('3', now)).toBe(3000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000)
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+
+  it('retries gateway and rate limit failures but not a misconfigured proxy', () => {
+    expect([408, 429, 502, 503, 504].every(isRetryableStatus)).toBe(true)
+    expect(isRetryableStatus(500)).toBe(false)
+    expect(isRetryableStatus(401)).toBe(false)
+  })
+
+  it('backs off exponentially within the jitter band and honours Retry-After', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 }
+    expect(getRetryDelay(0, options, undefined, () => 0)).toBe(500)
+    expect(getRetryDelay(2, options, undefined, () => 1)).toBe(4000)
+    expect(getRetryDelay(5, options, undefined, () => 1)).toBe(5000)
+    expect(getRetryDelay(0, options, 2500)).toBe(2500)
+  })
+})
+
+describe('fetchWithRetry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('retries retryable statuses until one succeeds', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchWithRetry('/api', {}, noDelay)
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns client errors and exhausted retries without further attempts', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('', { status: 429 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect((await fetchWithRetry('/api', {}, { ...noDelay, maxAttempts: 3 })).status).toBe(429)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    fetchMock.mockClear()
+    fetchMock.mockImplementation(async () => new Response('', { status: 400 }))
+    expect((await fetchWithRetry('/api', {}, noDelay)).status).toBe(400)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up when Retry-After is longer than the maximum delay', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '60' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect((await fetchWithRetry('/api', {}, noDelay)).status).toBe(429)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops with an AbortError when the caller cancels while waiting to retry', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('', { status: 503 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const error = await fetchWithRetry('/api', { signal: controller.signal }, { baseDelayMs: 10_000, maxDelayMs: 10_000 }).catch(e => e)
+    expect(isAbortError(error)).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps cancel and the timeout in force while the body downloads', async () => {
+    // Headers arrive at once; the body stalls until the request is aborted, as a real fetch's would
+    const stalledBody = vi.fn(async (_input: string, init: RequestInit) => new Response(new ReadableStream({
+      start(body) {
+        init.signal.addEventListener('abort', () => body.error(init.signal.reason))
+      }
+    }), { status: 200 }))
+    vi.stubGlobal('fetch', stalledBody)
+
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+    const cancelled = await fetchWithRetry('/api', { signal: controller.signal }, noDelay).catch(e => e)
+    expect(isAbortError(cancelled)).toBe(true)
+
+    const timedOut = await fetchWithRetry('/api', {}, { ...noDelay, maxAttempts: 1, timeoutMs: 10 }).catch(e => e)
+    expect(timedOut).toBeInstanceOf(BreedProviderError)
+    expect(timedOut.status).toBe(408)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { hasPermission, parseUserRole, ROUTE_PERMISSIONS } from '@/lib/roles'
+import { getDashboardStats } from '@/lib/dashboardStats'
+import { breed, historyRecord, result, review } from '@/test/fixtures'
+
+describe('roles', () => {
+  it('reads the role from Clerk public metadata', () => {
+    expect(parseUserRole({ role: 'vet-reviewer' })).toBe('vet-reviewer')
+    expect(parseUserRole({ role: ' District Admin ' })).toBe('district-admin')
+    expect(parseUserRole({ role: 'field_worker' })).toBe('field-worker')
+  })
+
+  it('falls back to field worker for missing or unknown roles', () => {
+    expect(parseUserRole(undefined)).toBe('field-worker')
+    expect(parseUserRole({})).toBe('field-worker')
+    expect(parseUserRole({ role: 'superuser' })).toBe('field-worker')
+    expect(parseUserRole({ role: 'constructor' })).toBe('field-worker')
+  })
+
+  it('grants each role only its own permissions', () => {
+    expect(hasPermission('field-worker', 'capture')).toBe(true)
+    expect(hasPermission('field-worker', 'review')).toBe(false)
+    expect(hasPermission('vet-reviewer', 'review')).toBe(true)
+    expect(hasPermission('vet-reviewer', 'export')).toBe(false)
+    expect(hasPermission('district-admin', 'dashboard')).toBe(true)
+    expect(hasPermission(undefined, 'capture')).toBe(false)
+  })
+
+  it('opens History to every role and Results only to capturing roles', () => {
+    expect(hasPermission('field-worker', ROUTE_PERMISSIONS.history)).toBe(true)
+    expect(hasPermission('vet-reviewer', ROUTE_PERMISSIONS.history)).toBe(true)
+    expect(hasPermission('field-worker', ROUTE_PERMISSIONS.results)).toBe(true)
+    expect(hasPermission('vet-reviewer', ROUTE_PERMISSIONS.results)).toBe(false)
+    expect(hasPermission(undefined, ROUTE_PERMISSIONS.history)).toBe(false)
+  })
+})
+
+describe('dashboard stats', () => {
+  it('counts breeds with reviewer decisions applied', () => {
+    const stats = getDashboardStats([
+      historyRecord({ id: 'a', result: result({ breeds: [breed('Gir', 90)] }) }),
+      historyRecord({ id: 'b', result: result({ breeds: [breed('Gir', 70)] }), needsReview: true }),
+      historyRecord({
+        id: 'c',
+        result: result({ breeds: [breed('Sahiwal', 60)] }),
+        needsReview: true,
+        review: review({ decision: 'crossbred', comment: 'HF cross' })
+      }),
+      historyRecord({ id: 'd', result: result({ breeds: [] }) })
+    ])
+
+    expect(stats).toMatchObject({ totalAnalyses: 4, awaitingReview: 1, reviewed: 1, averageConfidence: 73 })
+    expect(stats.breedCounts).toEqual([{ breedName: 'Gir', count: 2 }, { breedName: 'Crossbred', count: 1 }])
+    expect(stats.reviewDecisions.crossbred).toBe(1)
+  })
+})
@@ -0,0 +1,20 @@
+// Results reused when the same photo is analyzed again with the same model and prompt
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+
+export type CachedImageResult = Omit<MultiImageBreedResult, 'imageIndex' | 'fileName' | 'cached'>;
+
+export interface AnalysisCacheEntry {
+  key: string; // contentHash:model:promptVersion
+  contentHash: string; // SHA-256 of the compressed image sent to the model; file names and metadata don't change it
+  model: string;
+  promptVersion: string;
+  result: CachedImageResult;
+  createdAt: string; // ISO timestamp
+  expiresAt: number; // Epoch milliseconds; expired entries are treated as misses and deleted
+}
+
+export interface AnalysisCacheStats {
+  hits: number;
+  misses: number;
+  since: string; // ISO timestamp of the last reset
+}
@@ -0,0 +1,25 @@
+// Locally persisted analyses, one record per analyzed image
+import { MultiImageBreedResult } from '@/types/breedIdentification';
+import { BreedReview } from '@/types/breedReview';
+
+export interface FusedHistorySource {
+  fileName: string;
+  imageSha256: string;
+}
+
+export interface AnalysisHistoryRecord {
+  id: string;
+  createdAt: string; // ISO timestamp of when the analysis finished
+  capturedAt?: string; // Set for images queued offline, which are analyzed later
+  fileName: string;
+  imageSha256?: string; // Hex digest of the original image; missing on records saved before BPA export
+  thumbnail: string; // Small JPEG data URL - object URLs don't survive a reload
+  result: MultiImageBreedResult; // Full standardized result including validation report
+  breedNames: string[]; // Official and local names of every identified breed, used for search
+  model: string;
+  promptVersion: string;
+  processingTime: number; // Milliseconds for the request this image was part of
+  needsReview?: boolean; // Top breed was below the review threshold when the analysis was saved
+  review?: BreedReview; // Set once a reviewer has decided on a flagged result
+  fusedFrom?: FusedHistorySource[]; // Photos merged with "Same animal"; imageSha256 is then the first photo's
+}
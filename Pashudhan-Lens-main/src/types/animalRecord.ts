@@ -0,0 +1,37 @@
+// Registered animals, linked to their ear tag for BPA (Bharat Pashudhan App) registration
+
+export type AnimalSex = 'male' | 'female';
+
+export type AnimalAgeClass = 'calf' | 'young' | 'adult';
+
+export type AnimalSizeClass = 'small' | 'medium' | 'large';
+
+// Fields the AI can suggest; each must be confirmed or overridden before saving
+export interface AnimalAiSuggestions {
+  breedName?: string;
+  ageClass?: AnimalAgeClass;
+  sizeClass?: AnimalSizeClass;
+}
+
+export interface AnimalPhoto {
+  thumbnail: string; // JPEG data URL
+  fileName: string;
+  historyRecordId?: string; // Analysis the photo came from, when it was saved to history
+}
+
+export interface AnimalRecord {
+  id: string;
+  earTagId: string; // 12-digit INAPH/UID ear tag
+  ownerName: string;
+  village: string;
+  sex: AnimalSex;
+  dateOfBirth?: string; // ISO date, when known
+  ageClass?: AnimalAgeClass; // Estimate used when the date of birth is unknown
+  breedId?: string; // Registry ID; unset for breeds outside the registry
+  breedName: string;
+  sizeClass?: AnimalSizeClass;
+  photos: AnimalPhoto[];
+  aiSuggestions: AnimalAiSuggestions; // What the AI proposed, kept so overrides stay auditable
+  createdAt: string;
+  updatedAt: string;
+}
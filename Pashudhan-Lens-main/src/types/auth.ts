@@ -0,0 +1,30 @@
+// Roles are read from Clerk public metadata ({ "role": "vet-reviewer" }) or set by the mock auth mode
+
+export type AuthMode = 'clerk' | 'mock';
+
+export type UserRole = 'field-worker' | 'vet-reviewer' | 'district-admin';
+
+// capture: analyze and register animals
+// history: browse saved analyses
+// review: decide on flagged low-confidence results
+// dashboard / export: aggregate statistics and BPA exports
+export type Permission = 'capture' | 'history' | 'review' | 'dashboard' | 'export';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+}
+
+export interface AuthContextType {
+  mode: AuthMode;
+  isLoaded: boolean;
+  isSignedIn: boolean;
+  user: AuthUser | null;
+  can: (permission: Permission) => boolean;
+  signIn: () => void; // Mock mode only; Clerk opens its own sign-in UI
+  redirectToSignIn: (returnTo: string) => void; // Clerk's sign-in page; mock mode has none
+  signOut: () => Promise<void>;
+  setMockRole: (role: UserRole) => void; // Mock mode only
+}
@@ -0,0 +1,55 @@
+// Large batch jobs: hundreds of photos from a folder or ZIP archive, analyzed in the background
+
+export type BatchJobSource = 'folder' | 'zip' | 'files';
+
+// "running" is only true while this tab is working on the job; a reload leaves it paused
+export type BatchJobStatus = 'running' | 'paused' | 'completed';
+
+// complete: breeds identified and saved to History
+// unidentified: no breed identified, e.g. not cattle or too blurry; the item's error says why
+// error: the request failed on every attempt
+export type BatchJobItemStatus = 'pending' | 'complete' | 'unidentified' | 'error';
+
+export interface BatchJob {
+  id: string;
+  name: string; // Folder or archive name
+  source: BatchJobSource;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  status: BatchJobStatus;
+  total: number;
+  lastError?: string; // Why the job paused itself, e.g. lost connection
+  waitingUntil?: string; // ISO timestamp; set while a running job waits for the proxy's rate limit
+}
+
+export interface BatchJobItem {
+  id: string;
+  jobId: string;
+  position: number; // Order within the job
+  fileName: string; // Path inside the folder or archive
+  file?: File; // Dropped once the item is finished, so finished jobs don't hold the images
+  status: BatchJobItemStatus;
+  attempts: number; // Runs whose request failed before the model answered
+  error?: string;
+  topBreed?: string;
+  confidence?: number;
+}
+
+export interface BatchJobProgress {
+  total: number;
+  pending: number;
+  complete: number;
+  unidentified: number;
+  error: number;
+}
+
+// Mirrors the breed proxy's PROXY_RATE_LIMIT and PROXY_RATE_WINDOW_MS
+export interface BatchJobRateLimit {
+  limit: number; // Requests per window
+  windowMs: number;
+}
+
+export interface BatchJobSnapshot {
+  job: BatchJob;
+  progress: BatchJobProgress;
+}
@@ -0,0 +1,50 @@
+// BPA (Bharat Pashudhan App) bulk registration payload - see README "BPA Export" for the column reference
+import { BreedCompositionShare, BreedType } from '@/types/breedIdentification';
+import { BreedSpecies } from '@/types/breedRegistry';
+import { BreedReviewDecision } from '@/types/breedReview';
+
+// auto-verified: top breed at or above the review threshold
+// needs-review: identified below that threshold and not reviewed yet
+// reviewer-verified: a reviewer accepted the AI breed or picked another one
+// crossbred / nondescript: a reviewer found no single recognized breed; AI-identified crosses keep
+// their confidence-based status and are told apart by the breed type column
+// unidentified: no breed could be identified in the image
+export type BpaVerificationStatus =
+  | 'auto-verified'
+  | 'needs-review'
+  | 'reviewer-verified'
+  | 'crossbred'
+  | 'nondescript'
+  | 'unidentified';
+
+// One row per animal (analyzed image); the reviewer's breed wins, otherwise the highest-confidence one
+export interface BpaExportRow {
+  recordNumber: number; // 1-based position in the export
+  imageFileName: string;
+  imageSha256: string; // Hex digest of the original image, empty when the image is no longer available
+  species: BreedSpecies | '';
+  breedId: string; // Registry ID, empty for breeds outside the registry
+  breedName: string;
+  breedType: BreedType | ''; // The reviewer's call when reviewed, empty when unidentified
+  breedComposition: BreedCompositionShare[]; // Crossbred rows only; written as "Gir 25%; ..." in CSV
+  confidence: number; // 0-100, the AI's confidence in its top breed
+  verificationStatus: BpaVerificationStatus;
+  alternativeBreeds: string[];
+  analyzedAt: string; // ISO timestamp
+  model: string;
+  promptVersion: string;
+  reviewDecision: BreedReviewDecision | '';
+  reviewerName: string;
+  reviewComment: string;
+  reviewedAt: string; // ISO timestamp, empty when not reviewed
+}
+
+export interface BpaExportPayload {
+  format: string;
+  version: number; // Bumped whenever a column is added, removed or changes meaning
+  generatedAt: string;
+  rowCount: number;
+  rows: BpaExportRow[];
+}
+
+export type BpaExportFileType = 'csv' | 'json';
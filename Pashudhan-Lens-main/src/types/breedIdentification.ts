@@ -1,11 +1,27 @@
 // Standardized breed identification types for both single and multi-image analysis
 // Supporting the Bharat Pashudhan App (BPA) integration
+import { getBreedsBySpecies } from '@/lib/breedRegistry';
+import { CaptureViewId } from '@/types/guidedCapture';
+
+// purebred: one registry breed, including Indian-developed crossbreds such as Karan Fries
+// crossbred: an ungraded cross of identifiable breeds, e.g. HF x Gir
+// nondescript: no recognizable breed ancestry
+export type BreedType = 'purebred' | 'crossbred' | 'nondescript';
+
+export interface BreedCompositionShare {
+  breedName: string; // Registry name when the breed resolves, otherwise as reported
+  breedId?: string;
+  percentage: number; // Approximate share of ancestry, 0-100; the shares of one animal sum to 100
+}
 
 export interface StandardizedBreedIdentification {
   // Core breed information
-  species: string; // Official breed name
+  species: string; // Official breed name, or "Crossbred" / "Non-descript" for animals without one
+  breedId?: string; // Breed registry ID, set when the name resolves to a registry record
   commonName?: string; // Local/regional name
   confidence: number; // Confidence score (0-100)
+  breedType?: BreedType; // Absent on results saved before crossbred support; read as purebred
+  composition?: BreedCompositionShare[]; // Crossbred animals only, largest share first
   
   // Detailed breed characteristics
   description: string; // Detailed description of identifying features
@@ -24,7 +40,7 @@ export interface StandardizedBreedIdentification {
   conservation: string; // Conservation status (Indigenous, Crossbred, Rare, etc.)
   
   // BPA-specific metadata
-  isIndianBreed: true; // Always true for our system
+  isIndianBreed: boolean; // False for purebred exotic breeds such as Holstein Friesian
   bpaRegistrationNotes?: string; // Additional notes for BPA registration
   
   // Additional metadata for future extensibility
@@ -44,15 +60,34 @@ export interface StandardizedBreedIdentification {
   message?: string;
 }
 
+// One entry of the ranked top-k list
+export interface RankedBreedCandidate {
+  species: string;
+  breedId?: string;
+  confidence: number; // The model's own 0-100 score
+  probability: number; // 0-1; candidate probabilities plus otherProbability sum to 1
+}
+
+export interface BreedRanking {
+  candidates: RankedBreedCandidate[]; // Most likely first
+  otherProbability: number; // Left for breeds the model didn't list
+  margin: number; // Probability gap between the first and second candidate
+  uncertain: boolean; // The top two candidates are too close to call
+}
+
 // Single image result
 export interface SingleImageBreedResult {
   success: boolean;
   breeds: StandardizedBreedIdentification[];
+  ranking?: BreedRanking; // Absent on failures
+  validation?: BreedValidationReport;
   analysisMetadata: {
     imageSize: string;
     processingTime: number;
     timestamp: string;
     analysisType: "single-image";
+    model?: string; // Provider model, unknown when the request never reached it
+    promptVersion: string;
   };
   error?: string;
 }
@@ -62,7 +97,15 @@ export interface MultiImageBreedResult {
   imageIndex: number;
   fileName: string;
   breeds: StandardizedBreedIdentification[];
+  ranking?: BreedRanking; // Absent on failures and on history saved before rankings existed
   error?: string;
+  validation?: BreedValidationReport;
+  views?: CaptureViewId[]; // Set when guided capture views of one animal were analyzed together
+  cached?: boolean; // Reused from an earlier analysis of the same photo instead of a new model call
+  processingTime?: number; // Milliseconds for this image's own request; absent when several images shared one
+  requestFailed?: boolean; // The request failed before the model answered, e.g. a network error; worth retrying
+  rateLimited?: boolean; // The request failed with 429, which says nothing about the image itself
+  retryAfterMs?: number; // How long the service asked us to wait before the next request
 }
 
 // Batch analysis result for multiple images
@@ -80,31 +123,76 @@ export interface BatchBreedAnalysisResult {
   };
   analysisMetadata: {
     timestamp: string;
-    analysisType: "multi-image";
+    analysisType: "multi-image" | "multi-view";
     batchSize: number;
+    model?: string; // Provider model, unknown when the request never reached it
+    promptVersion: string;
   };
   error?: string;
+  cancelled?: boolean; // Stopped by the user; the images were not analyzed
 }
 
-// Comprehensive Indian breed list for validation and prompts
-export const INDIAN_CATTLE_BREEDS = [
-  // Indigenous cattle breeds
-  "Gir", "Sahiwal", "Red Sindhi", "Tharparkar", "Kankrej", "Ongole", "Krishna Valley",
-  "Hariana", "Amritmahal", "Hallikar", "Kangayam", "Pulikulam", "Vechur", "Punganur",
-  "Kasargod", "Bargur", "Malnad Gidda", "Bachaur", "Gangatiri", "Siri", "Kherigarh",
-  "Mewati", "Nimari", "Dangi", "Deoni", "Khillar", "Gaolao", "Lakhimi", "Bhagnari",
-  "Rathi", "Nagori", "Alambadi", "Banni", "Bhadawari", "Toda", "Umblachery",
-  
-  // Crossbred and improved breeds commonly found in India
-  "Holstein Friesian", "Jersey", "Brown Swiss", "Ayrshire", "Red Dane", "Guernsey"
-] as const;
+// Several images of one animal, analyzed separately and merged into a single verdict
+export interface FusedBreedCandidate {
+  species: string; // Registry name when the breed resolves
+  breedId?: string;
+  confidence: number; // Mean over usable views, counting views that didn't report the breed as 0
+  viewConfidences: { imageIndex: number; confidence: number }[]; // Views that reported this breed
+}
+
+export interface FusedTraitSource {
+  trait: keyof StandardizedBreedIdentification['breedCharacteristics'];
+  value: string;
+  imageIndex: number; // View the trait was taken from
+  fileName: string;
+}
+
+export interface FusedBreedAnalysisResult {
+  success: boolean;
+  breed?: StandardizedBreedIdentification; // Consolidated identification for the winning candidate
+  candidates: FusedBreedCandidate[]; // Highest fused confidence first
+  agreement: 'unanimous' | 'majority' | 'split'; // How many views' top breed matches the winner
+  traitSources: FusedTraitSource[];
+  views: MultiImageBreedResult[]; // The per-view results that were merged
+  analysisMetadata: {
+    timestamp: string;
+    analysisType: "multi-view-fusion";
+    viewCount: number;
+    usableViewCount: number; // Views with at least one identified breed
+    model?: string;
+    promptVersion?: string;
+  };
+  error?: string;
+}
 
-export const INDIAN_BUFFALO_BREEDS = [
-  // Indigenous buffalo breeds
-  "Murrah", "Mehsana", "Surti", "Jaffarabadi", "Nili-Ravi", "Pandharpuri", "Nagpuri",
-  "Toda", "Banni", "Marathwadi", "Kalahandi", "Sambalpuri", "Chilika", "Dharwadi",
-  "Godavari", "Bhadawari"
-] as const;
+// Outcome of schema validation for one model response
+export interface BreedValidationIssue {
+  path: string; // e.g. "[0].breeds[1].confidence"
+  message: string;
+}
+
+export interface BreedValidationReport {
+  acceptedBreeds: number;
+  rejectedBreeds: number;
+  issues: BreedValidationIssue[]; // Fields that caused a breed to be rejected
+  repairs: BreedValidationIssue[]; // Model mistakes that were coerced into shape
+}
+
+// Upload queue entry shared by the upload page and the results views
+export interface UploadedImage {
+  id: string;
+  file: File;
+  url: string;
+  status: 'pending' | 'uploading' | 'analyzing' | 'complete' | 'error';
+  progress?: number;
+  results?: MultiImageBreedResult;
+  error?: string;
+}
+
+// Breed name lists derived from the canonical registry
+export const INDIAN_CATTLE_BREEDS: string[] = getBreedsBySpecies('cattle').map(breed => breed.name);
+
+export const INDIAN_BUFFALO_BREEDS: string[] = getBreedsBySpecies('buffalo').map(breed => breed.name);
 
 // Error types for standardized error handling
 export interface BreedIdentificationError {
@@ -131,21 +219,6 @@ export interface SpeciesIdentification extends Omit<StandardizedBreedIdentificat
   // Maintain compatibility with existing frontend
 }
 
-// Type guards for validation
-export function isValidBreedIdentification(obj: any): obj is StandardizedBreedIdentification {
-  return (
-    obj &&
-    typeof obj === 'object' &&
-    typeof obj.species === 'string' &&
-    typeof obj.confidence === 'number' &&
-    obj.confidence >= 0 &&
-    obj.confidence <= 100 &&
-    typeof obj.description === 'string' &&
-    typeof obj.habitat === 'string' &&
-    obj.isIndianBreed === true
-  );
-}
-
 // Utility function to convert legacy format to standardized format
 export function convertLegacyToStandardized(legacy: SpeciesIdentification): StandardizedBreedIdentification {
   return {
@@ -0,0 +1,39 @@
+// Canonical breed registry types shared by validation, the library and BPA export
+
+export type BreedSpecies = 'cattle' | 'buffalo';
+
+export type BreedOrigin = 'indigenous' | 'exotic' | 'crossbred';
+
+export type BreedUtility = 'dairy' | 'draught' | 'dual';
+
+export interface BreedRecord {
+  id: string; // Stable kebab-case identifier, never renamed once published
+  name: string; // Canonical display name used in prompts and results
+  species: BreedSpecies;
+  origin: BreedOrigin;
+  nativeStates: string[]; // Indian states of origin; regions outside India for breeds native elsewhere
+  synonyms: string[]; // Recognized alternative names and regional spellings
+  utility: BreedUtility;
+}
+
+// Risk categories as used in national livestock breed surveys
+export type BreedConservationStatus = 'not at risk' | 'vulnerable' | 'endangered' | 'critical' | 'not assessed';
+
+export interface BreedProfile {
+  breedId: string;
+  summary: string;
+  traits: {
+    body: string;
+    color: string;
+    horns: string;
+    hump: string;
+    ears: string;
+  };
+  production: {
+    milkYield?: string; // Typical yield per lactation
+    milkFat?: string;
+    draught?: string; // Draught or work capacity where relevant
+  };
+  conservationStatus: BreedConservationStatus;
+  conservationNotes?: string;
+}
@@ -0,0 +1,21 @@
+// Reviewer decisions on low-confidence identifications, stored alongside the AI result
+
+// accepted: the AI's top breed is correct
+// alternative: the reviewer picked a different breed
+// crossbred / nondescript: no single recognized breed applies
+export type BreedReviewDecision = 'accepted' | 'alternative' | 'crossbred' | 'nondescript';
+
+export interface BreedReviewer {
+  id: string; // Clerk user ID
+  name: string;
+  email?: string;
+}
+
+export interface BreedReview {
+  decision: BreedReviewDecision;
+  breedName?: string; // Final breed for accepted and alternative decisions
+  breedId?: string; // Registry ID of breedName, when it resolves
+  comment: string;
+  reviewer: BreedReviewer;
+  reviewedAt: string;
+}
@@ -0,0 +1,16 @@
+// Images captured while offline, waiting to be analyzed once the device reconnects
+
+export interface QueuedCapture {
+  id: string;
+  capturedAt: string; // ISO timestamp of when the image was queued
+  file: File; // IndexedDB stores the original file as-is
+  attempts: number; // Analysis runs that failed before reaching a result
+  lastError?: string;
+}
+
+export interface CaptureQueueRunResult {
+  analyzed: number; // Captures that produced breeds and were saved to history
+  unidentified: number; // Captures the model analyzed but could not identify a breed in
+  remaining: number; // Captures still queued, e.g. because the connection dropped again
+  error?: string; // Set when a run stopped early
+}
@@ -0,0 +1,16 @@
+// Guided capture collects a fixed set of views of one animal, analyzed together
+
+export type CaptureViewId = 'side' | 'front' | 'rear' | 'head';
+
+export interface CaptureViewDefinition {
+  id: CaptureViewId;
+  label: string;
+  instructions: string; // Shown to the user under the camera preview
+  modelDescription: string; // Tells the model what this view is for
+  required: boolean;
+}
+
+export interface CapturedView {
+  view: CaptureViewId;
+  file: File;
+}
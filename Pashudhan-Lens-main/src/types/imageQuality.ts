@@ -0,0 +1,35 @@
+// Local image quality pre-check, run on canvas pixels before an image is sent to the model
+
+export type ImageQualityIssueCode =
+  | 'motion-blur'
+  | 'too-dark'
+  | 'too-bright'
+  | 'overexposed'
+  | 'oversaturated'
+  | 'subject-too-small'
+  | 'aspect-ratio';
+
+// warning: analysis still runs; blocking: the image is not sent
+export type ImageQualitySeverity = 'warning' | 'blocking';
+
+export interface ImageQualityScores {
+  sharpness: number; // Variance of the Laplacian on the luminance channel; low means blurred
+  brightness: number; // Mean luminance, 0-255
+  clippedHighlights: number; // Share of pixels at or near pure white, 0-1
+  oversaturated: number; // Share of pixels with a colour channel clipped at 255, 0-1
+  width: number; // Original image size in pixels
+  height: number;
+  aspectRatio: number; // Long side over short side
+}
+
+export interface ImageQualityIssue {
+  code: ImageQualityIssueCode;
+  severity: ImageQualitySeverity;
+  message: string; // What is wrong and how to retake the photo
+}
+
+export interface ImageQualityReport {
+  scores: ImageQualityScores;
+  issues: ImageQualityIssue[];
+  blocked: boolean;
+}
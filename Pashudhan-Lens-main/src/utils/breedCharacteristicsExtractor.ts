@@ -1,29 +1,9 @@
-// Utility to extract detailed breed characteristics from legacy API responses
-// Type for input breed identification that can come from either API format
-type InputBreedIdentification = {
-  species: string;
-  commonName?: string;
-  confidence?: number;
-  description?: string;
-  habitat?: string;
-  conservation?: string;
-  isIndianBreed?: boolean;
-  breedCharacteristics?: {
-    bodyStructure?: string;
-    colorPattern?: string;
-    hornCharacteristics?: string;
-    earShape?: string;
-    facialFeatures?: string;
-    humpPresence?: string;
-    overallConformation?: string;
-  };
-  metadata?: {
-    estimatedAge?: string;
-    estimatedSize?: string;
-    imageQualityNotes?: string;
-    environmentalContext?: string;
-  };
-};
+// Utility to resolve breed characteristics, extracting them from free text only for legacy API responses
+import { SpeciesIdentification, StandardizedBreedIdentification } from '@/types/breedIdentification';
+
+// Standardized records carry their own characteristics; legacy records only have free text
+type InputBreedIdentification = SpeciesIdentification &
+  Partial<Pick<StandardizedBreedIdentification, 'breedCharacteristics' | 'metadata'>>;
 
 export interface ExtractedBreedCharacteristics {
   bodyStructure: string;
@@ -40,9 +20,13 @@ export interface ExtractedBreedCharacteristics {
   environmentalContext: string;
 }
 
-export function extractBreedCharacteristicsFromDescription(breed: InputBreedIdentification): ExtractedBreedCharacteristics {
-  // If the breed already has standardized characteristics, use them
-  if (breed.breedCharacteristics) {
+export function hasStructuredCharacteristics(breed: InputBreedIdentification): boolean {
+  return !!breed.breedCharacteristics && typeof breed.breedCharacteristics === 'object';
+}
+
+export function resolveBreedCharacteristics(breed: InputBreedIdentification): ExtractedBreedCharacteristics {
+  // If the breed already has standardized characteristics, use them as-is
+  if (hasStructuredCharacteristics(breed)) {
     return {
       colorPattern: breed.breedCharacteristics.colorPattern || 'Color pattern not specified',
       bodyStructure: breed.breedCharacteristics.bodyStructure || 'Body structure not specified',
@@ -51,7 +35,7 @@ export function extractBreedCharacteristicsFromDescription(breed: InputBreedIden
       earShape: breed.breedCharacteristics.earShape || 'Ear shape not specified',
       humpPresence: breed.breedCharacteristics.humpPresence || 'Hump characteristics not specified',
       overallConformation: breed.breedCharacteristics.overallConformation || 'Overall conformation not specified',
-      bpaRegistrationNotes: generateBPANotes(breed),
+      bpaRegistrationNotes: breed.bpaRegistrationNotes || generateBPANotes(breed),
       estimatedAge: breed.metadata?.estimatedAge || 'Age estimation not available',
       estimatedSize: breed.metadata?.estimatedSize || 'Size estimation not available',
       imageQualityNotes: breed.metadata?.imageQualityNotes || 'Image quality notes not available',
@@ -60,6 +44,11 @@ export function extractBreedCharacteristicsFromDescription(breed: InputBreedIden
   }
   
   // Fallback to extraction from description for legacy format
+  return extractBreedCharacteristicsFromDescription(breed);
+}
+
+// Regex extraction for legacy records that only carry a free-text description
+export function extractBreedCharacteristicsFromDescription(breed: InputBreedIdentification): ExtractedBreedCharacteristics {
   const description = breed.description || '';
   const habitat = breed.habitat || '';
   const conservation = breed.conservation || '';
@@ -95,8 +84,8 @@ export function extractBreedCharacteristicsFromDescription(breed: InputBreedIden
   // Extract environmental context
   const environmentalContext = extractEnvironmentalContext(description);
   
-  // Generate BPA registration notes
-  const bpaRegistrationNotes = generateBPANotes(breed);
+  // Prefer the model's own BPA notes, otherwise derive them from confidence
+  const bpaRegistrationNotes = breed.bpaRegistrationNotes || generateBPANotes(breed);
   
   return {
     bodyStructure,
@@ -2,12 +2,25 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
+// The breed proxy (npm run proxy) holds the Gemini key; the app reaches it at VITE_BREED_PROXY_URL's default
+const breedProxy = {
+  "/api/breed": {
+    target: "http://localhost:8787",
+    changeOrigin: true,
+    rewrite: (requestPath: string) => requestPath.replace(/^\/api\/breed/, ""),
+  },
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
     historyApiFallback: true,
+    proxy: breedProxy,
+  },
+  preview: {
+    proxy: breedProxy,
   },
   plugins: [
     react(),